@@ -0,0 +1,43 @@
+// Vercel routing middleware. Requests for a landing page's old slug get a
+// 301 to its current slug before the app loads, so crawlers and link
+// previews see the move. PublishedLandingPage still redirects on the client
+// if this lookup is skipped or fails. Needs SUPABASE_URL and
+// SUPABASE_ANON_KEY in the deployment's environment.
+
+import { RESERVED_SLUGS } from './src/lib/slugs';
+
+export const config = {
+  // Landing pages live at a single path segment
+  matcher: '/:slug([a-z0-9-]+)',
+};
+
+export default async function middleware(request: Request) {
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_ANON_KEY;
+  if (!supabaseUrl || !supabaseKey) return;
+
+  // App routes like /auth and /verify can never be slugs, so they skip the lookup
+  const url = new URL(request.url);
+  const slug = url.pathname.slice(1);
+  if (RESERVED_SLUGS.includes(slug)) return;
+
+  try {
+    const response = await fetch(`${supabaseUrl}/rest/v1/rpc/resolve_landing_page_slug_redirect`, {
+      method: 'POST',
+      headers: {
+        apikey: supabaseKey,
+        Authorization: `Bearer ${supabaseKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ p_slug: slug }),
+    });
+    if (!response.ok) return;
+    const currentSlug = await response.json();
+    if (typeof currentSlug !== 'string' || !currentSlug) return;
+    // Query parameters such as qr_id carry over
+    url.pathname = `/${currentSlug}`;
+    return Response.redirect(url, 301);
+  } catch (error) {
+    console.error('Error resolving slug redirect:', error);
+  }
+}
@@ -3,7 +3,7 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { createBrowserRouter, createRoutesFromElements, Outlet, Route, RouterProvider } from "react-router-dom";
 import ProfilePage from './components/profile/ProfilePage';
 import { supabase, setupStorageBuckets } from "@/integrations/supabase/client";
 
@@ -19,6 +19,9 @@ import AdminDashboard from "./pages/AdminDashboard";
 import UserDashboard from "./pages/UserDashboard";
 import NotFound from "./pages/NotFound";
 import PublishedLandingPage from "./pages/PublishedLandingPage";
+import QRRedirect from "./pages/QRRedirect";
+import SerialVerify from "./pages/SerialVerify";
+import SignatureVerify from "./pages/SignatureVerify";
 import BrandProducts from "./pages/BrandProducts";
 import BrandProductDetail from "./pages/BrandProductDetail";
 import BrandSubmissions from './pages/BrandSubmissions';
@@ -27,6 +30,60 @@ import BrandFiles from "./pages/BrandFiles";
 
 const queryClient = new QueryClient();
 
+// Shared providers for every route; lives inside the router so pages can
+// use data router features such as blocking navigation
+const RootLayout = () => (
+  <TooltipProvider>
+    <Toaster />
+    <Sonner />
+    <Outlet />
+  </TooltipProvider>
+);
+
+const router = createBrowserRouter(
+  createRoutesFromElements(
+    <Route element={<RootLayout />}>
+      {/* Public Routes */}
+      <Route path="/" element={<Index />} />
+      <Route path="/auth" element={<Auth />} />
+      
+      {/* Brand Routes */}
+      <Route path="/dashboard/brand" element={<BrandDashboard />} />
+      <Route path="/dashboard/brand/create-qr" element={<QRCreator />} />
+      <Route path="/dashboard/brand/create-page" element={<PageCreator />} />
+      <Route path="/dashboard/brand/edit-page/:pageId" element={<PageCreator />} />
+      <Route path="/dashboard/brand/edit-qr/:qrid" element={<QRCreator />} />
+      <Route path="/dashboard/brand/landing-pages" element={<LandingPagesList />} />
+      <Route path="/dashboard/brand/qr-codes" element={<QRCodesList />} />
+      <Route path="/dashboard/brand/products" element={<BrandProducts />} />
+      <Route path="/dashboard/brand/products/:id" element={<BrandProductDetail />} />
+      <Route path="/dashboard/brand/submissions" element={<BrandSubmissions />} />
+      <Route path="/dashboard/brand/analytics" element={<BrandAnalytics />} />
+      <Route path="/dashboard/brand/files" element={<BrandFiles />} />
+      
+      {/* Admin Routes */}
+      <Route path="/dashboard/admin" element={<AdminDashboard />} />
+      
+      {/* User Routes */}
+      <Route path="/dashboard/user" element={<UserDashboard />} />
+      
+      {/* Profile Route */}
+      <Route path="/profile" element={<ProfilePage />} />
+      
+      {/* Dynamic QR code redirects */}
+      <Route path="/q/:shortCode" element={<QRRedirect />} />
+      <Route path="/s/:token" element={<SerialVerify />} />
+      <Route path="/verify" element={<SignatureVerify />} />
+
+      {/* Published Landing Page Route - Moved to the top for priority */}
+      <Route path="/:slug" element={<PublishedLandingPage />} />
+      
+      {/* 404 Route */}
+      <Route path="*" element={<NotFound />} />
+    </Route>
+  )
+);
+
 const App = () => {
   useEffect(() => {
     // Set up Supabase storage buckets when the app loads
@@ -45,46 +102,7 @@ const App = () => {
   
   return (
     <QueryClientProvider client={queryClient}>
-      <BrowserRouter>
-        <TooltipProvider>
-          <Toaster />
-          <Sonner />
-          <Routes>
-            {/* Public Routes */}
-            <Route path="/" element={<Index />} />
-            <Route path="/auth" element={<Auth />} />
-            
-            {/* Brand Routes */}
-            <Route path="/dashboard/brand" element={<BrandDashboard />} />
-            <Route path="/dashboard/brand/create-qr" element={<QRCreator />} />
-            <Route path="/dashboard/brand/create-page" element={<PageCreator />} />
-            <Route path="/dashboard/brand/edit-page/:pageId" element={<PageCreator />} />
-            <Route path="/dashboard/brand/edit-qr/:qrid" element={<QRCreator />} />
-            <Route path="/dashboard/brand/landing-pages" element={<LandingPagesList />} />
-            <Route path="/dashboard/brand/qr-codes" element={<QRCodesList />} />
-            <Route path="/dashboard/brand/products" element={<BrandProducts />} />
-            <Route path="/dashboard/brand/products/:id" element={<BrandProductDetail />} />
-            <Route path="/dashboard/brand/submissions" element={<BrandSubmissions />} />
-            <Route path="/dashboard/brand/analytics" element={<BrandAnalytics />} />
-            <Route path="/dashboard/brand/files" element={<BrandFiles />} />
-            
-            {/* Admin Routes */}
-            <Route path="/dashboard/admin" element={<AdminDashboard />} />
-            
-            {/* User Routes */}
-            <Route path="/dashboard/user" element={<UserDashboard />} />
-            
-            {/* Profile Route */}
-            <Route path="/profile" element={<ProfilePage />} />
-            
-            {/* Published Landing Page Route - Moved to the top for priority */}
-            <Route path="/:slug" element={<PublishedLandingPage />} />
-            
-            {/* 404 Route */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </TooltipProvider>
-      </BrowserRouter>
+      <RouterProvider router={router} />
     </QueryClientProvider>
   );
 };
@@ -1,64 +0,0 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/integrations/supabase/client';
-import { v4 as uuidv4 } from 'uuid';
-
-export async function POST(request: NextRequest) {
-  try {
-    const formData = await request.formData();
-    const file = formData.get('file') as File;
-    const brandId = formData.get('brandId') as string;
-
-    if (!file) {
-      return NextResponse.json(
-        { error: 'No file received' },
-        { status: 400 }
-      );
-    }
-
-    // Prepare file info
-    const fileExt = file.name.split('.').pop();
-    const fileName = `${uuidv4()}.${fileExt}`;
-    const filePath = `${brandId}/${fileName}`;
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = new Uint8Array(arrayBuffer);
-
-    // Upload to Supabase Storage
-    const { data: uploadData, error: uploadError } = await supabase.storage
-      .from('product-images')
-      .upload(filePath, buffer, {
-        contentType: file.type,
-        upsert: false
-      });
-
-    if (uploadError) {
-      return NextResponse.json(
-        { error: uploadError.message },
-        { status: 500 }
-      );
-    }
-
-    // Get public URL
-    const { data: publicUrlData } = supabase.storage
-      .from('product-images')
-      .getPublicUrl(filePath);
-    const publicUrl = publicUrlData.publicUrl;
-
-    // Insert file metadata into 'files' table
-    await supabase.from('files').insert({
-      brand_id: brandId,
-      name: file.name,
-      url: publicUrl,
-      size: file.size,
-      mime_type: file.type,
-      type: file.type.startsWith('image/') ? 'IMAGE' : file.type.endsWith('pdf') ? 'PDF' : 'OTHER',
-    });
-
-    return NextResponse.json({ url: publicUrl });
-  } catch (error) {
-    console.error('Upload error:', error);
-    return NextResponse.json(
-      { error: 'Error uploading file' },
-      { status: 500 }
-    );
-  }
-}
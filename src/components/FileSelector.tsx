@@ -6,15 +6,19 @@ import { Button } from './ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
+import { Switch } from './ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { supabase } from '@/integrations/supabase/client';
 import { v4 as uuidv4 } from 'uuid';
+import { uploadWatermarkedImage, WATERMARKABLE_TYPES } from '@/lib/watermark';
 
 interface FileSelectorProps {
   type: 'image' | 'pdf';
   onSelect: (file: any) => void; // Changed to 'any' to accommodate various file types
   brandId: string;
   value?: string;
+  // Offers an invisible watermark on uploaded images
+  allowWatermark?: boolean;
 }
 
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
@@ -23,11 +27,13 @@ export const FileSelector: React.FC<FileSelectorProps> = ({
   type,
   onSelect,
   brandId,
-  value
+  value,
+  allowWatermark = false
 }) => {
   const [showFileManager, setShowFileManager] = useState(false);
   const [showUpload, setShowUpload] = useState(false);
   const [url, setUrl] = useState(value || '');
+  const [addWatermark, setAddWatermark] = useState(false);
 
   const handleFileSelect = (file: FileAsset) => {
     onSelect(file);
@@ -39,16 +45,25 @@ export const FileSelector: React.FC<FileSelectorProps> = ({
       alert(`File size must be less than 5MB`);
       return;
     }
+    const watermark = allowWatermark && addWatermark;
+    if (watermark && !WATERMARKABLE_TYPES.includes(file.type)) {
+      alert('Only PNG, JPEG and WebP images can be watermarked.');
+      return;
+    }
     try {
       const fileExt = file.name.split('.').pop();
       const fileName = `${uuidv4()}.${fileExt}`;
       const filePath = `${brandId}/${fileName}`;
       // Upload to Supabase Storage
-      const { error: uploadError } = await supabase.storage
-        .from('product-images')
-        .upload(filePath, file);
-      if (uploadError) {
-        throw uploadError;
+      if (watermark) {
+        await uploadWatermarkedImage(file, brandId, filePath);
+      } else {
+        const { error: uploadError } = await supabase.storage
+          .from('product-images')
+          .upload(filePath, file);
+        if (uploadError) {
+          throw uploadError;
+        }
       }
       // Get public URL
       const { data: { publicUrl } } = supabase.storage
@@ -116,6 +131,17 @@ export const FileSelector: React.FC<FileSelectorProps> = ({
                 maxSize={MAX_FILE_SIZE}
                 brandId={brandId}
               />
+              {allowWatermark && (
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Switch id="file-watermark" checked={addWatermark} onCheckedChange={setAddWatermark} />
+                    <Label htmlFor="file-watermark">Add invisible watermark</Label>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Lets you trace copies of this image back to your brand with Check Image
+                  </p>
+                </div>
+              )}
             </DialogContent>
           </Dialog>
         </TabsContent>
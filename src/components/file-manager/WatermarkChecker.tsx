@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { ScanSearch, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { detectWatermark, loadPixels, WatermarkDetection } from '@/lib/watermark';
+
+interface WatermarkOwner {
+  brandName: string;
+  fileName: string | null;
+  url: string;
+  createdAt: string | null;
+  isOwn: boolean;
+}
+
+interface CheckResult {
+  detection: WatermarkDetection;
+  // Null when nothing was found or the id isn't registered
+  owner: WatermarkOwner | null;
+  preview: string;
+}
+
+// Reads the invisible watermark from a suspect image and looks up its owner
+export function WatermarkChecker() {
+  const [open, setOpen] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [result, setResult] = useState<CheckResult | null>(null);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next && result) {
+      URL.revokeObjectURL(result.preview);
+      setResult(null);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setChecking(true);
+    try {
+      const detection = detectWatermark(await loadPixels(file));
+      let owner: WatermarkOwner | null = null;
+      if (detection.found) {
+        const { data, error } = await supabase.rpc('identify_image_watermark', { p_watermark_id: detection.watermarkId });
+        if (error) throw error;
+        if (data) {
+          const raw = data as Record<string, string | boolean | null>;
+          const { data: { publicUrl } } = supabase.storage
+            .from('product-images')
+            .getPublicUrl(raw.file_path as string);
+          owner = {
+            brandName: raw.brand_name as string,
+            fileName: raw.file_name as string | null,
+            url: publicUrl,
+            createdAt: raw.created_at as string | null,
+            isOwn: raw.is_own === true,
+          };
+        }
+      }
+      if (result) URL.revokeObjectURL(result.preview);
+      setResult({ detection, owner, preview: URL.createObjectURL(file) });
+    } catch (error) {
+      console.error('Watermark check error:', error);
+      toast.error('Failed to check image');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <ScanSearch size={16} />
+          Check Image
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Check Image</DialogTitle>
+          <DialogDescription>
+            Upload a suspect image to find out which brand and asset it was copied from.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Button variant="outline" className="gap-2 w-full" disabled={checking} asChild>
+          <label className="cursor-pointer">
+            <Upload size={16} />
+            {checking ? 'Checking...' : result ? 'Check Another Image' : 'Choose Image'}
+            <input type="file" accept="image/*" className="hidden" onChange={handleFileChange} disabled={checking} />
+          </label>
+        </Button>
+
+        {result && (
+          <div className="flex gap-4 rounded-lg border p-4">
+            <img src={result.preview} alt="Checked" className="w-24 h-24 object-cover rounded border shrink-0" />
+            <div className="space-y-1 text-sm min-w-0">
+              {!result.detection.found ? (
+                <>
+                  <p className="font-semibold">No watermark found</p>
+                  <p className="text-muted-foreground">
+                    The image is unmarked, or was cropped, rotated or edited too heavily to read.
+                  </p>
+                </>
+              ) : !result.owner ? (
+                <>
+                  <p className="font-semibold">Unregistered watermark</p>
+                  <p className="text-muted-foreground">
+                    A watermark was found, but it doesn't belong to any asset on record.
+                  </p>
+                </>
+              ) : (
+                <>
+                  <div className="flex items-center gap-2">
+                    <p className="font-semibold truncate">{result.owner.brandName}</p>
+                    <Badge variant={result.owner.isOwn ? 'default' : 'secondary'}>
+                      {result.owner.isOwn ? 'Your asset' : 'Another brand'}
+                    </Badge>
+                  </div>
+                  <p className="truncate">
+                    <a href={result.owner.url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                      {result.owner.fileName || 'Original image'}
+                    </a>
+                  </p>
+                  {result.owner.createdAt && (
+                    <p className="text-muted-foreground">Uploaded {new Date(result.owner.createdAt).toLocaleString()}</p>
+                  )}
+                </>
+              )}
+              {result.detection.found && (
+                <p className="text-muted-foreground">Confidence: {Math.round(result.detection.confidence * 100)}%</p>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
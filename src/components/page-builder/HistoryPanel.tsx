@@ -0,0 +1,59 @@
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { History } from "lucide-react";
+import { HistoryEntry } from "@/lib/history";
+
+interface HistoryPanelProps<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+  // Undoes or redoes until `steps` actions remain applied
+  onJump: (steps: number) => void;
+}
+
+interface HistoryRow {
+  steps: number;
+  label: string;
+  time: string | null;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Recent actions, newest first; click one to go back (or forward) to it
+export function HistoryPanel<T>({ past, future, onJump }: HistoryPanelProps<T>) {
+  const rows: HistoryRow[] = [
+    ...future.map((entry, index) => ({ steps: past.length + index + 1, label: entry.command.label, time: formatTime(entry.timestamp) })).reverse(),
+    ...past.map((entry, index) => ({ steps: index + 1, label: entry.command.label, time: formatTime(entry.timestamp) })).reverse(),
+    { steps: 0, label: 'Opened page', time: null },
+  ];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" title="History">
+          <History size={18} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-0">
+        <div className="px-4 py-3 border-b text-sm font-medium">History</div>
+        <div className="max-h-80 overflow-y-auto p-1">
+          {rows.map(row => {
+            const isCurrent = row.steps === past.length;
+            const isUndone = row.steps > past.length;
+            return (
+              <button
+                key={row.steps}
+                type="button"
+                onClick={() => onJump(row.steps)}
+                className={`w-full flex items-center justify-between gap-2 rounded px-3 py-2 text-left text-sm hover:bg-gray-100 ${isCurrent ? 'bg-gray-100 font-medium' : ''} ${isUndone ? 'text-muted-foreground line-through' : ''}`}
+              >
+                <span className="truncate">{row.label}</span>
+                {row.time && <span className="text-xs text-muted-foreground shrink-0">{row.time}</span>}
+              </button>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -4,9 +4,11 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { X, Upload, Image as ImageIcon } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { uploadWatermarkedImage, WATERMARKABLE_TYPES } from "@/lib/watermark";
 
 interface MediaLibraryProps {
   open: boolean;
@@ -21,6 +23,7 @@ export function MediaLibrary({ open, onOpenChange, onSelectImage }: MediaLibrary
   const [altText, setAltText] = useState("");
   const [brandId, setBrandId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [addWatermark, setAddWatermark] = useState(false);
 
   useEffect(() => {
     if (open) {
@@ -76,19 +79,30 @@ export function MediaLibrary({ open, onOpenChange, onSelectImage }: MediaLibrary
         return;
       }
       setIsUploading(true);
+      let skipped = 0;
       for (let i = 0; i < files.length; i++) {
         const file = files[i];
         const fileExt = file.name.split('.').pop();
         const fileName = `${Date.now()}_${Math.random().toString(36).substring(2, 8)}.${fileExt}`;
         const filePath = `${brandId}/${fileName}`;
+
+        if (addWatermark && WATERMARKABLE_TYPES.includes(file.type)) {
+          await uploadWatermarkedImage(file, brandId, filePath);
+          continue;
+        }
+        if (addWatermark) skipped++;
         const { error: uploadError } = await supabase.storage
           .from('product-images')
           .upload(filePath, file);
         if (uploadError) throw uploadError;
       }
       toast.success('Images uploaded successfully');
+      if (skipped > 0) {
+        toast.info(`${skipped} image${skipped === 1 ? ' was' : 's were'} uploaded without a watermark; only PNG, JPEG and WebP can be marked`);
+      }
       fetchImages();
     } catch (error) {
+      console.error('Upload error:', error);
       toast.error('Failed to upload image');
     } finally {
       setIsUploading(false);
@@ -197,6 +211,13 @@ export function MediaLibrary({ open, onOpenChange, onSelectImage }: MediaLibrary
                   {isUploading ? 'Uploading...' : 'Select Files'}
                 </label>
               </Button>
+              <div className="flex items-center gap-2 mt-6">
+                <Switch id="image-watermark" checked={addWatermark} onCheckedChange={setAddWatermark} disabled={isUploading} />
+                <Label htmlFor="image-watermark">Add invisible watermark</Label>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                Lets you trace copies of this image back to your brand with Check Image in the file manager
+              </p>
             </div>
           </TabsContent>
         </Tabs>
@@ -1,19 +1,59 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useCallback, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { PageEditorSidebar } from "./PageEditorSidebar";
 import { PageEditorCanvas } from "./PageEditorCanvas";
 import { PageEditorPreview } from "./PageEditorPreview";
 import { PageSettingsDialog } from "./PageSettingsDialog";
 import { MediaLibrary } from "./MediaLibrary";
-import { SaveIcon, Share2, Smartphone, Settings } from "lucide-react";
+import { HistoryPanel } from "./HistoryPanel";
+import { SaveStatus, SaveStatusIndicator } from "./SaveStatusIndicator";
+import { PageRevisionsDialog } from "./PageRevisionsDialog";
+import { PublishPageDialog } from "./PublishPageDialog";
+import { SaveIcon, Share2, Smartphone, Settings, Undo2, Redo2, FileClock, Globe } from "lucide-react";
 import { toast } from "sonner";
-import { useNavigate } from "react-router-dom";
+import { useBlocker, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { PageBuilderProps } from "./interfaces";
 import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, useSensors, DragEndEvent } from '@dnd-kit/core';
-import { arrayMove, SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { createHistory, executeCommand, HistoryState, jumpTo, redo, undo } from "@/lib/history";
+import {
+  addBlockCommand,
+  deleteBlockCommand,
+  moveBlockCommand,
+  PageCommand,
+  PageEditorState,
+  restoreRevisionCommand,
+  updateBlockCommand,
+  updatePageCommand,
+} from "./commands";
+import { AUTOSAVE_DELAY_MS, hasUnsavedChanges, savePageChanges } from "./save";
+import { formatRevisionTime, PageRevision, revisionToState } from "./revisions";
+import { generatePageSlug } from "./slugs";
+import {
+  getPageStatus,
+  hasScheduledUpdate,
+  hasUnpublishedChanges,
+  PAGE_STATUS_LABELS,
+  PagePublishFields,
+  publishFieldsFromRecord,
+  publishPage,
+  unpublishPage,
+  updatePublishWindow,
+} from "./publishing";
 
 export interface Block {
   id: string;
@@ -25,23 +65,47 @@ export interface Block {
 export interface LandingPage {
   id?: string;
   title: string;
-  slug?: string;
   backgroundColor: string;
   fontFamily: string;
   published: boolean;
 }
 
-export function PageBuilder({ userId, pageId }: PageBuilderProps) {
-  const [pageData, setPageData] = useState<LandingPage>({
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.userAgent);
+const UNDO_SHORTCUT = IS_MAC ? '⌘Z' : 'Ctrl+Z';
+const REDO_SHORTCUT = IS_MAC ? '⇧⌘Z' : 'Ctrl+Shift+Z';
+
+const NEW_PAGE_STATE: PageEditorState = {
+  page: {
     title: "Untitled Landing Page",
     backgroundColor: "#FFFFFF",
     fontFamily: "Inter, sans-serif",
     published: false,
-  });
-  
-  const [blocks, setBlocks] = useState<Block[]>([]);
+  },
+  blocks: [],
+};
+
+export function PageBuilder({ userId, pageId }: PageBuilderProps) {
+  // Page settings and blocks change only through commands, so every edit
+  // can be undone
+  const [history, setHistory] = useState<HistoryState<PageEditorState>>(() => createHistory(NEW_PAGE_STATE));
+  const { page: pageData, blocks } = history.present;
+  // What the database holds, so saves only send the difference
+  const [savedState, setSavedState] = useState<PageEditorState>(NEW_PAGE_STATE);
+  // The state whose save failed; autosave waits for another edit before retrying
+  const [failedState, setFailedState] = useState<PageEditorState | null>(null);
+  // Saves run one at a time, each diffing against what the previous one
+  // stored, so a manual save never races a running autosave. The refs hold
+  // the latest values for saves that were queued before a render.
+  const saveQueue = useRef<Promise<unknown>>(Promise.resolve());
+  const savedStateRef = useRef<PageEditorState>(NEW_PAGE_STATE);
+  const pageIdRef = useRef<string | null>(null);
   const [showMobilePreview, setShowMobilePreview] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [showPublish, setShowPublish] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  // Not part of the undoable state: publishing happens on the server
+  const [publishing, setPublishing] = useState<PagePublishFields | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [isLoading, setIsLoading] = useState(pageId ? true : false);
   const [currentPageId, setCurrentPageId] = useState<string | null>(null);
@@ -52,6 +116,8 @@ export function PageBuilder({ userId, pageId }: PageBuilderProps) {
     altPath?: string;
   } | null>(null);
   const [brandId, setBrandId] = useState<string | null>(null);
+  // Renamed on its own from the settings dialog, outside undo history
+  const [slug, setSlug] = useState<string | null>(null);
   
   const navigate = useNavigate();
   
@@ -80,16 +146,21 @@ export function PageBuilder({ userId, pageId }: PageBuilderProps) {
         }
         
         if (pageData) {
-          setPageData({
+          const loadedPage: LandingPage = {
             id: pageData.id,
             title: pageData.title,
-            slug: pageData.slug,
             backgroundColor: pageData.background_color || "#FFFFFF",
             fontFamily: pageData.font_family || "Inter, sans-serif",
             published: pageData.published || false
-          });
+          };
+          setHistory(createHistory({ page: loadedPage, blocks: [] }));
+          savedStateRef.current = { page: loadedPage, blocks: [] };
+          setSavedState(savedStateRef.current);
           
+          pageIdRef.current = pageData.id;
           setCurrentPageId(pageData.id);
+          setSlug(pageData.slug);
+          setPublishing(publishFieldsFromRecord(pageData));
           
           const { data: components, error: componentsError } = await supabase
             .from('page_components')
@@ -105,13 +176,15 @@ export function PageBuilder({ userId, pageId }: PageBuilderProps) {
           
           if (components && components.length > 0) {
             const loadedBlocks = components.map(component => ({
-              id: `block-${component.id}`,
+              id: component.id,
               type: component.type,
               content: component.content || {},
               styles: component.styles || getDefaultStylesForBlockType(component.type)
             }));
             
-            setBlocks(loadedBlocks);
+            setHistory(createHistory({ page: loadedPage, blocks: loadedBlocks }));
+            savedStateRef.current = { page: loadedPage, blocks: loadedBlocks };
+            setSavedState(savedStateRef.current);
           }
         }
       } catch (error) {
@@ -138,47 +211,71 @@ export function PageBuilder({ userId, pageId }: PageBuilderProps) {
     fetchBrandId();
   }, [userId]);
 
+  const execute = (command: PageCommand) => {
+    setHistory(prev => executeCommand(prev, command));
+  };
+
+  const handleUndo = () => setHistory(undo);
+  const handleRedo = () => setHistory(redo);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey) return;
+      const key = event.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      // Leave text fields their own undo, and don't change blocks under an
+      // open editor dialog
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"], [role="dialog"]')) return;
+      event.preventDefault();
+      setHistory(key === 'y' || event.shiftKey ? redo : undo);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   const handleAddBlock = (blockType: string, content?: any) => {
     const newBlock = {
-      id: `block-${Date.now()}-${Math.random()}`,
+      // Ids are kept when saved, so they must be valid row ids
+      id: crypto.randomUUID(),
       type: blockType,
       content: content || getDefaultContentForBlockType(blockType),
       styles: getDefaultStylesForBlockType(blockType),
     };
-    setBlocks(prevBlocks => [...prevBlocks, newBlock]);
+    execute(addBlockCommand(newBlock));
   };
   
   const handleDeleteBlock = (blockId: string) => {
-    setBlocks(blocks.filter(block => block.id !== blockId));
+    const index = blocks.findIndex(block => block.id === blockId);
+    if (index < 0) return;
+    execute(deleteBlockCommand(blocks[index], index));
   };
   
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
     
     if (over && active.id !== over.id) {
-      setBlocks((blocks) => {
-        const oldIndex = blocks.findIndex((block) => block.id === active.id);
-        const newIndex = blocks.findIndex((block) => block.id === over.id);
-        
-        return arrayMove(blocks, oldIndex, newIndex);
-      });
+      const oldIndex = blocks.findIndex((block) => block.id === active.id);
+      const newIndex = blocks.findIndex((block) => block.id === over.id);
+      if (oldIndex < 0 || newIndex < 0) return;
+      execute(moveBlockCommand(blocks[oldIndex], oldIndex, newIndex));
     }
   };
   
   const handleUpdateBlock = (blockId: string, updatedContent: Record<string, any>, updatedStyles: Record<string, any>) => {
-    setBlocks(blocks.map(block => 
-      block.id === blockId 
-        ? { 
-            ...block, 
-            content: updatedContent,
-            styles: updatedStyles || block.styles || {}
-          } 
-        : block
-    ));
+    const block = blocks.find(existing => existing.id === blockId);
+    if (!block) return;
+    execute(updateBlockCommand(block, {
+      ...block,
+      content: updatedContent,
+      styles: updatedStyles || block.styles || {}
+    }));
   };
   
   const handlePageSettingsChange = (updatedSettings: Partial<LandingPage>) => {
-    setPageData({ ...pageData, ...updatedSettings });
+    const keys = Object.keys(updatedSettings) as (keyof LandingPage)[];
+    const previous = Object.fromEntries(keys.map(key => [key, pageData[key]])) as Partial<LandingPage>;
+    execute(updatePageCommand(previous, updatedSettings));
   };
 
   const openMediaLibrary = (blockId: string, fieldPath: string, altPath?: string) => {
@@ -223,94 +320,187 @@ export function PageBuilder({ userId, pageId }: PageBuilderProps) {
     }
   };
 
-  const savePage = async () => {
-    try {
-      setIsSaving(true);
-      
-      if (!userId) {
-        toast.error("You need to be logged in to save a page");
-        navigate("/auth");
-        return;
-      }
-      
-      let landingPageId = currentPageId;
-      
-      if (!landingPageId) {
-        const tempSlug = `${pageData.title.toLowerCase().replace(/\s+/g, '-')}-${Date.now()}`;
-        
-        // Fetch brand for this user
-        const { data: brand } = await supabase
-          .from('brands')
-          .select('id')
-          .eq('user_id', userId)
-          .maybeSingle();
-
-        const { data: newPageData, error: pageError } = await supabase
-          .from('landing_pages')
-          .insert({
-            title: pageData.title,
-            background_color: pageData.backgroundColor,
-            font_family: pageData.fontFamily,
-            user_id: userId,
-            slug: tempSlug,
-            brand_id: brand?.id
-          })
-          .select('id, slug, brand_id')
-          .single();
-        
-        if (pageError) {
-          throw pageError;
+  // Resolves to the page id, or null when the save failed
+  const savePage = useCallback((
+    state: PageEditorState,
+    { isAutosave = false, silent = isAutosave }: { isAutosave?: boolean; silent?: boolean } = {},
+  ): Promise<string | null> => {
+    const run = async (): Promise<string | null> => {
+      try {
+        setIsSaving(true);
+
+        if (!userId) {
+          toast.error("You need to be logged in to save a page");
+          navigate("/auth");
+          return null;
         }
-        
-        landingPageId = newPageData.id;
-        setCurrentPageId(landingPageId);
-        toast.success(`Page created with slug: ${newPageData.slug}`);
-      } else {
-        const { error: updateError } = await supabase
-          .from('landing_pages')
-          .update({
-            title: pageData.title,
-            background_color: pageData.backgroundColor,
-            font_family: pageData.fontFamily,
-          })
-          .eq('id', landingPageId);
-          
-        if (updateError) {
-          throw updateError;
+
+        let landingPageId = pageIdRef.current;
+
+        if (!landingPageId) {
+          const newSlug = await generatePageSlug(state.page.title);
+
+          // Fetch brand for this user
+          const { data: brand } = await supabase
+            .from('brands')
+            .select('id')
+            .eq('user_id', userId)
+            .maybeSingle();
+
+          const { data: newPageData, error: pageError } = await supabase
+            .from('landing_pages')
+            .insert({
+              title: state.page.title,
+              background_color: state.page.backgroundColor,
+              font_family: state.page.fontFamily,
+              user_id: userId,
+              slug: newSlug,
+              brand_id: brand?.id
+            })
+            .select('id, slug, brand_id')
+            .single();
+
+          if (pageError) {
+            throw pageError;
+          }
+
+          landingPageId = newPageData.id;
+          pageIdRef.current = landingPageId;
+          setCurrentPageId(landingPageId);
+          setSlug(newPageData.slug);
+          toast.success(`Page created with slug: ${newPageData.slug}`);
         }
+
+        // A save queued ahead may already have stored this state
+        if (hasUnsavedChanges(savedStateRef.current, state)) {
+          await savePageChanges(landingPageId, savedStateRef.current, state, isAutosave);
+        }
+        savedStateRef.current = state;
+        setSavedState(state);
+        setFailedState(null);
+
+        if (!silent) {
+          toast.success("Landing page saved successfully!");
+        }
+        return landingPageId;
+      } catch (error) {
+        console.error("Error saving landing page:", error);
+        setFailedState(state);
+        toast.error(isAutosave ? "Autosave failed; your changes are not saved yet" : "Failed to save landing page");
+        return null;
+      } finally {
+        setIsSaving(false);
       }
-      
-      if (landingPageId) {
-        await supabase
-          .from('page_components')
-          .delete()
-          .eq('page_id', landingPageId);
-      }
-      
-      const componentsToInsert = blocks.map((block, index) => ({
-        page_id: landingPageId,
-        type: block.type,
-        content: block.content,
-        position: index,
-        styles: block.styles,
-      }));
-      
-      const { error: componentsError } = await supabase
-        .from('page_components')
-        .insert(componentsToInsert);
-          
-      if (componentsError) {
-        throw componentsError;
-      }
-      
-      toast.success("Landing page saved successfully!");
+    };
+    const result = saveQueue.current.then(run);
+    saveQueue.current = result;
+    return result;
+  }, [userId, navigate]);
+
+  const isDirty = useMemo(() => hasUnsavedChanges(savedState, history.present), [savedState, history.present]);
+  const saveStatus: SaveStatus = isSaving
+    ? 'saving'
+    : failedState === history.present
+      ? 'error'
+      : isDirty ? 'unsaved' : 'saved';
+
+  // Autosave once the page exists; new pages are created by the first
+  // manual save
+  useEffect(() => {
+    if (!currentPageId || !isDirty || isSaving || failedState === history.present) return;
+    const timer = setTimeout(() => savePage(history.present, { isAutosave: true }), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [currentPageId, isDirty, isSaving, failedState, history.present, savePage]);
+
+  // Restoring is an ordinary, undoable edit that is saved right away, so
+  // it becomes the newest revision
+  const handleRestoreRevision = (revision: PageRevision) => {
+    const restored = revisionToState(revision, pageData);
+    execute(restoreRevisionCommand(history.present, restored, formatRevisionTime(revision.updatedAt)));
+    setShowRevisions(false);
+    savePage(restored);
+  };
+
+  const pageStatus = publishing ? getPageStatus(publishing) : 'draft';
+  // Compared with the newest published copy, even if it isn't live yet
+  const draftDiffersFromLive = useMemo(
+    () => hasUnpublishedChanges(publishing ? publishing.pending_snapshot ?? publishing.live_snapshot : null, history.present),
+    [publishing, history.present]
+  );
+
+  // Publishing copies what is saved, so pending edits are saved first
+  const handlePublish = async (publishAt: string, unpublishAt: string) => {
+    try {
+      setIsPublishing(true);
+      const landingPageId = isDirty || !currentPageId
+        ? await savePage(history.present, { silent: true })
+        : currentPageId;
+      if (!landingPageId) return;
+      const published = await publishPage(landingPageId, publishAt, unpublishAt);
+      setPublishing(published);
+      setShowPublish(false);
+      toast.success(!hasScheduledUpdate(published)
+        ? "Page published"
+        : published.live_snapshot ? "Changes scheduled; the current version stays live until then" : "Page scheduled to publish");
+    } catch (error) {
+      console.error("Error publishing landing page:", error);
+      toast.error("Failed to publish landing page");
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handleUpdatePublishWindow = async (publishAt: string, unpublishAt: string) => {
+    if (!currentPageId || !publishing) return;
+    try {
+      setIsPublishing(true);
+      await updatePublishWindow(currentPageId, publishAt, unpublishAt);
+      setPublishing({
+        ...publishing,
+        publish_at: publishAt ? new Date(publishAt).toISOString() : null,
+        unpublish_at: unpublishAt ? new Date(unpublishAt).toISOString() : null,
+      });
+      setShowPublish(false);
+      toast.success("Publishing schedule updated");
+    } catch (error) {
+      console.error("Error updating publishing schedule:", error);
+      toast.error("Failed to update publishing schedule");
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handleUnpublish = async () => {
+    if (!currentPageId || !publishing) return;
+    try {
+      setIsPublishing(true);
+      await unpublishPage(currentPageId);
+      setPublishing({ ...publishing, published: false, pending_snapshot: null });
+      setShowPublish(false);
+      toast.success("Page unpublished");
     } catch (error) {
-      console.error("Error saving landing page:", error);
-      toast.error("Failed to save landing page");
+      console.error("Error unpublishing landing page:", error);
+      toast.error("Failed to unpublish landing page");
     } finally {
-      setIsSaving(false);
+      setIsPublishing(false);
     }
   };
+
+  const hasUnsavedWork = isDirty || isSaving;
+
+  useEffect(() => {
+    if (!hasUnsavedWork) return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasUnsavedWork]);
+
+  const blocker = useBlocker(({ currentLocation, nextLocation }) =>
+    hasUnsavedWork && currentLocation.pathname !== nextLocation.pathname
+  );
   
   const getDefaultContentForBlockType = (blockType: string): Record<string, any> => {
     switch (blockType) {
@@ -551,11 +741,53 @@ export function PageBuilder({ userId, pageId }: PageBuilderProps) {
         <div className="flex items-center">
           <Input
             value={pageData.title}
-            onChange={(e) => setPageData({...pageData, title: e.target.value})}
+            onChange={(e) => handlePageSettingsChange({ title: e.target.value })}
             className="border-none text-lg font-semibold focus-visible:ring-0 focus-visible:ring-offset-0 w-auto"
           />
         </div>
         <div className="flex items-center gap-2">
+          {(currentPageId || isDirty) && <SaveStatusIndicator status={saveStatus} />}
+          {currentPageId && (
+            <Badge
+              variant={pageStatus === 'live' ? 'default' : 'secondary'}
+              title={pageStatus !== 'draft' && draftDiffersFromLive ? "The draft has changes that aren't published" : undefined}
+            >
+              {PAGE_STATUS_LABELS[pageStatus]}
+              {pageStatus !== 'draft' && draftDiffersFromLive && ' · Edited'}
+            </Badge>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleUndo}
+            disabled={history.past.length === 0}
+            title={`Undo (${UNDO_SHORTCUT})`}
+          >
+            <Undo2 size={18} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleRedo}
+            disabled={history.future.length === 0}
+            title={`Redo (${REDO_SHORTCUT})`}
+          >
+            <Redo2 size={18} />
+          </Button>
+          <HistoryPanel
+            past={history.past}
+            future={history.future}
+            onJump={(steps) => setHistory(prev => jumpTo(prev, steps))}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setShowRevisions(true)}
+            disabled={!currentPageId}
+            title="Revisions"
+          >
+            <FileClock size={18} />
+          </Button>
           <Button 
             variant="ghost" 
             size="icon" 
@@ -576,7 +808,11 @@ export function PageBuilder({ userId, pageId }: PageBuilderProps) {
             <Share2 className="h-4 w-4 mr-2" />
             Share
           </Button>
-          <Button onClick={savePage} disabled={isSaving}>
+          <Button variant="outline" onClick={() => setShowPublish(true)} disabled={isSaving || isPublishing}>
+            <Globe className="h-4 w-4 mr-2" />
+            Publish
+          </Button>
+          <Button onClick={() => savePage(history.present)} disabled={isSaving}>
             <SaveIcon className="h-4 w-4 mr-2" />
             {isSaving ? "Saving..." : "Save"}
           </Button>
@@ -631,6 +867,31 @@ export function PageBuilder({ userId, pageId }: PageBuilderProps) {
         onOpenChange={setShowSettings}
         pageData={pageData}
         onUpdate={handlePageSettingsChange}
+        pageId={currentPageId}
+        slug={slug}
+        onSlugChange={setSlug}
+      />
+
+      {currentPageId && (
+        <PageRevisionsDialog
+          open={showRevisions}
+          onOpenChange={setShowRevisions}
+          pageId={currentPageId}
+          current={history.present}
+          savedState={savedState}
+          onRestore={handleRestoreRevision}
+        />
+      )}
+
+      <PublishPageDialog
+        open={showPublish}
+        onOpenChange={setShowPublish}
+        publishing={publishing}
+        hasUnpublishedChanges={draftDiffersFromLive}
+        isBusy={isPublishing || isSaving}
+        onPublish={handlePublish}
+        onUpdateWindow={handleUpdatePublishWindow}
+        onUnpublish={handleUnpublish}
       />
 
       <MediaLibrary 
@@ -638,6 +899,23 @@ export function PageBuilder({ userId, pageId }: PageBuilderProps) {
         onOpenChange={setShowMediaLibrary}
         onSelectImage={handleImageSelected}
       />
+
+      <AlertDialog open={blocker.state === 'blocked'} onOpenChange={(open) => !open && blocker.reset?.()}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Leave without saving?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {isSaving
+                ? "Your changes are still being saved. If you leave now they may be lost."
+                : "You have unsaved changes on this page. If you leave now they will be lost."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => blocker.reset?.()}>Stay on page</AlertDialogCancel>
+            <AlertDialogAction onClick={() => blocker.proceed?.()}>Leave</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,222 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { BlockEditorMain } from "./block-renderers/BlockEditorMain";
+import { Block } from "./PageBuilder";
+import { PageEditorState } from "./commands";
+import {
+  BlockChangeKind,
+  describeBlockChange,
+  diffRevisions,
+  fetchPageRevisions,
+  formatRevisionTime,
+  PageRevision,
+  revisionToState,
+} from "./revisions";
+
+interface PageRevisionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  pageId: string;
+  current: PageEditorState;
+  // Replaced after every save, so an open list refetches then
+  savedState: PageEditorState;
+  onRestore: (revision: PageRevision) => void;
+}
+
+const CHANGE_STYLES: Record<BlockChangeKind, string> = {
+  added: 'ring-2 ring-green-500',
+  removed: 'ring-2 ring-red-500 opacity-70',
+  changed: 'ring-2 ring-amber-400',
+  moved: 'ring-2 ring-blue-400',
+};
+
+const CHANGE_TEXT: Record<BlockChangeKind, string> = {
+  added: 'text-green-700',
+  removed: 'text-red-700',
+  changed: 'text-amber-700',
+  moved: 'text-blue-700',
+};
+
+interface RevisionPreviewProps {
+  label: string;
+  state: PageEditorState;
+  highlights: Map<string, BlockChangeKind>;
+}
+
+function RevisionPreview({ label, state, highlights }: RevisionPreviewProps) {
+  return (
+    <div className="flex flex-col min-h-0 border rounded-lg overflow-hidden">
+      <div className="px-3 py-2 border-b bg-gray-50 text-sm font-medium truncate">{label}</div>
+      <div
+        className="flex-1 overflow-y-auto p-4 space-y-4"
+        style={{ backgroundColor: state.page.backgroundColor, fontFamily: state.page.fontFamily }}
+      >
+        <h2 className="text-lg font-semibold">{state.page.title}</h2>
+        {state.blocks.length === 0 && (
+          <p className="text-sm text-muted-foreground">No content</p>
+        )}
+        {state.blocks.map((block: Block) => (
+          <div key={block.id} className={`bg-white rounded-lg shadow p-4 ${CHANGE_STYLES[highlights.get(block.id)] || ''}`}>
+            <BlockEditorMain blockType={block.type} content={block.content} styles={block.styles} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Saved versions of the page, compared with what is in the editor now
+export function PageRevisionsDialog({ open, onOpenChange, pageId, current, savedState, onRestore }: PageRevisionsDialogProps) {
+  const [revisions, setRevisions] = useState<PageRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    const loadRevisions = async () => {
+      try {
+        setIsLoading(true);
+        const loaded = await fetchPageRevisions(pageId);
+        if (cancelled) return;
+        setRevisions(loaded);
+        setSelectedId(previous => (loaded.some(revision => revision.id === previous) ? previous : loaded[0]?.id || null));
+      } catch (error) {
+        console.error("Error loading revisions:", error);
+        toast.error("Failed to load revisions");
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    loadRevisions();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, pageId, savedState]);
+
+  const selected = revisions.find(revision => revision.id === selectedId) || null;
+  const selectedState = useMemo(
+    () => (selected ? revisionToState(selected, current.page) : null),
+    [selected, current.page]
+  );
+  const diff = useMemo(
+    () => (selectedState ? diffRevisions(selectedState, current) : null),
+    [selectedState, current]
+  );
+
+  // Removed blocks only show on the revision side, added ones on the current side
+  const { revisionHighlights, currentHighlights } = useMemo(() => {
+    const revisionHighlights = new Map<string, BlockChangeKind>();
+    const currentHighlights = new Map<string, BlockChangeKind>();
+    diff?.blocks.forEach(change => {
+      if (change.kind !== 'added') revisionHighlights.set(change.block.id, change.kind);
+      if (change.kind !== 'removed') currentHighlights.set(change.block.id, change.kind);
+    });
+    return { revisionHighlights, currentHighlights };
+  }, [diff]);
+
+  const hasChanges = diff && (diff.pageFields.length > 0 || diff.blocks.length > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Revisions</DialogTitle>
+          <DialogDescription>
+            Every save keeps a copy of the page. Compare any copy with your current version and restore it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-1 min-h-0 gap-4">
+          <div className="w-64 shrink-0 border rounded-lg overflow-y-auto p-1">
+            {isLoading && revisions.length === 0 ? (
+              <div className="flex justify-center py-8">
+                <Loader2 size={18} className="animate-spin text-muted-foreground" />
+              </div>
+            ) : revisions.length === 0 ? (
+              <p className="p-3 text-sm text-muted-foreground">No revisions yet. One is kept each time the page is saved.</p>
+            ) : (
+              revisions.map(revision => (
+                <button
+                  key={revision.id}
+                  type="button"
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full rounded px-3 py-2 text-left text-sm hover:bg-gray-100 ${revision.id === selectedId ? 'bg-gray-100' : ''}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">{formatRevisionTime(revision.updatedAt)}</span>
+                    {revision.isAutosave && <Badge variant="secondary">Autosave</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">{revision.authorEmail || 'Unknown author'}</div>
+                </button>
+              ))
+            )}
+          </div>
+
+          {selected && selectedState && diff ? (
+            <div className="flex-1 min-w-0 flex flex-col gap-3">
+              <div className="flex items-center justify-between gap-4">
+                <div className="text-sm">
+                  <div className="font-medium">{selected.title}</div>
+                  <div className="text-muted-foreground">
+                    Saved {formatRevisionTime(selected.updatedAt)} by {selected.authorEmail || 'an unknown author'}
+                  </div>
+                </div>
+                <Button onClick={() => onRestore(selected)} disabled={!hasChanges}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Restore this version
+                </Button>
+              </div>
+
+              <Tabs defaultValue="changes" className="flex-1 min-h-0 flex flex-col">
+                <TabsList className="self-start">
+                  <TabsTrigger value="changes">Changes</TabsTrigger>
+                  <TabsTrigger value="compare">Side by side</TabsTrigger>
+                </TabsList>
+                <TabsContent value="changes" className="flex-1 min-h-0 overflow-y-auto">
+                  {!hasChanges ? (
+                    <p className="text-sm text-muted-foreground">This revision matches your current version.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      <p className="text-sm text-muted-foreground">Changes made since this revision:</p>
+                      {diff.pageFields.map(change => (
+                        <div key={change.field} className="rounded border px-3 py-2 text-sm">
+                          <span className="font-medium">{change.field}</span>: {change.from} → {change.to}
+                        </div>
+                      ))}
+                      {diff.blocks.map(change => (
+                        <div key={`${change.kind}-${change.block.id}`} className="rounded border px-3 py-2 text-sm">
+                          <div className={`font-medium ${CHANGE_TEXT[change.kind]}`}>{describeBlockChange(change)}</div>
+                          {change.fields.length > 0 && (
+                            <div className="text-xs text-muted-foreground mt-1">{change.fields.join(', ')}</div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </TabsContent>
+                <TabsContent value="compare" className="flex-1 min-h-0">
+                  <div className="grid grid-cols-2 gap-4 h-full">
+                    <RevisionPreview
+                      label={`Revision from ${formatRevisionTime(selected.updatedAt)}`}
+                      state={selectedState}
+                      highlights={revisionHighlights}
+                    />
+                    <RevisionPreview label="Current version" state={current} highlights={currentHighlights} />
+                  </div>
+                </TabsContent>
+              </Tabs>
+            </div>
+          ) : (
+            <div className="flex-1" />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
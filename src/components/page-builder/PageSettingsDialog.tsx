@@ -1,27 +1,25 @@
 
-import { useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { LandingPage } from "./PageBuilder";
+import { PageSlugField } from "./PageSlugField";
 
 interface PageSettingsDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   pageData: LandingPage;
   onUpdate: (updatedSettings: Partial<LandingPage>) => void;
+  // Only saved pages have a slug to edit
+  pageId: string | null;
+  slug: string | null;
+  onSlugChange: (slug: string) => void;
 }
 
-export function PageSettingsDialog({ open, onOpenChange, pageData, onUpdate }: PageSettingsDialogProps) {
-  const [localSettings, setLocalSettings] = useState<LandingPage>(pageData);
-  
+export function PageSettingsDialog({ open, onOpenChange, pageData, onUpdate, pageId, slug, onSlugChange }: PageSettingsDialogProps) {
+  // Reads straight from the page so undo and redo show up here too
   const handleChange = (key: keyof LandingPage, value: any) => {
-    setLocalSettings(prev => ({
-      ...prev,
-      [key]: value
-    }));
-    
     onUpdate({ [key]: value });
   };
   
@@ -35,7 +33,7 @@ export function PageSettingsDialog({ open, onOpenChange, pageData, onUpdate }: P
   
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[520px]">
         <DialogHeader>
           <DialogTitle>Page Settings</DialogTitle>
         </DialogHeader>
@@ -48,18 +46,18 @@ export function PageSettingsDialog({ open, onOpenChange, pageData, onUpdate }: P
             <div className="col-span-3 flex items-center gap-2">
               <div 
                 className="w-6 h-6 border rounded-md" 
-                style={{ backgroundColor: localSettings.backgroundColor }}
+                style={{ backgroundColor: pageData.backgroundColor }}
               />
               <Input
                 id="background-color"
                 type="color"
-                value={localSettings.backgroundColor}
+                value={pageData.backgroundColor}
                 onChange={(e) => handleChange('backgroundColor', e.target.value)}
                 className="w-14 h-10 p-1"
               />
               <Input 
                 type="text"
-                value={localSettings.backgroundColor}
+                value={pageData.backgroundColor}
                 onChange={(e) => handleChange('backgroundColor', e.target.value)}
                 className="flex-1"
               />
@@ -71,7 +69,7 @@ export function PageSettingsDialog({ open, onOpenChange, pageData, onUpdate }: P
               Font
             </Label>
             <Select
-              value={localSettings.fontFamily}
+              value={pageData.fontFamily}
               onValueChange={(value) => handleChange('fontFamily', value)}
             >
               <SelectTrigger className="col-span-3">
@@ -87,15 +85,13 @@ export function PageSettingsDialog({ open, onOpenChange, pageData, onUpdate }: P
             </Select>
           </div>
           
-          {localSettings.slug && (
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="slug" className="text-right">
+          {pageId && slug && (
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label htmlFor="slug" className="text-right pt-3">
                 Page URL
               </Label>
               <div className="col-span-3">
-                <code className="px-2 py-1 bg-gray-100 rounded text-sm">
-                  /{localSettings.slug}
-                </code>
+                <PageSlugField pageId={pageId} slug={slug} onChange={onSlugChange} />
               </div>
             </div>
           )}
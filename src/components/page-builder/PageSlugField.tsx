@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { normalizeSlug, validateSlug } from "@/lib/slugs";
+import { changePageSlug, fetchOldSlugs, isSlugAvailable } from "./slugs";
+
+interface PageSlugFieldProps {
+  pageId: string;
+  slug: string;
+  onChange: (slug: string) => void;
+}
+
+type Availability = 'checking' | 'available' | 'taken' | 'unknown';
+
+const AVAILABILITY_CHECK_DELAY = 400;
+
+// Renaming is saved on its own rather than with the page, so intermediate
+// values while typing never become redirects
+export function PageSlugField({ pageId, slug, onChange }: PageSlugFieldProps) {
+  const [value, setValue] = useState(slug);
+  const [availability, setAvailability] = useState<Availability>('unknown');
+  const [oldSlugs, setOldSlugs] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const normalized = normalizeSlug(value);
+  const isChanged = normalized !== slug;
+  const validationError = isChanged ? validateSlug(normalized) : null;
+
+  useEffect(() => {
+    setValue(slug);
+  }, [slug]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchOldSlugs(pageId)
+      .then(slugs => {
+        if (!cancelled) setOldSlugs(slugs);
+      })
+      .catch(error => console.error("Error loading old slugs:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [pageId, slug]);
+
+  useEffect(() => {
+    if (!isChanged || validationError) return;
+    let cancelled = false;
+    setAvailability('checking');
+    const timer = setTimeout(async () => {
+      try {
+        const available = await isSlugAvailable(normalized, pageId);
+        if (!cancelled) setAvailability(available ? 'available' : 'taken');
+      } catch (error) {
+        console.error("Error checking slug:", error);
+        if (!cancelled) setAvailability('unknown');
+      }
+    }, AVAILABILITY_CHECK_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [normalized, isChanged, validationError, pageId]);
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await changePageSlug(pageId, normalized);
+      onChange(normalized);
+      toast.success(`Page URL changed. /${slug} now redirects to /${normalized}`);
+    } catch (error) {
+      console.error("Error changing slug:", error);
+      toast.error((error as { code?: string })?.code === '23505'
+        ? "That URL is already taken"
+        : "Failed to change the page URL");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSave = isChanged && !validationError && availability === 'available' && !isSaving;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground shrink-0">/</span>
+        <Input
+          id="slug"
+          value={value}
+          onChange={(e) => setValue(normalizeSlug(e.target.value, { keepTrailingDash: true }))}
+          onBlur={() => setValue(normalized)}
+          spellCheck={false}
+        />
+        <Button size="sm" onClick={handleSave} disabled={!canSave}>
+          {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Change
+        </Button>
+      </div>
+      {isChanged && (
+        <p className={`flex items-center gap-1 text-xs ${validationError || availability === 'taken' ? 'text-red-600' : 'text-muted-foreground'}`}>
+          {validationError ? (
+            <><XCircle size={12} /> {validationError}</>
+          ) : availability === 'checking' ? (
+            <><Loader2 size={12} className="animate-spin" /> Checking...</>
+          ) : availability === 'available' ? (
+            <><CheckCircle2 size={12} className="text-green-600" /> Available</>
+          ) : availability === 'taken' ? (
+            <><XCircle size={12} /> Already taken</>
+          ) : (
+            "Couldn't check this URL"
+          )}
+        </p>
+      )}
+      {oldSlugs.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Also reachable at {oldSlugs.map(old => `/${old}`).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Loader2 } from "lucide-react";
+import { toDateTimeLocal } from "@/lib/qr/schedule";
+import { getPageStatus, hasScheduledUpdate, PAGE_STATUS_LABELS, PagePublishFields, validatePublishWindow } from "./publishing";
+
+interface PublishPageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  publishing: PagePublishFields | null;
+  hasUnpublishedChanges: boolean;
+  isBusy: boolean;
+  onPublish: (publishAt: string, unpublishAt: string) => void;
+  onUpdateWindow: (publishAt: string, unpublishAt: string) => void;
+  onUnpublish: () => void;
+}
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+export function PublishPageDialog({
+  open,
+  onOpenChange,
+  publishing,
+  hasUnpublishedChanges,
+  isBusy,
+  onPublish,
+  onUpdateWindow,
+  onUnpublish,
+}: PublishPageDialogProps) {
+  const [publishAt, setPublishAt] = useState('');
+  const [unpublishAt, setUnpublishAt] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setPublishAt(toDateTimeLocal(publishing?.publish_at ?? null));
+    setUnpublishAt(toDateTimeLocal(publishing?.unpublish_at ?? null));
+  }, [open, publishing]);
+
+  const status = publishing ? getPageStatus(publishing) : 'draft';
+  const isPublished = status !== 'draft';
+  const scheduledUpdate = status === 'live' && publishing && hasScheduledUpdate(publishing);
+  const errors = validatePublishWindow(publishAt, unpublishAt);
+  const startsLater = publishAt && new Date(publishAt) > new Date();
+  const windowChanged = publishing && (
+    toDateTimeLocal(publishing.publish_at) !== publishAt || toDateTimeLocal(publishing.unpublish_at) !== unpublishAt
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Publish Page</DialogTitle>
+          <DialogDescription>
+            Visitors only see the published copy. Edits stay in your draft until you publish again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="flex items-center gap-2 text-sm">
+            <Badge variant={status === 'live' ? 'default' : 'secondary'}>{PAGE_STATUS_LABELS[status]}</Badge>
+            {publishing?.published_at && isPublished && (
+              <span className="text-muted-foreground">Last published {formatDateTime(publishing.published_at)}</span>
+            )}
+          </div>
+          {scheduledUpdate && (
+            <p className="text-sm text-muted-foreground">
+              An update goes live {formatDateTime(publishing.publish_at)}; visitors see the current version until then.
+            </p>
+          )}
+          {isPublished && hasUnpublishedChanges && (
+            <p className="text-sm text-amber-700">Your draft has changes that visitors don't see yet.</p>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="page-publish-at">Publish At</Label>
+              <Input
+                id="page-publish-at"
+                type="datetime-local"
+                value={publishAt}
+                onChange={(e) => setPublishAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="page-unpublish-at">Unpublish At</Label>
+              <Input
+                id="page-unpublish-at"
+                type="datetime-local"
+                value={unpublishAt}
+                onChange={(e) => setUnpublishAt(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Leave empty to go live now and stay live. With a later publish time, a live page keeps showing its current version until then. After the unpublish time the page is not shown.
+          </p>
+          {errors.map(error => (
+            <p key={error} className="text-sm text-red-600">{error}</p>
+          ))}
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div>
+            {isPublished && (
+              <Button variant="outline" onClick={onUnpublish} disabled={isBusy}>
+                Unpublish
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            {isPublished && windowChanged && (
+              <Button variant="outline" onClick={() => onUpdateWindow(publishAt, unpublishAt)} disabled={isBusy || errors.length > 0}>
+                Save Schedule Only
+              </Button>
+            )}
+            <Button onClick={() => onPublish(publishAt, unpublishAt)} disabled={isBusy || errors.length > 0}>
+              {isBusy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {startsLater ? (status === 'live' ? 'Schedule Changes' : 'Schedule') : isPublished ? 'Publish Changes' : 'Publish'}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,19 @@
+import { AlertCircle, CheckCircle2, CircleDot, Loader2 } from "lucide-react";
+
+export type SaveStatus = 'saved' | 'saving' | 'unsaved' | 'error';
+
+interface SaveStatusIndicatorProps {
+  status: SaveStatus;
+}
+
+// Tells the editor whether their latest edits are stored yet
+export function SaveStatusIndicator({ status }: SaveStatusIndicatorProps) {
+  return (
+    <span className="flex items-center gap-1.5 text-sm text-muted-foreground" aria-live="polite">
+      {status === 'saving' && <><Loader2 size={14} className="animate-spin" /> Saving...</>}
+      {status === 'saved' && <><CheckCircle2 size={14} className="text-green-600" /> Saved</>}
+      {status === 'unsaved' && <><CircleDot size={14} className="text-amber-500" /> Unsaved changes</>}
+      {status === 'error' && <><AlertCircle size={14} className="text-red-600" /> Save failed</>}
+    </span>
+  );
+}
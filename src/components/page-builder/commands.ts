@@ -0,0 +1,80 @@
+import { arrayMove } from "@dnd-kit/sortable";
+import { HistoryCommand } from "@/lib/history";
+import { Block, LandingPage } from "./PageBuilder";
+
+// Everything the page builder can undo
+export interface PageEditorState {
+  page: LandingPage;
+  blocks: Block[];
+}
+
+export type PageCommand = HistoryCommand<PageEditorState>;
+
+const PAGE_FIELD_LABELS: Partial<Record<keyof LandingPage, string>> = {
+  title: 'title',
+  backgroundColor: 'background color',
+  fontFamily: 'font',
+};
+
+export function formatBlockType(type: string): string {
+  return type.charAt(0).toUpperCase() + type.slice(1);
+}
+
+const replaceBlock = (blocks: Block[], block: Block) =>
+  blocks.map(existing => (existing.id === block.id ? block : existing));
+
+export function addBlockCommand(block: Block): PageCommand {
+  return {
+    label: `Add ${formatBlockType(block.type)} block`,
+    apply: state => ({ ...state, blocks: [...state.blocks, block] }),
+    revert: state => ({ ...state, blocks: state.blocks.filter(existing => existing.id !== block.id) }),
+  };
+}
+
+export function deleteBlockCommand(block: Block, index: number): PageCommand {
+  return {
+    label: `Delete ${formatBlockType(block.type)} block`,
+    apply: state => ({ ...state, blocks: state.blocks.filter(existing => existing.id !== block.id) }),
+    revert: state => {
+      const blocks = [...state.blocks];
+      blocks.splice(index, 0, block);
+      return { ...state, blocks };
+    },
+  };
+}
+
+export function moveBlockCommand(block: Block, from: number, to: number): PageCommand {
+  return {
+    label: `Move ${formatBlockType(block.type)} block`,
+    apply: state => ({ ...state, blocks: arrayMove(state.blocks, from, to) }),
+    revert: state => ({ ...state, blocks: arrayMove(state.blocks, to, from) }),
+  };
+}
+
+export function updateBlockCommand(before: Block, after: Block): PageCommand {
+  return {
+    label: `Edit ${formatBlockType(after.type)} block`,
+    coalesceKey: `block:${after.id}`,
+    apply: state => ({ ...state, blocks: replaceBlock(state.blocks, after) }),
+    revert: state => ({ ...state, blocks: replaceBlock(state.blocks, before) }),
+  };
+}
+
+export function updatePageCommand(before: Partial<LandingPage>, after: Partial<LandingPage>): PageCommand {
+  const fields = Object.keys(after) as (keyof LandingPage)[];
+  const names = fields.map(field => PAGE_FIELD_LABELS[field] || field);
+  return {
+    label: `Change page ${names.join(' and ')}`,
+    coalesceKey: `page:${fields.sort().join(',')}`,
+    apply: state => ({ ...state, page: { ...state.page, ...after } }),
+    revert: state => ({ ...state, page: { ...state.page, ...before } }),
+  };
+}
+
+export function restoreRevisionCommand(before: PageEditorState, restored: PageEditorState, savedAt: string): PageCommand {
+  return {
+    label: `Restore revision from ${savedAt}`,
+    apply: () => restored,
+    revert: () => before,
+  };
+}
@@ -0,0 +1,143 @@
+import { supabase } from "@/integrations/supabase/client";
+import { fromDateTimeLocal } from "@/lib/qr/schedule";
+import { Block } from "./PageBuilder";
+import { PageEditorState } from "./commands";
+import { sameJson } from "./save";
+
+// Editors work on a draft; publishing copies it to a live snapshot, which is
+// all the public page reads. Publishing for a later time queues a pending
+// snapshot that takes over at publish_at. The server decides what visitors
+// see in get_live_landing_page; this module mirrors its status rules.
+
+export type PageStatus = 'draft' | 'scheduled' | 'live' | 'ended';
+
+export const PAGE_STATUS_LABELS: Record<PageStatus, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  live: 'Live',
+  ended: 'Ended',
+};
+
+export interface LiveSnapshot {
+  title: string;
+  background_color: string;
+  font_family: string;
+  blocks: Block[];
+}
+
+export interface PagePublishFields {
+  published: boolean;
+  live_snapshot: LiveSnapshot | null;
+  // Published for a later time; replaces live_snapshot at publish_at
+  pending_snapshot: LiveSnapshot | null;
+  published_at: string | null;
+  publish_at: string | null;
+  unpublish_at: string | null;
+}
+
+type PublishState = Omit<PagePublishFields, 'published_at'>;
+
+// What visitors see. Keep in sync with landing_page_live_snapshot in the database
+export function getLiveSnapshot(page: PublishState, now = new Date()): LiveSnapshot | null {
+  if (page.pending_snapshot && (!page.publish_at || new Date(page.publish_at) <= now)) return page.pending_snapshot;
+  return page.live_snapshot;
+}
+
+// Keep in sync with landing_page_status in the database
+export function getPageStatus(page: PublishState, now = new Date()): PageStatus {
+  if (!page.published) return 'draft';
+  if (!getLiveSnapshot(page, now)) return page.pending_snapshot ? 'scheduled' : 'draft';
+  if (page.unpublish_at && new Date(page.unpublish_at) <= now) return 'ended';
+  return 'live';
+}
+
+// An update published for later that isn't live yet
+export function hasScheduledUpdate(page: PublishState, now = new Date()): boolean {
+  return !!page.pending_snapshot && !!page.publish_at && new Date(page.publish_at) > now;
+}
+
+export function publishFieldsFromRecord(record: {
+  published?: boolean | null;
+  live_snapshot?: unknown;
+  pending_snapshot?: unknown;
+  published_at?: string | null;
+  publish_at?: string | null;
+  unpublish_at?: string | null;
+}): PagePublishFields {
+  return {
+    published: !!record.published,
+    live_snapshot: (record.live_snapshot as LiveSnapshot | null) || null,
+    pending_snapshot: (record.pending_snapshot as LiveSnapshot | null) || null,
+    published_at: record.published_at || null,
+    publish_at: record.publish_at || null,
+    unpublish_at: record.unpublish_at || null,
+  };
+}
+
+// Whether the draft in the editor differs from what visitors see
+export function hasUnpublishedChanges(snapshot: LiveSnapshot | null, state: PageEditorState): boolean {
+  if (!snapshot) return true;
+  const { page, blocks } = state;
+  if (snapshot.title !== page.title || snapshot.background_color !== page.backgroundColor ||
+    snapshot.font_family !== page.fontFamily) {
+    return true;
+  }
+  const toComparable = (list: Block[]) => list.map(({ id, type, content, styles }) => [id, type, content, styles]);
+  return !sameJson(toComparable(snapshot.blocks || []), toComparable(blocks));
+}
+
+// Dates use the datetime-local input format in local time
+export function validatePublishWindow(publishAt: string, unpublishAt: string): string[] {
+  const errors: string[] = [];
+  if (publishAt && unpublishAt && new Date(unpublishAt) <= new Date(publishAt)) {
+    errors.push('The unpublish time must be after the publish time');
+  }
+  if (unpublishAt && new Date(unpublishAt) <= new Date()) {
+    errors.push('The unpublish time is already in the past');
+  }
+  return errors;
+}
+
+// Copies the saved draft live, or queues it when publishAt is later; the
+// current live copy stays up until then
+export async function publishPage(pageId: string, publishAt: string, unpublishAt: string): Promise<PagePublishFields> {
+  const { data, error } = await supabase.rpc('publish_landing_page', {
+    p_page_id: pageId,
+    p_publish_at: fromDateTimeLocal(publishAt),
+    p_unpublish_at: fromDateTimeLocal(unpublishAt),
+  });
+  if (error) throw error;
+  const result = data as unknown as {
+    published_at: string | null;
+    live_snapshot: LiveSnapshot | null;
+    pending_snapshot: LiveSnapshot | null;
+  };
+  return {
+    published: true,
+    live_snapshot: result.live_snapshot,
+    pending_snapshot: result.pending_snapshot,
+    published_at: result.published_at,
+    publish_at: fromDateTimeLocal(publishAt),
+    unpublish_at: fromDateTimeLocal(unpublishAt),
+  };
+}
+
+// Changes when a pending update goes live and when the page comes down,
+// without publishing the draft
+export async function updatePublishWindow(pageId: string, publishAt: string, unpublishAt: string) {
+  const { error } = await supabase
+    .from('landing_pages')
+    .update({ publish_at: fromDateTimeLocal(publishAt), unpublish_at: fromDateTimeLocal(unpublishAt) })
+    .eq('id', pageId);
+  if (error) throw error;
+}
+
+// Takes the page offline and drops any pending update; the live copy is
+// kept so it can be republished
+export async function unpublishPage(pageId: string) {
+  const { error } = await supabase
+    .from('landing_pages')
+    .update({ published: false, pending_snapshot: null })
+    .eq('id', pageId);
+  if (error) throw error;
+}
@@ -0,0 +1,141 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Block, LandingPage } from "./PageBuilder";
+import { formatBlockType, PageEditorState } from "./commands";
+import { sameJson } from "./save";
+
+export interface PageRevision {
+  id: string;
+  createdAt: string;
+  // Autosaves keep extending their revision for a few minutes
+  updatedAt: string;
+  authorEmail: string | null;
+  isAutosave: boolean;
+  title: string;
+  backgroundColor: string;
+  fontFamily: string;
+  blocks: Block[];
+}
+
+export type BlockChangeKind = 'added' | 'removed' | 'changed' | 'moved';
+
+export interface BlockChange {
+  kind: BlockChangeKind;
+  block: Block;
+  // Changed fields as "content.text" or "styles.fontSize"
+  fields: string[];
+}
+
+export interface PageFieldChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+export interface RevisionDiff {
+  pageFields: PageFieldChange[];
+  blocks: BlockChange[];
+}
+
+export const REVISIONS_PAGE_SIZE = 50;
+
+const PAGE_FIELDS: { key: 'title' | 'backgroundColor' | 'fontFamily'; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'backgroundColor', label: 'Background color' },
+  { key: 'fontFamily', label: 'Font' },
+];
+
+export const formatRevisionTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+export async function fetchPageRevisions(pageId: string): Promise<PageRevision[]> {
+  const { data, error } = await supabase
+    .from('page_revisions')
+    .select('*')
+    .eq('page_id', pageId)
+    .order('created_at', { ascending: false })
+    .limit(REVISIONS_PAGE_SIZE);
+  if (error) throw error;
+  return (data || []).map(row => ({
+    id: row.id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    authorEmail: row.author_email,
+    isAutosave: row.is_autosave,
+    title: row.title,
+    backgroundColor: row.background_color || "#FFFFFF",
+    fontFamily: row.font_family || "Inter, sans-serif",
+    blocks: Array.isArray(row.blocks) ? row.blocks : [],
+  }));
+}
+
+// The editor state a revision describes; fields a revision doesn't store,
+// like the slug, come from the current page
+export function revisionToState(revision: PageRevision, page: LandingPage): PageEditorState {
+  return {
+    page: {
+      ...page,
+      title: revision.title,
+      backgroundColor: revision.backgroundColor,
+      fontFamily: revision.fontFamily,
+    },
+    blocks: revision.blocks,
+  };
+}
+
+const changedKeys = (prefix: string, before: Record<string, unknown> = {}, after: Record<string, unknown> = {}) =>
+  Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(key => !sameJson(before[key], after[key]))
+    .sort()
+    .map(key => `${prefix}.${key}`);
+
+// What changes going from `from` to `to`, block by block. Blocks are matched
+// by id; removed blocks are listed where they used to be.
+export function diffRevisions(from: PageEditorState, to: PageEditorState): RevisionDiff {
+  const pageFields = PAGE_FIELDS
+    .filter(({ key }) => from.page[key] !== to.page[key])
+    .map(({ key, label }) => ({ field: label, from: from.page[key], to: to.page[key] }));
+
+  const fromById = new Map(from.blocks.map((block, index) => [block.id, { block, index }]));
+  const toIds = new Set(to.blocks.map(block => block.id));
+  // Blocks kept on both sides, in their old order, to tell real moves from
+  // shifts caused by additions and removals
+  const keptBefore = from.blocks.filter(block => toIds.has(block.id)).map(block => block.id);
+  const keptAfter = to.blocks.filter(block => fromById.has(block.id)).map(block => block.id);
+
+  const blocks: BlockChange[] = [];
+  to.blocks.forEach(block => {
+    const previous = fromById.get(block.id)?.block;
+    if (!previous) {
+      blocks.push({ kind: 'added', block, fields: [] });
+      return;
+    }
+    const fields = previous.type !== block.type
+      ? ['type']
+      : [...changedKeys('content', previous.content, block.content), ...changedKeys('styles', previous.styles, block.styles)];
+    if (fields.length > 0) {
+      blocks.push({ kind: 'changed', block, fields });
+    } else if (keptBefore.indexOf(block.id) !== keptAfter.indexOf(block.id)) {
+      blocks.push({ kind: 'moved', block, fields: [] });
+    }
+  });
+  from.blocks.forEach((block, index) => {
+    if (toIds.has(block.id)) return;
+    blocks.splice(Math.min(index, blocks.length), 0, { kind: 'removed', block, fields: [] });
+  });
+
+  return { pageFields, blocks };
+}
+
+export function describeBlockChange(change: BlockChange): string {
+  const name = formatBlockType(change.block.type);
+  switch (change.kind) {
+    case 'added':
+      return `${name} block added`;
+    case 'removed':
+      return `${name} block removed`;
+    case 'moved':
+      return `${name} block moved`;
+    default:
+      return `${name} block changed`;
+  }
+}
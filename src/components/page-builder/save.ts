@@ -0,0 +1,76 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Block } from "./PageBuilder";
+import { PageEditorState } from "./commands";
+
+// What changed in the editor since the last save
+export interface PageSaveDiff {
+  upserts: Block[];
+  deletedIds: string[];
+  // Every block id in page order
+  order: string[];
+}
+
+// Waits this long after the last edit before saving on its own
+export const AUTOSAVE_DELAY_MS = 2000;
+
+// Serializes with sorted keys; the database returns JSON objects with their
+// keys reordered, so plain JSON.stringify would see changes that aren't there
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.keys(item).sort().map(key => [key, item[key]]))
+      : item
+  );
+}
+
+export const sameJson = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
+
+export function diffBlocks(saved: Block[], current: Block[]): PageSaveDiff {
+  const savedById = new Map(saved.map(block => [block.id, block]));
+  const currentIds = new Set(current.map(block => block.id));
+  const upserts = current.filter(block => {
+    const previous = savedById.get(block.id);
+    return !previous || previous.type !== block.type ||
+      !sameJson(previous.content, block.content) || !sameJson(previous.styles, block.styles);
+  });
+  return {
+    upserts,
+    deletedIds: saved.filter(block => !currentIds.has(block.id)).map(block => block.id),
+    order: current.map(block => block.id),
+  };
+}
+
+export function hasUnsavedChanges(saved: PageEditorState | null, current: PageEditorState): boolean {
+  if (!saved) return true;
+  const { page: savedPage, blocks: savedBlocks } = saved;
+  const { page, blocks } = current;
+  if (savedPage.title !== page.title || savedPage.backgroundColor !== page.backgroundColor ||
+    savedPage.fontFamily !== page.fontFamily) {
+    return true;
+  }
+  const diff = diffBlocks(savedBlocks, blocks);
+  return diff.upserts.length > 0 || diff.deletedIds.length > 0 ||
+    !sameJson(diff.order, savedBlocks.map(block => block.id));
+}
+
+// Writes the changes since `saved` in a single transaction, together with a
+// revision snapshot; `saved` is null when nothing has been stored yet
+export async function savePageChanges(
+  pageId: string,
+  saved: PageEditorState | null,
+  current: PageEditorState,
+  isAutosave = false,
+) {
+  const { upserts, deletedIds, order } = diffBlocks(saved?.blocks || [], current.blocks);
+  const { error } = await supabase.rpc('save_landing_page', {
+    p_page_id: pageId,
+    p_title: current.page.title,
+    p_background_color: current.page.backgroundColor,
+    p_font_family: current.page.fontFamily,
+    p_upserts: upserts.map(({ id, type, content, styles }) => ({ id, type, content, styles })),
+    p_deleted_ids: deletedIds,
+    p_order: order,
+    p_autosave: isAutosave,
+  });
+  if (error) throw error;
+}
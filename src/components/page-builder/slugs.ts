@@ -0,0 +1,40 @@
+import { supabase } from "@/integrations/supabase/client";
+import { MAX_SLUG_LENGTH, MIN_SLUG_LENGTH, normalizeSlug, validateSlug } from "@/lib/slugs";
+
+// Counts other pages' current and old slugs; `pageId` is the page being renamed
+export async function isSlugAvailable(slug: string, pageId: string | null): Promise<boolean> {
+  const { data, error } = await supabase.rpc('is_landing_page_slug_available', {
+    p_slug: slug,
+    p_page_id: pageId,
+  });
+  if (error) throw error;
+  return !!data;
+}
+
+const randomSuffix = () => Math.random().toString(36).slice(2, 8);
+
+// A free slug for a new page, from its title when possible
+export async function generatePageSlug(title: string): Promise<string> {
+  const base = normalizeSlug(title).slice(0, MAX_SLUG_LENGTH - 7).replace(/-+$/, '');
+  if (!validateSlug(base) && await isSlugAvailable(base, null)) return base;
+  return base.length >= MIN_SLUG_LENGTH ? `${base}-${randomSuffix()}` : `page-${randomSuffix()}`;
+}
+
+// Renames the page; its old slug keeps redirecting here
+export async function changePageSlug(pageId: string, slug: string) {
+  const { error } = await supabase
+    .from('landing_pages')
+    .update({ slug })
+    .eq('id', pageId);
+  if (error) throw error;
+}
+
+export async function fetchOldSlugs(pageId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('landing_page_slug_redirects')
+    .select('slug')
+    .eq('page_id', pageId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []).map(row => row.slug);
+}
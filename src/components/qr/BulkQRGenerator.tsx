@@ -0,0 +1,325 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download, FileSpreadsheet, Upload } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { parseCsv, toCsv } from "@/lib/csv";
+import { downloadBlob } from "@/lib/qr/download";
+import {
+  BULK_TEMPLATE_HEADER,
+  BULK_TEMPLATE_ROWS,
+  BulkLandingPage,
+  BulkRow,
+  parseBulkRows,
+  renderQRCodesZip,
+} from "@/lib/qr/bulk";
+import { DEFAULT_QR_SETTINGS } from "@/lib/qr/settings";
+import { generateShortCode, getShortLink } from "@/lib/qr/short-code";
+
+interface BulkQRGeneratorProps {
+  userId: string;
+}
+
+interface CreatedCode {
+  title: string;
+  // What the image encodes
+  content: string;
+  row: BulkRow;
+}
+
+export function BulkQRGenerator({ userId }: BulkQRGeneratorProps) {
+  const navigate = useNavigate();
+  const [landingPages, setLandingPages] = useState<BulkLandingPage[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<string[][] | null>(null);
+  const [isDynamic, setIsDynamic] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [created, setCreated] = useState<CreatedCode[]>([]);
+
+  useEffect(() => {
+    const fetchLandingPages = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('landing_pages')
+          .select('id, slug');
+        if (error) throw error;
+        setLandingPages(data || []);
+      } catch (error) {
+        console.error('Error fetching landing pages:', error);
+        toast.error('Failed to load landing pages');
+      }
+    };
+
+    if (userId) {
+      fetchLandingPages();
+    }
+  }, [userId]);
+
+  // Re-validated when landing pages finish loading, so slugs always resolve
+  const parsed = useMemo(
+    () => (table ? parseBulkRows(table, landingPages, DEFAULT_QR_SETTINGS) : null),
+    [table, landingPages],
+  );
+  const validRows = parsed ? parsed.rows.filter(row => row.errors.length === 0) : [];
+  const invalidRows = parsed ? parsed.rows.filter(row => row.errors.length > 0) : [];
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setTable(parseCsv(await file.text()));
+      setFileName(file.name);
+      setCreated([]);
+    } catch (error) {
+      console.error('Error reading CSV:', error);
+      toast.error('Failed to read the CSV file');
+    }
+  };
+
+  const downloadTemplate = () => {
+    const csv = toCsv([BULK_TEMPLATE_HEADER, ...BULK_TEMPLATE_ROWS]);
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), 'qr-codes-template.csv');
+  };
+
+  const downloadErrorReport = () => {
+    const rows = invalidRows.map(row => [String(row.line), row.title, row.errors.join('; ')]);
+    const csv = toCsv([['line', 'title', 'errors'], ...rows]);
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), 'qr-codes-errors.csv');
+  };
+
+  const downloadZip = async (codes: CreatedCode[]) => {
+    const zip = await renderQRCodesZip(
+      codes.map(({ title, content, row }) => ({ title, content, settings: row.settings })),
+      (rendered, total) => setProgress(`Rendering ${rendered} of ${total}...`),
+    );
+    downloadBlob(zip, `${(fileName.replace(/\.csv$/i, '') || 'qr-codes')}.zip`);
+  };
+
+  const handleCreate = async () => {
+    if (validRows.length === 0) return;
+    setIsCreating(true);
+    let codes: CreatedCode[];
+    try {
+      // Fetch brand_id for the current user
+      let brandId = null;
+      const { data: brand } = await supabase
+        .from('brands')
+        .select('id')
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (brand && brand.id) brandId = brand.id;
+
+      // Ids are assigned up front so static landing page codes can carry
+      // ?qr_id= in the same insert
+      const buildRecords = () => validRows.map(row => {
+        const id = crypto.randomUUID();
+        const shortCode = isDynamic ? generateShortCode() : null;
+        const url = !isDynamic && row.landingPageId ? `${row.destination}?qr_id=${id}` : row.destination;
+        return {
+          id,
+          user_id: userId,
+          brand_id: brandId,
+          title: row.title,
+          description: row.description,
+          url,
+          landing_page_id: row.landingPageId,
+          settings: { ...row.settings },
+          is_dynamic: isDynamic,
+          short_code: shortCode,
+          qr_type: 'url',
+        };
+      });
+
+      setProgress(`Creating ${validRows.length} QR codes...`);
+      let records = buildRecords();
+      let { error } = await supabase.from('qr_codes').insert(records);
+      // A short code collision rejects the whole batch; retry once with new codes
+      if (error && error.code === '23505' && isDynamic) {
+        records = buildRecords();
+        ({ error } = await supabase.from('qr_codes').insert(records));
+      }
+      if (error) throw error;
+
+      codes = records.map((record, index) => ({
+        title: record.title,
+        content: record.short_code ? getShortLink(record.short_code) : record.url,
+        row: validRows[index],
+      }));
+      setCreated(codes);
+      toast.success(`Created ${codes.length} QR codes`);
+    } catch (error) {
+      console.error('Error creating QR codes:', error);
+      toast.error('Failed to create QR codes');
+      setIsCreating(false);
+      setProgress('');
+      return;
+    }
+
+    try {
+      await downloadZip(codes);
+    } catch (error) {
+      console.error('Error building ZIP:', error);
+      toast.error('QR codes were created, but the ZIP file failed to build');
+    } finally {
+      setIsCreating(false);
+      setProgress('');
+    }
+  };
+
+  const handleDownloadAgain = async () => {
+    setIsCreating(true);
+    try {
+      await downloadZip(created);
+    } catch (error) {
+      console.error('Error building ZIP:', error);
+      toast.error('Failed to build the ZIP file');
+    } finally {
+      setIsCreating(false);
+      setProgress('');
+    }
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto card-shadow rounded-xl overflow-hidden bg-white">
+      <div className="p-6 border-b">
+        <h2 className="text-2xl font-bold">Bulk Create QR Codes</h2>
+        <p className="text-muted-foreground">
+          Upload a CSV with a title and a destination URL or landing page slug per row
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" className="gap-2" asChild>
+            <label className="cursor-pointer">
+              <Upload size={16} />
+              {fileName ? 'Choose Another CSV' : 'Upload CSV'}
+              <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFileChange} />
+            </label>
+          </Button>
+          <Button variant="ghost" className="gap-2" onClick={downloadTemplate}>
+            <FileSpreadsheet size={16} />
+            Download Template
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Optional columns override the default design per row, e.g. foreground_color, background_color,
+          logo_url, shape, eye_frame_shape, eye_ball_shape, frame, frame_text and error_correction_level
+        </p>
+
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <div>
+            <Label htmlFor="bulk-dynamic">Dynamic QR Codes</Label>
+            <p className="text-sm text-muted-foreground">
+              Encode short links so destinations can change after printing
+            </p>
+          </div>
+          <Switch id="bulk-dynamic" checked={isDynamic} onCheckedChange={setIsDynamic} disabled={isCreating} />
+        </div>
+
+        {parsed && parsed.errors.length > 0 && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            {parsed.errors.map(error => (
+              <p key={error}>{error}</p>
+            ))}
+          </div>
+        )}
+
+        {parsed && parsed.warnings.length > 0 && (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-700">
+            {parsed.warnings.map(warning => (
+              <p key={warning}>{warning}</p>
+            ))}
+          </div>
+        )}
+
+        {parsed && parsed.rows.length > 0 && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="text-sm">
+                <span className="font-medium">{fileName}</span>: {validRows.length} ready
+                {invalidRows.length > 0 && <span className="text-red-600">, {invalidRows.length} with errors</span>}
+              </p>
+              {invalidRows.length > 0 && (
+                <Button variant="ghost" size="sm" className="gap-2" onClick={downloadErrorReport}>
+                  <Download size={14} />
+                  Error Report
+                </Button>
+              )}
+            </div>
+
+            <div className="max-h-[400px] overflow-auto border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Line</TableHead>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Destination</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {parsed.rows.map(row => (
+                    <TableRow key={row.line}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell className="font-medium">{row.title || '-'}</TableCell>
+                      <TableCell>
+                        <span className="text-sm truncate block max-w-[220px]">{row.destination || '-'}</span>
+                      </TableCell>
+                      <TableCell>
+                        {row.errors.length === 0 ? (
+                          <Badge variant="secondary">Ready</Badge>
+                        ) : (
+                          <ul className="text-xs text-red-600 space-y-0.5">
+                            {row.errors.map(error => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {created.length > 0 ? (
+              <div className="flex gap-2">
+                <Button className="flex-1 gap-2" onClick={handleDownloadAgain} disabled={isCreating}>
+                  <Download size={16} />
+                  {progress || 'Download ZIP Again'}
+                </Button>
+                <Button variant="outline" onClick={() => navigate('/dashboard/brand/qr-codes')}>
+                  View QR Codes
+                </Button>
+              </div>
+            ) : (
+              <Button className="w-full" onClick={handleCreate} disabled={isCreating || validRows.length === 0}>
+                {progress || `Create ${validRows.length} QR Codes and Download ZIP`}
+              </Button>
+            )}
+            {invalidRows.length > 0 && created.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Rows with errors are skipped; fix them and upload those rows again
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  EmailPayload,
+  EventPayload,
+  GeoPayload,
+  PayloadDataMap,
+  PhonePayload,
+  SmsPayload,
+  StructuredPayloadType,
+  TextPayload,
+  WIFI_ENCRYPTIONS,
+  WifiEncryption,
+  WifiPayload,
+} from "@/lib/qr/payloads";
+
+interface FormProps<T> {
+  value: T;
+  onChange: (value: T) => void;
+}
+
+function TextForm({ value, onChange }: FormProps<TextPayload>) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="payload-text">Text</Label>
+      <Textarea
+        id="payload-text"
+        placeholder="Enter your text here"
+        rows={4}
+        value={value.text}
+        onChange={(e) => onChange({ text: e.target.value })}
+      />
+    </div>
+  );
+}
+
+function WifiForm({ value, onChange }: FormProps<WifiPayload>) {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="wifi-ssid">Network Name (SSID)</Label>
+        <Input id="wifi-ssid" value={value.ssid} onChange={(e) => onChange({ ...value, ssid: e.target.value })} />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="wifi-encryption">Security</Label>
+          <Select
+            value={value.encryption}
+            onValueChange={(encryption) => onChange({ ...value, encryption: encryption as WifiEncryption })}
+          >
+            <SelectTrigger id="wifi-encryption">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WIFI_ENCRYPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {value.encryption !== 'nopass' && (
+          <div className="space-y-2">
+            <Label htmlFor="wifi-password">Password</Label>
+            <Input
+              id="wifi-password"
+              value={value.password}
+              onChange={(e) => onChange({ ...value, password: e.target.value })}
+            />
+          </div>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch
+          id="wifi-hidden"
+          checked={value.hidden}
+          onCheckedChange={(hidden) => onChange({ ...value, hidden })}
+        />
+        <Label htmlFor="wifi-hidden">Hidden network</Label>
+      </div>
+    </div>
+  );
+}
+
+function SmsForm({ value, onChange }: FormProps<SmsPayload>) {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="sms-phone">Phone Number</Label>
+        <Input
+          id="sms-phone"
+          type="tel"
+          placeholder="+1 555 123 4567"
+          value={value.phone}
+          onChange={(e) => onChange({ ...value, phone: e.target.value })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="sms-message">Message (Optional)</Label>
+        <Textarea
+          id="sms-message"
+          rows={3}
+          value={value.message}
+          onChange={(e) => onChange({ ...value, message: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
+
+function EmailForm({ value, onChange }: FormProps<EmailPayload>) {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="email-to">Recipient</Label>
+        <Input
+          id="email-to"
+          type="email"
+          placeholder="name@example.com"
+          value={value.to}
+          onChange={(e) => onChange({ ...value, to: e.target.value })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="email-subject">Subject (Optional)</Label>
+        <Input id="email-subject" value={value.subject} onChange={(e) => onChange({ ...value, subject: e.target.value })} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="email-body">Message (Optional)</Label>
+        <Textarea
+          id="email-body"
+          rows={3}
+          value={value.body}
+          onChange={(e) => onChange({ ...value, body: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
+
+function PhoneForm({ value, onChange }: FormProps<PhonePayload>) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="phone-number">Phone Number</Label>
+      <Input
+        id="phone-number"
+        type="tel"
+        placeholder="+1 555 123 4567"
+        value={value.phone}
+        onChange={(e) => onChange({ phone: e.target.value })}
+      />
+    </div>
+  );
+}
+
+function GeoForm({ value, onChange }: FormProps<GeoPayload>) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="geo-latitude">Latitude</Label>
+          <Input
+            id="geo-latitude"
+            placeholder="40.7128"
+            inputMode="decimal"
+            value={value.latitude}
+            onChange={(e) => onChange({ ...value, latitude: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="geo-longitude">Longitude</Label>
+          <Input
+            id="geo-longitude"
+            placeholder="-74.0060"
+            inputMode="decimal"
+            value={value.longitude}
+            onChange={(e) => onChange({ ...value, longitude: e.target.value })}
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="geo-label">Place Name (Optional)</Label>
+        <Input id="geo-label" value={value.label} onChange={(e) => onChange({ ...value, label: e.target.value })} />
+      </div>
+    </div>
+  );
+}
+
+function EventForm({ value, onChange }: FormProps<EventPayload>) {
+  const inputType = value.allDay ? 'date' : 'datetime-local';
+
+  // Keep the date part when switching between timed and all-day events
+  const toggleAllDay = (allDay: boolean) => {
+    const convert = (input: string) => (allDay ? input.slice(0, 10) : input && `${input.slice(0, 10)}T09:00`);
+    onChange({ ...value, allDay, start: convert(value.start), end: convert(value.end) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="event-title">Event Title</Label>
+        <Input id="event-title" value={value.title} onChange={(e) => onChange({ ...value, title: e.target.value })} />
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch id="event-all-day" checked={value.allDay} onCheckedChange={toggleAllDay} />
+        <Label htmlFor="event-all-day">All-day event</Label>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="event-start">Starts</Label>
+          <Input
+            id="event-start"
+            type={inputType}
+            value={value.start}
+            onChange={(e) => onChange({ ...value, start: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="event-end">Ends</Label>
+          <Input
+            id="event-end"
+            type={inputType}
+            value={value.end}
+            onChange={(e) => onChange({ ...value, end: e.target.value })}
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="event-location">Location (Optional)</Label>
+        <Input id="event-location" value={value.location} onChange={(e) => onChange({ ...value, location: e.target.value })} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="event-description">Description (Optional)</Label>
+        <Textarea
+          id="event-description"
+          rows={3}
+          value={value.description}
+          onChange={(e) => onChange({ ...value, description: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
+
+interface PayloadFormProps<T extends StructuredPayloadType> {
+  type: T;
+  value: PayloadDataMap[T];
+  onChange: (value: PayloadDataMap[T]) => void;
+}
+
+export function PayloadForm<T extends StructuredPayloadType>({ type, value, onChange }: PayloadFormProps<T>) {
+  // Each form only ever receives the data of its own type
+  const props = { value, onChange } as FormProps<never>;
+  switch (type) {
+    case 'text':
+      return <TextForm {...props} />;
+    case 'wifi':
+      return <WifiForm {...props} />;
+    case 'sms':
+      return <SmsForm {...props} />;
+    case 'email':
+      return <EmailForm {...props} />;
+    case 'phone':
+      return <PhoneForm {...props} />;
+    case 'geo':
+      return <GeoForm {...props} />;
+    case 'event':
+      return <EventForm {...props} />;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,41 @@
+import { useMemo } from "react";
+import { QrCode } from "lucide-react";
+import { renderQRToSvg, svgToDataUrl } from "@/lib/qr/render";
+import { DEFAULT_QR_SETTINGS, encodeWithSettings, toRenderOptions } from "@/lib/qr/settings";
+
+interface PayloadPreviewProps {
+  // Encoded text, or empty while the form is invalid
+  payload: string;
+}
+
+// Plain live preview of what a payload encodes; styling happens in the next step
+export function PayloadPreview({ payload }: PayloadPreviewProps) {
+  const imageUrl = useMemo(() => {
+    if (!payload) return '';
+    try {
+      const matrix = encodeWithSettings(payload, DEFAULT_QR_SETTINGS);
+      return svgToDataUrl(renderQRToSvg(matrix, toRenderOptions(DEFAULT_QR_SETTINGS, { size: 160, logo: null, frame: null })));
+    } catch (error) {
+      console.error('Error encoding preview:', error);
+      return '';
+    }
+  }, [payload]);
+
+  return (
+    <div className="flex gap-4 items-start rounded-lg border bg-gray-50 p-4">
+      <div className="w-[120px] h-[120px] shrink-0 bg-white rounded flex items-center justify-center">
+        {imageUrl ? (
+          <img src={imageUrl} alt="QR code preview" className="w-[120px] h-[120px]" />
+        ) : (
+          <QrCode className="h-10 w-10 text-muted-foreground" />
+        )}
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-medium mb-1">Encoded content</p>
+        <pre className="text-xs font-mono whitespace-pre-wrap break-all max-h-[120px] overflow-auto text-muted-foreground">
+          {payload || 'Fill in the form to see a preview'}
+        </pre>
+      </div>
+    </div>
+  );
+}
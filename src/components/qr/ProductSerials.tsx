@@ -0,0 +1,414 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FileSpreadsheet, FolderArchive, Printer } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { createZip } from "@/lib/zip";
+import { downloadBlob, toSafeFilename } from "@/lib/qr/download";
+import { renderQRToSvg } from "@/lib/qr/render";
+import { encodeWithSettings, toRenderOptions } from "@/lib/qr/settings";
+import {
+  formatSerialNumber,
+  getSerialLink,
+  MAX_SERIALS_PER_BATCH,
+  mintSerials,
+  MintedSerial,
+  SERIAL_INSERT_CHUNK,
+  SERIAL_PRINT_SETTINGS,
+  SerialLink,
+  serialsToCsv,
+} from "@/lib/qr/serials";
+import { createSignedCode, getSignedLink, importSigningKey } from "@/lib/qr/signing";
+import { LabelItem } from "@/lib/qr/labels";
+import { QRLabelSheetDialog } from "@/components/qr/QRLabelSheetDialog";
+
+interface ProductSerialsProps {
+  productId: string;
+  productName: string;
+  brandId: string | null;
+  landingPageId: string | null;
+}
+
+interface SerialBatch {
+  id: string;
+  created_at: string | null;
+  prefix: string;
+  start_index: number;
+  quantity: number;
+  scanned: number;
+}
+
+const NO_LANDING_PAGE = 'none';
+
+// Tracked links record first scans; signed links verify offline
+type SerialLinkType = 'tracked' | 'signed';
+
+export function ProductSerials({ productId, productName, brandId, landingPageId }: ProductSerialsProps) {
+  const [batches, setBatches] = useState<SerialBatch[]>([]);
+  const [landingPages, setLandingPages] = useState<{ id: string; title: string }[]>([]);
+  const [pageId, setPageId] = useState(landingPageId || NO_LANDING_PAGE);
+  const [quantity, setQuantity] = useState('100');
+  const [prefix, setPrefix] = useState('');
+  const [linkType, setLinkType] = useState<SerialLinkType>('tracked');
+  const [busy, setBusy] = useState('');
+  const [labelSheet, setLabelSheet] = useState<{ title: string; items: LabelItem[] } | null>(null);
+
+  const fetchBatches = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('product_serial_batches')
+        .select('*')
+        .eq('product_id', productId)
+        .order('start_index', { ascending: true });
+      if (error) throw error;
+
+      const withCounts = await Promise.all((data || []).map(async batch => {
+        const { count } = await supabase
+          .from('product_serials')
+          .select('id', { count: 'exact', head: true })
+          .eq('batch_id', batch.id)
+          .not('first_scanned_at', 'is', null);
+        return { ...batch, scanned: count || 0 };
+      }));
+      setBatches(withCounts);
+    } catch (error) {
+      console.error('Error fetching serial batches:', error);
+      toast.error('Failed to load serial batches');
+    }
+  };
+
+  useEffect(() => {
+    const fetchLandingPages = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('landing_pages')
+          .select('id, title');
+        if (error) throw error;
+        setLandingPages(data || []);
+      } catch (error) {
+        console.error('Error fetching landing pages:', error);
+        toast.error('Failed to load landing pages');
+      }
+    };
+
+    fetchLandingPages();
+    fetchBatches();
+    // eslint-disable-next-line
+  }, [productId]);
+
+  // Serial numbers continue after the last batch so they never repeat
+  const nextIndex = batches.reduce((next, batch) => Math.max(next, batch.start_index + batch.quantity), 1);
+
+  const handleLandingPageChange = async (value: string) => {
+    const previous = pageId;
+    setPageId(value);
+    try {
+      const { error } = await supabase
+        .from('products')
+        .update({ landing_page_id: value === NO_LANDING_PAGE ? null : value })
+        .eq('id', productId);
+      if (error) throw error;
+      toast.success('Verification page updated');
+    } catch (error) {
+      console.error('Error updating landing page:', error);
+      toast.error('Failed to update the verification page');
+      setPageId(previous);
+    }
+  };
+
+  const handleMint = async () => {
+    const count = parseInt(quantity, 10);
+    if (!count || count < 1 || count > MAX_SERIALS_PER_BATCH) {
+      toast.error(`Enter a quantity between 1 and ${MAX_SERIALS_PER_BATCH}`);
+      return;
+    }
+    const cleanPrefix = prefix.trim();
+    setBusy('Minting...');
+    try {
+      const { data: batch, error: batchError } = await supabase
+        .from('product_serial_batches')
+        .insert({ product_id: productId, brand_id: brandId, prefix: cleanPrefix, start_index: nextIndex, quantity: count })
+        .select()
+        .single();
+      if (batchError) throw batchError;
+
+      const serials = mintSerials(cleanPrefix, nextIndex, count);
+      for (let i = 0; i < serials.length; i += SERIAL_INSERT_CHUNK) {
+        setBusy(`Saving ${Math.min(i + SERIAL_INSERT_CHUNK, serials.length)} of ${serials.length}...`);
+        const rows = serials.slice(i, i + SERIAL_INSERT_CHUNK).map(serial => ({
+          ...serial,
+          product_id: productId,
+          brand_id: brandId,
+          batch_id: batch.id,
+        }));
+        const { error } = await supabase.from('product_serials').insert(rows);
+        if (error) {
+          // Don't leave a half-minted batch behind
+          await supabase.from('product_serial_batches').delete().eq('id', batch.id);
+          throw error;
+        }
+      }
+
+      toast.success(`Minted ${count} serial codes`);
+      await fetchBatches();
+    } catch (error) {
+      console.error('Error minting serials:', error);
+      toast.error('Failed to mint serial codes');
+    } finally {
+      setBusy('');
+    }
+  };
+
+  const fetchBatchSerials = async (batchId: string): Promise<MintedSerial[]> => {
+    const serials: MintedSerial[] = [];
+    // Supabase caps rows per request, so page through the batch
+    for (let from = 0; ; from += SERIAL_INSERT_CHUNK) {
+      const { data, error } = await supabase
+        .from('product_serials')
+        .select('serial_number, token')
+        .eq('batch_id', batchId)
+        .order('serial_number', { ascending: true })
+        .range(from, from + SERIAL_INSERT_CHUNK - 1);
+      if (error) throw error;
+      serials.push(...(data || []));
+      if (!data || data.length < SERIAL_INSERT_CHUNK) return serials;
+    }
+  };
+
+  const loadSigningKey = async () => {
+    const { data: key, error } = await supabase
+      .from('brand_signing_keys')
+      .select('id, version')
+      .eq('brand_id', brandId)
+      .is('retired_at', null)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+    if (!key) return null;
+
+    const { data: secret, error: secretError } = await supabase
+      .from('brand_signing_key_secrets')
+      .select('private_key')
+      .eq('key_id', key.id)
+      .single();
+    if (secretError) throw secretError;
+    return { version: key.version, signingKey: await importSigningKey(secret.private_key) };
+  };
+
+  // Returns null when signed links were requested but no key exists yet
+  const buildLinks = async (serials: MintedSerial[]): Promise<SerialLink[] | null> => {
+    if (linkType === 'tracked') {
+      return serials.map(serial => ({ serialNumber: serial.serial_number, url: getSerialLink(serial.token) }));
+    }
+    const key = await loadSigningKey();
+    if (!key) {
+      toast.error('Generate a signing key on the Products page first');
+      return null;
+    }
+    return Promise.all(serials.map(async serial => {
+      const code = await createSignedCode(
+        { brandId, productId, serial: serial.serial_number, keyVersion: key.version },
+        key.signingKey,
+      );
+      return { serialNumber: serial.serial_number, url: getSignedLink(code) };
+    }));
+  };
+
+  const batchFilename = (batch: SerialBatch) =>
+    `${toSafeFilename(productName, 'product')}-serials-${batch.start_index}-${batch.start_index + batch.quantity - 1}`;
+
+  const handleExportCsv = async (batch: SerialBatch) => {
+    setBusy('Exporting...');
+    try {
+      const links = await buildLinks(await fetchBatchSerials(batch.id));
+      if (!links) return;
+      downloadBlob(new Blob([serialsToCsv(links)], { type: 'text/csv' }), `${batchFilename(batch)}.csv`);
+    } catch (error) {
+      console.error('Error exporting serials:', error);
+      toast.error('Failed to export serial codes');
+    } finally {
+      setBusy('');
+    }
+  };
+
+  const handleExportZip = async (batch: SerialBatch) => {
+    setBusy('Exporting...');
+    try {
+      const links = await buildLinks(await fetchBatchSerials(batch.id));
+      if (!links) return;
+      const encoder = new TextEncoder();
+      const renderOptions = toRenderOptions(SERIAL_PRINT_SETTINGS);
+      const entries = links.map(link => ({
+        name: `${toSafeFilename(link.serialNumber)}.svg`,
+        data: encoder.encode(renderQRToSvg(encodeWithSettings(link.url, SERIAL_PRINT_SETTINGS), renderOptions)),
+      }));
+      entries.push({ name: 'manifest.csv', data: encoder.encode(serialsToCsv(links)) });
+      downloadBlob(createZip(entries), `${batchFilename(batch)}.zip`);
+    } catch (error) {
+      console.error('Error exporting serials:', error);
+      toast.error('Failed to export serial codes');
+    } finally {
+      setBusy('');
+    }
+  };
+
+  const handlePrintLabels = async (batch: SerialBatch) => {
+    setBusy('Loading...');
+    try {
+      const links = await buildLinks(await fetchBatchSerials(batch.id));
+      if (!links) return;
+      setLabelSheet({
+        title: batchFilename(batch),
+        items: links.map(link => ({
+          title: productName,
+          serial: link.serialNumber,
+          content: link.url,
+          settings: SERIAL_PRINT_SETTINGS,
+        })),
+      });
+    } catch (error) {
+      console.error('Error loading serials:', error);
+      toast.error('Failed to load serial codes');
+    } finally {
+      setBusy('');
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded shadow mb-8 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold">Serialized Codes</h2>
+        <p className="text-sm text-muted-foreground">
+          Mint a unique code per unit. The first scan verifies the unit; later scans are flagged as already verified.
+        </p>
+      </div>
+
+      <div className="space-y-2 max-w-sm">
+        <Label>Show after scanning</Label>
+        <Select value={pageId} onValueChange={handleLandingPageChange}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select a landing page" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_LANDING_PAGE}>Verification result only</SelectItem>
+            {landingPages.map(page => (
+              <SelectItem key={page.id} value={page.id}>{page.title}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="serial-quantity">Quantity</Label>
+          <Input
+            id="serial-quantity"
+            type="number"
+            min={1}
+            max={MAX_SERIALS_PER_BATCH}
+            value={quantity}
+            onChange={e => setQuantity(e.target.value)}
+            className="w-32"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="serial-prefix">Serial Prefix</Label>
+          <Input
+            id="serial-prefix"
+            placeholder="e.g. LOT24-"
+            value={prefix}
+            onChange={e => setPrefix(e.target.value)}
+            className="w-40"
+          />
+        </div>
+        <Button type="button" onClick={handleMint} disabled={!!busy}>
+          {busy || 'Mint Serial Codes'}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Next serial: {formatSerialNumber(prefix.trim(), nextIndex)}
+      </p>
+
+      {batches.length > 0 && (
+        <div className="space-y-4">
+          <div className="space-y-2 max-w-sm">
+            <Label>Exported Links</Label>
+            <Select value={linkType} onValueChange={value => setLinkType(value as SerialLinkType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="tracked">Tracked: records each unit's first scan</SelectItem>
+                <SelectItem value="signed">Signed: verifiable offline with your public key</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Serials</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Verified</TableHead>
+                  <TableHead className="text-right">Export</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batches.map(batch => (
+                  <TableRow key={batch.id}>
+                    <TableCell className="font-medium">
+                      {formatSerialNumber(batch.prefix, batch.start_index)} – {formatSerialNumber(batch.prefix, batch.start_index + batch.quantity - 1)}
+                    </TableCell>
+                    <TableCell>{batch.created_at ? new Date(batch.created_at).toLocaleDateString() : '-'}</TableCell>
+                    <TableCell>{batch.scanned} of {batch.quantity}</TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button type="button" variant="ghost" size="sm" className="gap-1" onClick={() => handleExportCsv(batch)} disabled={!!busy}>
+                        <FileSpreadsheet size={14} />
+                        CSV
+                      </Button>
+                      <Button type="button" variant="ghost" size="sm" className="gap-1" onClick={() => handleExportZip(batch)} disabled={!!busy}>
+                        <FolderArchive size={14} />
+                        SVG ZIP
+                      </Button>
+                      <Button type="button" variant="ghost" size="sm" className="gap-1" onClick={() => handlePrintLabels(batch)} disabled={!!busy}>
+                        <Printer size={14} />
+                        Labels
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      {labelSheet && (
+        <QRLabelSheetDialog
+          open={!!labelSheet}
+          onOpenChange={(open) => !open && setLabelSheet(null)}
+          items={labelSheet.items}
+          title={labelSheet.title}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Check, Folder, Megaphone, Pencil, Plus, Trash } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { QRCollection } from "@/lib/qr/organize";
+
+type CollectionTable = 'qr_folders' | 'qr_campaigns';
+
+interface CollectionSectionProps {
+  table: CollectionTable;
+  label: string;
+  icon: typeof Folder;
+  userId: string;
+  items: QRCollection[];
+  onItemsChange: (items: QRCollection[]) => void;
+}
+
+const byName = (a: QRCollection, b: QRCollection) => a.name.localeCompare(b.name);
+
+function CollectionSection({ table, label, icon: Icon, userId, items, onItemsChange }: CollectionSectionProps) {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const noun = label.toLowerCase();
+
+  const isTaken = (name: string, exceptId?: string) =>
+    items.some(item => item.id !== exceptId && item.name.toLowerCase() === name.toLowerCase());
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (isTaken(name)) {
+      toast.error(`A ${noun} with that name already exists`);
+      return;
+    }
+    setIsBusy(true);
+    try {
+      const { data, error } = await supabase
+        .from(table)
+        .insert({ user_id: userId, name })
+        .select('id, name')
+        .single();
+      if (error) throw error;
+      onItemsChange([...items, data].sort(byName));
+      setNewName('');
+    } catch (error) {
+      console.error(`Error creating ${noun}:`, error);
+      toast.error(`Failed to create ${noun}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRename = async (id: string) => {
+    const name = editingName.trim();
+    if (!name) return;
+    if (isTaken(name, id)) {
+      toast.error(`A ${noun} with that name already exists`);
+      return;
+    }
+    setIsBusy(true);
+    try {
+      const { error } = await supabase.from(table).update({ name }).eq('id', id);
+      if (error) throw error;
+      onItemsChange(items.map(item => (item.id === id ? { ...item, name } : item)).sort(byName));
+      setEditingId(null);
+    } catch (error) {
+      console.error(`Error renaming ${noun}:`, error);
+      toast.error(`Failed to rename ${noun}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDelete = async (item: QRCollection) => {
+    if (!window.confirm(`Delete the ${noun} "${item.name}"? Its QR codes are kept.`)) return;
+    setIsBusy(true);
+    try {
+      const { error } = await supabase.from(table).delete().eq('id', item.id);
+      if (error) throw error;
+      onItemsChange(items.filter(other => other.id !== item.id));
+    } catch (error) {
+      console.error(`Error deleting ${noun}:`, error);
+      toast.error(`Failed to delete ${noun}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label className="flex items-center gap-2">
+        <Icon size={16} />
+        {label}s
+      </Label>
+      {items.length === 0 && <p className="text-sm text-muted-foreground">No {noun}s yet</p>}
+      {items.map(item => (
+        <div key={item.id} className="flex items-center gap-2">
+          {editingId === item.id ? (
+            <>
+              <Input
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleRename(item.id)}
+                autoFocus
+              />
+              <Button variant="ghost" size="icon" title="Save" onClick={() => handleRename(item.id)} disabled={isBusy}>
+                <Check size={16} />
+              </Button>
+            </>
+          ) : (
+            <>
+              <span className="flex-1 text-sm truncate">{item.name}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Rename"
+                onClick={() => {
+                  setEditingId(item.id);
+                  setEditingName(item.name);
+                }}
+              >
+                <Pencil size={16} />
+              </Button>
+            </>
+          )}
+          <Button variant="ghost" size="icon" title="Delete" onClick={() => handleDelete(item)} disabled={isBusy}>
+            <Trash size={16} className="text-red-500" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Input
+          placeholder={`New ${noun} name`}
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+        />
+        <Button variant="outline" className="gap-2 shrink-0" onClick={handleCreate} disabled={isBusy || !newName.trim()}>
+          <Plus size={16} />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface QRCollectionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  folders: QRCollection[];
+  campaigns: QRCollection[];
+  onFoldersChange: (folders: QRCollection[]) => void;
+  onCampaignsChange: (campaigns: QRCollection[]) => void;
+}
+
+export function QRCollectionsDialog({
+  open,
+  onOpenChange,
+  userId,
+  folders,
+  campaigns,
+  onFoldersChange,
+  onCampaignsChange,
+}: QRCollectionsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Folders & Campaigns</DialogTitle>
+          <DialogDescription>
+            Each QR code can sit in one folder and belong to one campaign.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6">
+          <CollectionSection
+            table="qr_folders"
+            label="Folder"
+            icon={Folder}
+            userId={userId}
+            items={folders}
+            onItemsChange={onFoldersChange}
+          />
+          <CollectionSection
+            table="qr_campaigns"
+            label="Campaign"
+            icon={Megaphone}
+            userId={userId}
+            items={campaigns}
+            onItemsChange={onCampaignsChange}
+          />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
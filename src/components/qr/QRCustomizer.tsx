@@ -1,46 +1,177 @@
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Download, ArrowLeft } from "lucide-react";
+import { Download, ArrowLeft, Upload, Image as ImageIcon, X, Printer } from "lucide-react";
 import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { ErrorCorrectionLevel } from "@/lib/qr/encoder";
+import { GRADIENT_TYPES, GradientType, renderQRToPngBlob, renderQRToSvg, svgToDataUrl } from "@/lib/qr/render";
+import {
+  EYE_BALL_SHAPES,
+  EYE_FRAME_SHAPES,
+  EyeBallShape,
+  EyeFrameShape,
+  MODULE_SHAPES,
+  ModuleShape,
+} from "@/lib/qr/shapes";
+import { downloadBlob, toSafeFilename } from "@/lib/qr/download";
+import {
+  effectiveErrorCorrectionLevel,
+  encodeWithSettings,
+  MAX_FRAME_TEXT_LENGTH,
+  QRDesignSettings,
+  toRenderOptions,
+} from "@/lib/qr/settings";
+import { FRAME_STYLES } from "@/lib/qr/frames";
+import { FRAME_FONTS, FrameFont } from "@/lib/qr/fonts";
+import { loadQRLogo, MAX_LOGO_SCALE, MIN_LOGO_SCALE, QRLogo } from "@/lib/qr/logo";
+import { isShortLink } from "@/lib/qr/short-code";
+import { MediaLibrary } from "@/components/page-builder/MediaLibrary";
+import { QRExportDialog } from "./QRExportDialog";
+import { QRScanCheck } from "./QRScanCheck";
+import { lintQRDesign, minimumPrintWidth, testScan } from "@/lib/qr/scannability";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
 
 interface QRCustomizerProps {
   qrData: {
     url: string;
-    color: string;
-    backgroundColor: string;
-    logo: string;
-    shape: string;
-    frame: string;
+    settings: QRDesignSettings;
   };
+  // Used for export file names
+  title?: string;
   onBack: () => void;
-  onSave?: (qrImageUrl: string) => void;
+  onSave?: (settings: QRDesignSettings) => void;
   isSaving?: boolean;
 }
 
-export function QRCustomizer({ qrData, onBack, onSave, isSaving = false }: QRCustomizerProps) {
-  const [color, setColor] = useState(qrData.color);
-  const [backgroundColor, setBackgroundColor] = useState(qrData.backgroundColor);
-  const [cornerRadius, setCornerRadius] = useState(0);
-  const [size, setSize] = useState(300);
+const TEST_SCAN_DELAY = 400;
+
+export function QRCustomizer({ qrData, title = '', onBack, onSave, isSaving = false }: QRCustomizerProps) {
+  const [settings, setSettings] = useState<QRDesignSettings>(qrData.settings);
+  const [logo, setLogo] = useState<QRLogo | null>(null);
+  const [isUploadingLogo, setIsUploadingLogo] = useState(false);
+  const [showMediaLibrary, setShowMediaLibrary] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [scanPassed, setScanPassed] = useState<boolean | null>(null);
+  const { foregroundColor: color, backgroundColor, cornerRadius, size, logoUrl, logoScale } = settings;
+  const { gradientType, gradientColor, gradientRotation, eyeFrameColor, eyeBallColor } = settings;
+  const { frame, frameText, frameFont, frameColor, frameTextColor } = settings;
+  const errorCorrectionLevel = effectiveErrorCorrectionLevel(settings);
+
+  const updateSetting = <K extends keyof QRDesignSettings>(key: K, value: QRDesignSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  useEffect(() => {
+    if (!logoUrl) {
+      setLogo(null);
+      return;
+    }
+    let cancelled = false;
+    loadQRLogo(logoUrl)
+      .then(loaded => {
+        if (!cancelled) setLogo(loaded);
+      })
+      .catch(error => {
+        console.error('Error loading logo:', error);
+        if (!cancelled) {
+          setLogo(null);
+          toast.error('Failed to load logo image');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [logoUrl]);
+
+  const handleLogoUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setIsUploadingLogo(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+      const fileExt = file.name.split('.').pop();
+      const filePath = `${user.id}/${Date.now()}_${Math.random().toString(36).substring(2, 8)}.${fileExt}`;
+      const { error: uploadError } = await supabase.storage
+        .from('brand-logos')
+        .upload(filePath, file);
+      if (uploadError) throw uploadError;
+      const { data: { publicUrl } } = supabase.storage
+        .from('brand-logos')
+        .getPublicUrl(filePath);
+      updateSetting('logoUrl', publicUrl);
+      toast.success('Logo uploaded');
+    } catch (error) {
+      console.error('Error uploading logo:', error);
+      toast.error('Failed to upload logo');
+    } finally {
+      setIsUploadingLogo(false);
+    }
+  };
   
-  // Always append ?qr=1 for landing page URLs if not present
+  // Always append ?qr=1 for landing page URLs if not present; short links
+  // are encoded as-is so they stay short
   let qrUrl = qrData.url;
-  if (qrUrl && qrUrl.includes(window.location.origin) && !qrUrl.includes('qr=1')) {
+  if (qrUrl && qrUrl.startsWith(window.location.origin) && !isShortLink(qrUrl) && !qrUrl.includes('qr=1')) {
     qrUrl += (qrUrl.includes('?') ? '&' : '?') + 'qr=1';
   }
-  const qrImageUrl = `https://api.qrserver.com/v1/create-qr-code/?size=${size}x${size}&data=${encodeURIComponent(qrUrl)}&bgcolor=${backgroundColor.replace('#', '')}&color=${color.replace('#', '')}`;
+  const matrix = useMemo(() => {
+    try {
+      return encodeWithSettings(qrUrl, settings);
+    } catch (error) {
+      console.error('Error encoding QR code:', error);
+      return null;
+    }
+  }, [qrUrl, settings]);
+
+  const renderOptions = toRenderOptions(settings, { logo });
+  const qrImageUrl = matrix ? svgToDataUrl(renderQRToSvg(matrix, renderOptions)) : '';
 
-  const handleDownload = () => {
-    // Create a temporary link element
-    const link = document.createElement('a');
-    link.href = qrImageUrl;
-    link.download = 'qrcode.png';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const scanIssues = useMemo(() => (matrix ? lintQRDesign(settings, matrix) : []), [matrix, settings]);
+  const hasScanErrors = scanIssues.some(issue => issue.severity === 'error');
+
+  // The test scan renders a full canvas, so wait until edits settle
+  useEffect(() => {
+    if (!matrix) return;
+    setScanPassed(null);
+    const timer = window.setTimeout(() => {
+      try {
+        setScanPassed(testScan(matrix, settings, logo, qrUrl));
+      } catch (error) {
+        console.error('Test scan error:', error);
+        setScanPassed(false);
+      }
+    }, TEST_SCAN_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [matrix, settings, logo, qrUrl]);
+
+  const handleSave = () => {
+    if (!onSave || !matrix || hasScanErrors) return;
+    if ((scanIssues.length > 0 || scanPassed === false) &&
+      !window.confirm('This design may be hard to scan. Save it anyway?')) return;
+    onSave(settings);
+  };
+
+  const handleDownload = async () => {
+    if (!matrix) return;
+    try {
+      const blob = await renderQRToPngBlob(matrix, renderOptions);
+      downloadBlob(blob, `${toSafeFilename(title)}.png`);
+    } catch (error) {
+      console.error('Error rendering QR code:', error);
+      toast.error('Failed to download QR code image');
+    }
   };
 
   return (
@@ -60,12 +191,16 @@ export function QRCustomizer({ qrData, onBack, onSave, isSaving = false }: QRCus
             style={{ backgroundColor }}
           >
             <div className="bg-white p-4 rounded shadow-sm">
-              <img 
-                src={qrImageUrl} 
-                alt="QR Code preview" 
-                className="mx-auto"
-                style={{ borderRadius: `${cornerRadius}px` }}
-              />
+              {matrix ? (
+                <img 
+                  src={qrImageUrl} 
+                  alt="QR Code preview" 
+                  className="mx-auto"
+                  style={{ maxWidth: '100%' }}
+                />
+              ) : (
+                <p className="text-sm text-red-500">This content is too long to fit in a QR code</p>
+              )}
             </div>
             <p className="mt-4 text-sm text-center">
               Scans to: <a href={qrData.url} className="text-primary underline" target="_blank" rel="noreferrer">{qrData.url}</a>
@@ -75,8 +210,9 @@ export function QRCustomizer({ qrData, onBack, onSave, isSaving = false }: QRCus
         
         <div>
           <Tabs defaultValue="design" className="w-full">
-            <TabsList className="grid grid-cols-3 w-full">
+            <TabsList className="grid grid-cols-4 w-full">
               <TabsTrigger value="design">Design</TabsTrigger>
+              <TabsTrigger value="logo">Logo</TabsTrigger>
               <TabsTrigger value="shape">Shape</TabsTrigger>
               <TabsTrigger value="frame">Frame</TabsTrigger>
             </TabsList>
@@ -93,12 +229,67 @@ export function QRCustomizer({ qrData, onBack, onSave, isSaving = false }: QRCus
                     id="qr-color"
                     type="color"
                     value={color}
-                    onChange={(e) => setColor(e.target.value)}
+                    onChange={(e) => updateSetting('foregroundColor', e.target.value)}
                     className="w-12 h-9 p-1"
                   />
                 </div>
               </div>
               
+              <div className="space-y-2">
+                <Label htmlFor="gradient-type">Gradient</Label>
+                <Select
+                  value={gradientType}
+                  onValueChange={(value) => updateSetting('gradientType', value as GradientType)}
+                >
+                  <SelectTrigger id="gradient-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GRADIENT_TYPES.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              {gradientType !== 'none' && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="gradient-color">Gradient End Color</Label>
+                    <div className="flex items-center gap-2">
+                      <div 
+                        className="w-6 h-6 border rounded" 
+                        style={{ background: `linear-gradient(${gradientRotation + 90}deg, ${color}, ${gradientColor})` }}
+                      />
+                      <Input 
+                        id="gradient-color"
+                        type="color"
+                        value={gradientColor}
+                        onChange={(e) => updateSetting('gradientColor', e.target.value)}
+                        className="w-12 h-9 p-1"
+                      />
+                    </div>
+                  </div>
+                  
+                  {gradientType === 'linear' && (
+                    <div className="space-y-2">
+                      <Label>Gradient Angle</Label>
+                      <div className="flex items-center gap-2">
+                        <Slider
+                          value={[gradientRotation]}
+                          min={0}
+                          max={360}
+                          step={15}
+                          onValueChange={(value) => updateSetting('gradientRotation', value[0])}
+                          className="flex-1"
+                        />
+                        <span className="text-sm">{gradientRotation}°</span>
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+              
               <div className="space-y-2">
                 <Label htmlFor="background-color">Background Color</Label>
                 <div className="flex items-center gap-2">
@@ -110,7 +301,7 @@ export function QRCustomizer({ qrData, onBack, onSave, isSaving = false }: QRCus
                     id="background-color"
                     type="color"
                     value={backgroundColor}
-                    onChange={(e) => setBackgroundColor(e.target.value)}
+                    onChange={(e) => updateSetting('backgroundColor', e.target.value)}
                     className="w-12 h-9 p-1"
                   />
                 </div>
@@ -124,15 +315,206 @@ export function QRCustomizer({ qrData, onBack, onSave, isSaving = false }: QRCus
                     min={100}
                     max={800}
                     step={10}
-                    onValueChange={(value) => setSize(value[0])}
+                    onValueChange={(value) => updateSetting('size', value[0])}
                     className="flex-1"
                   />
                   <span className="text-sm">{size}px</span>
                 </div>
               </div>
+              
+              <div className="space-y-2">
+                <Label htmlFor="error-correction">Error Correction</Label>
+                <Select
+                  value={errorCorrectionLevel}
+                  onValueChange={(value) => updateSetting('errorCorrectionLevel', value as ErrorCorrectionLevel)}
+                  disabled={!!logoUrl}
+                >
+                  <SelectTrigger id="error-correction">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="L">Low (7%)</SelectItem>
+                    <SelectItem value="M">Medium (15%)</SelectItem>
+                    <SelectItem value="Q">Quartile (25%)</SelectItem>
+                    <SelectItem value="H">High (30%)</SelectItem>
+                  </SelectContent>
+                </Select>
+                {logoUrl && (
+                  <p className="text-xs text-muted-foreground">
+                    QR codes with a logo always use High error correction
+                  </p>
+                )}
+                {matrix && (
+                  <p className="text-xs text-muted-foreground">
+                    Version {matrix.version} ({matrix.size}×{matrix.size} modules)
+                  </p>
+                )}
+              </div>
+            </TabsContent>
+            
+            <TabsContent value="logo" className="space-y-4 mt-4">
+              {logoUrl ? (
+                <div className="flex items-center gap-3">
+                  <div className="w-16 h-16 border rounded flex items-center justify-center bg-white">
+                    <img src={logoUrl} alt="QR logo" className="max-w-full max-h-full object-contain" />
+                  </div>
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    className="gap-2"
+                    onClick={() => updateSetting('logoUrl', '')}
+                  >
+                    <X size={14} />
+                    Remove Logo
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Add your brand logo to the center of the QR code
+                </p>
+              )}
+              
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  id="qr-logo-upload"
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={handleLogoUpload}
+                  disabled={isUploadingLogo}
+                />
+                <Button asChild variant="outline" className="gap-2" disabled={isUploadingLogo}>
+                  <label htmlFor="qr-logo-upload">
+                    <Upload size={16} />
+                    {isUploadingLogo ? 'Uploading...' : 'Upload Logo'}
+                  </label>
+                </Button>
+                <Button variant="outline" className="gap-2" onClick={() => setShowMediaLibrary(true)}>
+                  <ImageIcon size={16} />
+                  Media Library
+                </Button>
+              </div>
+              
+              {logoUrl && (
+                <div className="space-y-2">
+                  <Label>Logo Size</Label>
+                  <div className="flex items-center gap-2">
+                    <Slider
+                      value={[logoScale * 100]}
+                      min={MIN_LOGO_SCALE * 100}
+                      max={MAX_LOGO_SCALE * 100}
+                      step={1}
+                      onValueChange={(value) => updateSetting('logoScale', value[0] / 100)}
+                      className="flex-1"
+                    />
+                    <span className="text-sm">{Math.round(logoScale * 100)}%</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Logo size is limited so the code stays scannable
+                  </p>
+                </div>
+              )}
+              
+              <MediaLibrary
+                open={showMediaLibrary}
+                onOpenChange={setShowMediaLibrary}
+                onSelectImage={(url) => updateSetting('logoUrl', url)}
+              />
             </TabsContent>
             
             <TabsContent value="shape" className="space-y-4 mt-4">
+              <div className="space-y-2">
+                <Label htmlFor="module-shape">Module Shape</Label>
+                <Select
+                  value={settings.shape}
+                  onValueChange={(value) => updateSetting('shape', value as ModuleShape)}
+                >
+                  <SelectTrigger id="module-shape">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MODULE_SHAPES.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="eye-frame-shape">Eye Frame</Label>
+                  <Select
+                    value={settings.eyeFrameShape}
+                    onValueChange={(value) => updateSetting('eyeFrameShape', value as EyeFrameShape)}
+                  >
+                    <SelectTrigger id="eye-frame-shape">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EYE_FRAME_SHAPES.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="eye-ball-shape">Eye Center</Label>
+                  <Select
+                    value={settings.eyeBallShape}
+                    onValueChange={(value) => updateSetting('eyeBallShape', value as EyeBallShape)}
+                  >
+                    <SelectTrigger id="eye-ball-shape">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EYE_BALL_SHAPES.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="eye-frame-color">Eye Frame Color</Label>
+                  <div className="flex items-center gap-2">
+                    <Input 
+                      id="eye-frame-color"
+                      type="color"
+                      value={eyeFrameColor || color}
+                      onChange={(e) => updateSetting('eyeFrameColor', e.target.value)}
+                      className="w-12 h-9 p-1"
+                    />
+                    {eyeFrameColor && (
+                      <Button variant="ghost" size="sm" onClick={() => updateSetting('eyeFrameColor', '')}>
+                        Reset
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="eye-ball-color">Eye Center Color</Label>
+                  <div className="flex items-center gap-2">
+                    <Input 
+                      id="eye-ball-color"
+                      type="color"
+                      value={eyeBallColor || color}
+                      onChange={(e) => updateSetting('eyeBallColor', e.target.value)}
+                      className="w-12 h-9 p-1"
+                    />
+                    {eyeBallColor && (
+                      <Button variant="ghost" size="sm" onClick={() => updateSetting('eyeBallColor', '')}>
+                        Reset
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Eye colors follow the QR color until you change them
+              </p>
+              
               <div className="space-y-2">
                 <Label>Corner Radius</Label>
                 <div className="flex items-center gap-2">
@@ -141,7 +523,7 @@ export function QRCustomizer({ qrData, onBack, onSave, isSaving = false }: QRCus
                     min={0}
                     max={20}
                     step={1}
-                    onValueChange={(value) => setCornerRadius(value[0])}
+                    onValueChange={(value) => updateSetting('cornerRadius', value[0])}
                     className="flex-1"
                   />
                   <span className="text-sm">{cornerRadius}px</span>
@@ -150,16 +532,99 @@ export function QRCustomizer({ qrData, onBack, onSave, isSaving = false }: QRCus
             </TabsContent>
             
             <TabsContent value="frame" className="space-y-4 mt-4">
-              <p className="text-muted-foreground">Frame options coming soon</p>
+              <div className="space-y-2">
+                <Label>Frame Style</Label>
+                <div className="grid grid-cols-3 gap-2">
+                  {FRAME_STYLES.map(option => (
+                    <Button
+                      key={option.value}
+                      variant={frame === option.value ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => updateSetting('frame', option.value)}
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              
+              {frame !== 'none' && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="frame-text">Caption</Label>
+                    <Input
+                      id="frame-text"
+                      value={frameText}
+                      maxLength={MAX_FRAME_TEXT_LENGTH}
+                      onChange={(e) => updateSetting('frameText', e.target.value)}
+                      placeholder="SCAN ME"
+                    />
+                  </div>
+                  
+                  <div className="space-y-2">
+                    <Label htmlFor="frame-font">Font</Label>
+                    <Select
+                      value={frameFont}
+                      onValueChange={(value) => updateSetting('frameFont', value as FrameFont)}
+                    >
+                      <SelectTrigger id="frame-font">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FRAME_FONTS.map(option => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="frame-color">Frame Color</Label>
+                      <div className="flex items-center gap-2">
+                        <Input 
+                          id="frame-color"
+                          type="color"
+                          value={frameColor || color}
+                          onChange={(e) => updateSetting('frameColor', e.target.value)}
+                          className="w-12 h-9 p-1"
+                        />
+                        {frameColor && (
+                          <Button variant="ghost" size="sm" onClick={() => updateSetting('frameColor', '')}>
+                            Reset
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="frame-text-color">Caption Color</Label>
+                      <Input 
+                        id="frame-text-color"
+                        type="color"
+                        value={frameTextColor}
+                        onChange={(e) => updateSetting('frameTextColor', e.target.value)}
+                        className="w-12 h-9 p-1"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Frames are included in every download and make the image larger than the QR size
+                  </p>
+                </>
+              )}
             </TabsContent>
           </Tabs>
           
           <div className="mt-6 space-y-4">
+            {matrix && (
+              <QRScanCheck issues={scanIssues} scanPassed={scanPassed} minPrintWidth={minimumPrintWidth(matrix)} />
+            )}
+
             <Button 
               variant="default" 
               className="w-full gap-2"
-              onClick={onSave ? () => onSave(qrImageUrl) : undefined}
-              disabled={isSaving}
+              onClick={onSave && matrix ? handleSave : undefined}
+              disabled={isSaving || !matrix || hasScanErrors}
             >
               {isSaving ? "Saving..." : "Save QR Code"}
             </Button>
@@ -168,11 +633,30 @@ export function QRCustomizer({ qrData, onBack, onSave, isSaving = false }: QRCus
               variant="outline" 
               className="w-full gap-2"
               onClick={handleDownload}
+              disabled={!matrix}
             >
               <Download size={16} />
-              Download Image
+              Download PNG
+            </Button>
+            
+            <Button 
+              variant="outline" 
+              className="w-full gap-2"
+              onClick={() => setShowExportDialog(true)}
+              disabled={!matrix}
+            >
+              <Printer size={16} />
+              Export for Print (SVG, PDF, EPS)
             </Button>
           </div>
+          
+          <QRExportDialog
+            open={showExportDialog}
+            onOpenChange={setShowExportDialog}
+            data={qrUrl}
+            settings={settings}
+            title={title}
+          />
         </div>
       </div>
     </div>
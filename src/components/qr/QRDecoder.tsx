@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, ShieldAlert, ShieldCheck, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { decodeQRImage, DecodableCode, DecodeMatch, DecodeVerdict, matchDecodedPayload } from "@/lib/qr/decode";
+
+interface DecoderCode extends DecodableCode {
+  title: string;
+  views: number;
+}
+
+interface QRDecoderProps<T extends DecoderCode> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  codes: T[];
+}
+
+interface DecodeResult<T extends DecoderCode> {
+  payload: string | null;
+  match: DecodeMatch<T> | null;
+  preview: string;
+}
+
+const VERDICT_MESSAGES: Record<DecodeVerdict, { title: string; description: string; tone: 'ok' | 'warn' | 'danger' }> = {
+  match: { title: "One of your QR codes", description: "This code matches a QR code you created.", tone: 'ok' },
+  product: { title: "Product verification code", description: "A serialized or signed product link on this site.", tone: 'ok' },
+  unknown_link: {
+    title: "Not one of your codes",
+    description: "It links to this site, but doesn't match any of your QR codes. It may have been deleted or copied from another brand.",
+    tone: 'warn',
+  },
+  known_domain: {
+    title: "Unrecognized link on a familiar site",
+    description: "The domain matches one of your destinations, but this exact link isn't one of your codes.",
+    tone: 'warn',
+  },
+  foreign_domain: {
+    title: "Possible tampering",
+    description: "The code points to a domain none of your QR codes use. A sticker may have been placed over the original.",
+    tone: 'danger',
+  },
+  unknown_payload: {
+    title: "Unrecognized content",
+    description: "The code isn't a web link and doesn't match any of your QR codes.",
+    tone: 'warn',
+  },
+};
+
+const TONE_CLASSES = {
+  ok: "border-green-200 bg-green-50 text-green-800",
+  warn: "border-amber-200 bg-amber-50 text-amber-900",
+  danger: "border-red-200 bg-red-50 text-red-800",
+};
+
+const TONE_ICONS = { ok: ShieldCheck, warn: AlertTriangle, danger: ShieldAlert };
+
+// Decodes a photo or screenshot locally and checks it against the brand's codes
+export function QRDecoder<T extends DecoderCode>({ open, onOpenChange, codes }: QRDecoderProps<T>) {
+  const [decoding, setDecoding] = useState(false);
+  const [result, setResult] = useState<DecodeResult<T> | null>(null);
+
+  const handleOpenChange = (next: boolean) => {
+    onOpenChange(next);
+    if (!next && result) {
+      URL.revokeObjectURL(result.preview);
+      setResult(null);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setDecoding(true);
+    try {
+      const payload = await decodeQRImage(file);
+      if (result) URL.revokeObjectURL(result.preview);
+      setResult({
+        payload,
+        match: payload !== null ? matchDecodedPayload(payload, codes) : null,
+        preview: URL.createObjectURL(file),
+      });
+    } catch (error) {
+      console.error('Decode error:', error);
+      toast.error('Failed to read the image');
+    } finally {
+      setDecoding(false);
+    }
+  };
+
+  const verdict = result?.match ? VERDICT_MESSAGES[result.match.verdict] : null;
+  const VerdictIcon = verdict ? TONE_ICONS[verdict.tone] : null;
+  const matched = result?.match?.match;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Decode QR Code</DialogTitle>
+          <DialogDescription>
+            Upload a photo or screenshot of a printed code. It's decoded in your browser and never uploaded.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Button variant="outline" className="gap-2 w-full" disabled={decoding} asChild>
+          <label className="cursor-pointer">
+            <Upload size={16} />
+            {decoding ? 'Decoding...' : result ? 'Decode Another Image' : 'Choose Image'}
+            <input type="file" accept="image/*" className="hidden" onChange={handleFileChange} disabled={decoding} />
+          </label>
+        </Button>
+
+        {result && (
+          <div className="flex gap-4">
+            <img src={result.preview} alt="Uploaded code" className="w-28 h-28 object-contain rounded border shrink-0 bg-gray-50" />
+            <div className="space-y-3 min-w-0 flex-1">
+              {result.payload === null ? (
+                <div>
+                  <p className="font-semibold">No QR code found</p>
+                  <p className="text-sm text-muted-foreground">
+                    Try a sharper photo taken straight on, with the whole code in view.
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <div className="space-y-1">
+                    <p className="text-xs font-medium text-muted-foreground">Payload</p>
+                    <code className="block text-xs bg-muted p-2 rounded break-all whitespace-pre-wrap max-h-32 overflow-auto">
+                      {result.payload}
+                    </code>
+                  </div>
+                  {verdict && VerdictIcon && (
+                    <div className={`flex gap-2 rounded-lg border p-3 ${TONE_CLASSES[verdict.tone]}`}>
+                      <VerdictIcon className="h-5 w-5 shrink-0" />
+                      <div className="text-sm">
+                        <p className="font-semibold">
+                          {verdict.title}
+                          {result.match.host && result.match.verdict !== 'match' && (
+                            <Badge variant="outline" className="ml-2 align-middle">{result.match.host}</Badge>
+                          )}
+                        </p>
+                        <p>{verdict.description}</p>
+                      </div>
+                    </div>
+                  )}
+                  {matched && (
+                    <div className="rounded-lg border p-3 text-sm space-y-1">
+                      <p className="font-medium">{matched.title}</p>
+                      <p className="text-muted-foreground truncate">{matched.url}</p>
+                      <p className="text-muted-foreground">{matched.views || 0} scans</p>
+                      <Link to={`/dashboard/brand/edit-qr/${matched.id}`} className="text-primary hover:underline">
+                        Open QR code
+                      </Link>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,216 @@
+import { useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_FORMATS,
+  ExportFormat,
+  exportQRCode,
+  ExportOptions,
+  getExportFormat,
+  MAX_RASTER_PIXELS,
+  PRINT_UNITS,
+  PrintUnit,
+  rasterWidth,
+  toInches,
+} from "@/lib/qr/export";
+import { encodeWithSettings, loadRenderOptions, QRDesignSettings, toRenderOptions } from "@/lib/qr/settings";
+import { buildQRScene } from "@/lib/qr/render";
+import { checkPrintWidth } from "@/lib/qr/scannability";
+import { downloadBlob, toSafeFilename } from "@/lib/qr/download";
+
+interface QRExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Encoded content and saved design of the code to export
+  data: string;
+  settings: QRDesignSettings;
+  title: string;
+}
+
+const DPI_OPTIONS = [150, 300, 600];
+
+export function QRExportDialog({ open, onOpenChange, data, settings, title }: QRExportDialogProps) {
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+  const format = getExportFormat(options.format);
+  const pixels = rasterWidth(options);
+
+  // The width includes any frame, so check the size of the code itself
+  const sizeIssue = useMemo(() => {
+    try {
+      const matrix = encodeWithSettings(data, settings);
+      const scene = buildQRScene(matrix, toRenderOptions(settings, { margin: options.margin }));
+      const codeWidth = toInches(options.width, options.unit) * 25.4 * scene.dimension / scene.width;
+      return checkPrintWidth(matrix, codeWidth, options.margin);
+    } catch {
+      return null;
+    }
+  }, [data, settings, options.width, options.unit, options.margin]);
+
+  const updateOption = <K extends keyof ExportOptions>(key: K, value: ExportOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleUnitChange = (unit: PrintUnit) => {
+    if (unit === options.unit) return;
+    const factor = unit === 'in' ? 1 / 25.4 : 25.4;
+    const round = (value: number) => Math.round(value * factor * 100) / 100;
+    setOptions(prev => ({ ...prev, unit, width: round(prev.width), bleed: round(prev.bleed) }));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const matrix = encodeWithSettings(data, settings);
+      const blob = await exportQRCode(matrix, await loadRenderOptions(settings), options, title || 'QR code');
+      downloadBlob(blob, `${toSafeFilename(title)}.${options.format}`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Export error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export QR code');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Export QR Code</DialogTitle>
+          <DialogDescription>
+            Choose a print size and format. Vector formats stay sharp at any size.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="export-format">Format</Label>
+            <Select
+              value={options.format}
+              onValueChange={(value) => updateOption('format', value as ExportFormat)}
+            >
+              <SelectTrigger id="export-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_FORMATS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 items-end">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="export-width">Width</Label>
+              <Input
+                id="export-width"
+                type="number"
+                min={0}
+                step={options.unit === 'mm' ? 1 : 0.1}
+                value={options.width}
+                onChange={(e) => updateOption('width', Number(e.target.value))}
+              />
+            </div>
+            <Select value={options.unit} onValueChange={(value) => handleUnitChange(value as PrintUnit)}>
+              <SelectTrigger aria-label="Unit">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRINT_UNITS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-2">
+            Includes the frame and quiet zone; height follows the design
+          </p>
+          {sizeIssue && <p className="text-xs text-amber-600 -mt-2">{sizeIssue.message}</p>}
+
+          {format.vector ? (
+            <div className="space-y-2">
+              <Label htmlFor="export-bleed">Bleed ({options.unit})</Label>
+              <Input
+                id="export-bleed"
+                type="number"
+                min={0}
+                step={options.unit === 'mm' ? 0.5 : 0.0625}
+                value={options.bleed}
+                onChange={(e) => updateOption('bleed', Math.max(0, Number(e.target.value)))}
+              />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="export-dpi">Resolution</Label>
+              <Select value={String(options.dpi)} onValueChange={(value) => updateOption('dpi', Number(value))}>
+                <SelectTrigger id="export-dpi">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DPI_OPTIONS.map(dpi => (
+                    <SelectItem key={dpi} value={String(dpi)}>{dpi} DPI</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className={`text-xs ${pixels > MAX_RASTER_PIXELS ? 'text-red-500' : 'text-muted-foreground'}`}>
+                {pixels > MAX_RASTER_PIXELS
+                  ? `Too large to render (${pixels}px wide, maximum ${MAX_RASTER_PIXELS}px)`
+                  : `${pixels}px wide`}
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="export-margin">Quiet Zone (modules)</Label>
+            <Input
+              id="export-margin"
+              type="number"
+              min={0}
+              max={20}
+              value={options.margin}
+              onChange={(e) => updateOption('margin', Math.min(20, Math.max(0, Math.round(Number(e.target.value)))))}
+            />
+            {options.margin < 4 && (
+              <p className="text-xs text-amber-600">
+                Scanners expect at least 4 modules of empty space; only go lower if your layout provides it
+              </p>
+            )}
+          </div>
+
+          {(options.format === 'pdf' || options.format === 'eps') && (
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="export-cmyk">CMYK colors</Label>
+                <p className="text-xs text-muted-foreground">Black prints as pure K for sharp edges</p>
+              </div>
+              <Switch
+                id="export-cmyk"
+                checked={options.cmyk}
+                onCheckedChange={(checked) => updateOption('cmyk', checked)}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button className="gap-2" onClick={handleExport} disabled={isExporting || !(options.width > 0)}>
+            <Download size={16} />
+            {isExporting ? 'Exporting...' : `Download ${options.format.toUpperCase()}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
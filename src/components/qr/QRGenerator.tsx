@@ -1,10 +1,11 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { QRCustomizer } from "./QRCustomizer";
-import { Palette, Link as LinkIcon, LayoutTemplate } from "lucide-react";
+import { Link as LinkIcon, LayoutTemplate, UserRound } from "lucide-react";
 import { 
   Select, 
   SelectContent, 
@@ -15,6 +16,57 @@ import {
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { useNavigate } from "react-router-dom";
+import { DEFAULT_QR_SETTINGS, parseQRSettings, QRDesignSettings } from "@/lib/qr/settings";
+import { generateShortCode, getShortLink } from "@/lib/qr/short-code";
+import {
+  applyBrandProfile,
+  buildVCard,
+  EMPTY_VCARD,
+  fetchVCardPhoto,
+  getDisplayName,
+  MAX_INLINE_VCARD_LENGTH,
+  parseVCardContact,
+  validateVCard,
+  VCARD_VERSIONS,
+  VCardContact,
+  VCardDelivery,
+  VCardVersion,
+} from "@/lib/qr/vcard";
+import {
+  buildPayload,
+  DEFAULT_PAYLOADS,
+  describePayload,
+  isStructuredPayloadType,
+  parsePayloadData,
+  PayloadDataMap,
+  QR_PAYLOAD_TYPES,
+  QRPayloadType,
+  StructuredPayloadType,
+  validatePayload,
+} from "@/lib/qr/payloads";
+import { VCardForm } from "./VCardForm";
+import { PayloadForm } from "./PayloadForm";
+import { PayloadPreview } from "./PayloadPreview";
+import { QRScheduleForm } from "./QRScheduleForm";
+import { QRRoutingRules } from "./QRRoutingRules";
+import { QROrganizeFields } from "./QROrganizeFields";
+import { QRUtmBuilder } from "./QRUtmBuilder";
+import { applyUtm, EMPTY_UTM, extractUtm, UtmParams } from "@/lib/utm";
+import { EMPTY_ORGANIZE, parseTags, QROrganizeValue } from "@/lib/qr/organize";
+import {
+  EMPTY_SCHEDULE,
+  QRSchedule,
+  scheduleFromRecord,
+  scheduleToRecord,
+  validateSchedule,
+} from "@/lib/qr/schedule";
+import {
+  draftToRule,
+  parseRoutingRules,
+  RoutingRuleDraft,
+  rulesToDrafts,
+  validateRuleDrafts,
+} from "@/lib/qr/routing";
 
 interface LandingPageOption {
   id: string;
@@ -25,9 +77,10 @@ interface LandingPageOption {
 interface QRGeneratorProps {
   userId: string;
   initialPageId?: string | null;
+  qrCodeId?: string;
 }
 
-export function QRGenerator({ userId, initialPageId }: QRGeneratorProps) {
+export function QRGenerator({ userId, initialPageId, qrCodeId }: QRGeneratorProps) {
   const [url, setUrl] = useState('');
   const [qrType, setQrType] = useState(initialPageId ? 'landing-page' : 'direct');
   const [landingPages, setLandingPages] = useState<LandingPageOption[]>([]);
@@ -36,14 +89,26 @@ export function QRGenerator({ userId, initialPageId }: QRGeneratorProps) {
   const [isSaving, setIsSaving] = useState(false);
   const [qrTitle, setQrTitle] = useState('');
   const [qrDescription, setQrDescription] = useState('');
+  // Dynamic codes encode a short link; `destination` is where it redirects
+  const [isDynamic, setIsDynamic] = useState(!qrCodeId);
+  const [shortCode, setShortCode] = useState('');
+  const [destination, setDestination] = useState('');
+  const [payloadTab, setPayloadTab] = useState<QRPayloadType>('url');
+  const [payloads, setPayloads] = useState<PayloadDataMap>(DEFAULT_PAYLOADS);
+  const [vcard, setVcard] = useState<VCardContact>(EMPTY_VCARD);
+  const [vcardVersion, setVcardVersion] = useState<VCardVersion>('3.0');
+  const [vcardDelivery, setVcardDelivery] = useState<VCardDelivery>('inline');
+  const [isPrefilling, setIsPrefilling] = useState(false);
+  // Storage path of the hosted .vcf file, reused on edit
+  const [vcardFile, setVcardFile] = useState('');
+  const [schedule, setSchedule] = useState<QRSchedule>(EMPTY_SCHEDULE);
+  const [routingRules, setRoutingRules] = useState<RoutingRuleDraft[]>([]);
+  const [organize, setOrganize] = useState<QROrganizeValue>(EMPTY_ORGANIZE);
+  const [utm, setUtm] = useState<UtmParams>(EMPTY_UTM);
   
-  const [qrCodeData, setQRCodeData] = useState({
+  const [qrCodeData, setQRCodeData] = useState<{ url: string; settings: QRDesignSettings }>({
     url: '',
-    color: '#3F51B5',
-    backgroundColor: '#FFFFFF',
-    logo: '',
-    shape: 'square',
-    frame: 'none',
+    settings: DEFAULT_QR_SETTINGS,
   });
   
   const [step, setStep] = useState(1);
@@ -79,6 +144,58 @@ export function QRGenerator({ userId, initialPageId }: QRGeneratorProps) {
     }
   }, [userId, initialPageId]);
 
+  useEffect(() => {
+    // Load the existing QR code when editing
+    const fetchQRCode = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('qr_codes')
+          .select('*')
+          .eq('id', qrCodeId)
+          .single();
+
+        if (error) throw error;
+        setQrTitle(data.title || '');
+        setQrDescription(data.description || '');
+        setIsDynamic(!!data.is_dynamic);
+        setShortCode(data.short_code || '');
+        setSchedule(scheduleFromRecord(data));
+        setRoutingRules(rulesToDrafts(parseRoutingRules(data.routing_rules)));
+        setOrganize({ folderId: data.folder_id, campaignId: data.campaign_id, tags: (data.tags || []).join(', ') });
+        const content = data.content as Record<string, unknown> | null;
+        const savedType = data.qr_type;
+        if (isStructuredPayloadType(savedType)) {
+          setPayloadTab(savedType);
+          setPayloads(prev => ({ ...prev, [savedType]: parsePayloadData(savedType, content?.data) }));
+        } else if (savedType === 'vcard') {
+          setPayloadTab('vcard');
+          // Older rows may have no content; start from an empty contact
+          setVcard(parseVCardContact(content?.contact));
+          setVcardVersion(content?.version === '4.0' ? '4.0' : '3.0');
+          setVcardDelivery(data.is_dynamic ? 'hosted' : 'inline');
+          setVcardFile(typeof content?.file === 'string' ? content.file : '');
+        } else if (data.landing_page_id) {
+          setQrType('landing-page');
+          setSelectedPageId(data.landing_page_id);
+          setUtm(extractUtm(data.url || '').params);
+        } else {
+          const { baseUrl, params } = extractUtm(data.url || '');
+          setQrType('direct');
+          setUrl(baseUrl);
+          setUtm(params);
+        }
+        setQRCodeData(prev => ({ ...prev, settings: parseQRSettings(data.settings) }));
+      } catch (error) {
+        console.error('Error fetching QR code:', error);
+        toast.error('Failed to load QR code');
+      }
+    };
+
+    if (qrCodeId) {
+      fetchQRCode();
+    }
+  }, [qrCodeId]);
+
   const generateQRCode = () => {
     let finalUrl = '';
     let finalTitle = qrTitle.trim() || 'My QR Code';
@@ -93,6 +210,9 @@ export function QRGenerator({ userId, initialPageId }: QRGeneratorProps) {
       if (selectedPage) {
         // Generate the custom URL using the slug
         finalUrl = `${window.location.origin}/${selectedPage.slug}`;
+        // An existing static QR code already knows its id, so preview the exact
+        // saved URL. Dynamic codes record scans in the redirect instead.
+        if (qrCodeId && !isDynamic) finalUrl += `?qr_id=${qrCodeId}`;
         if (!qrTitle) finalTitle = `QR for ${selectedPage.title}`;
       } else {
         toast.error("Invalid landing page selection");
@@ -111,18 +231,189 @@ export function QRGenerator({ userId, initialPageId }: QRGeneratorProps) {
         finalUrl = url;
       }
     }
+
+    finalUrl = applyUtm(finalUrl, utm);
     
+    let encodedUrl = finalUrl;
+    if (isDynamic) {
+      const code = shortCode || generateShortCode();
+      setShortCode(code);
+      encodedUrl = getShortLink(code);
+    }
+    setDestination(finalUrl);
     setQRCodeData({
       ...qrCodeData,
-      url: finalUrl,
+      url: encodedUrl,
     });
     
     setStep(2);
   };
 
-  const saveQRCode = async (qrImageUrl: string) => {
+  const vcardText = buildVCard(vcard, vcardVersion);
+
+  // Only codes that resolve through a short link can enforce a schedule
+  const supportsSchedule = payloadTab === 'url' ? isDynamic : payloadTab === 'vcard' && vcardDelivery === 'hosted';
+  const supportsRouting = payloadTab === 'url' && isDynamic;
+
+  // Shown by the rule tester for scans that match no rule
+  const mainDestination = qrType === 'landing-page'
+    ? selectedPageId ? `${window.location.origin}/${landingPages.find(page => page.id === selectedPageId)?.slug || ''}` : ''
+    : url;
+  const utmPreviewUrl = mainDestination
+    ? applyUtm(/^https?:\/\//.test(mainDestination) ? mainDestination : `https://${mainDestination}`, utm)
+    : '';
+
+  const updatePayload = <T extends StructuredPayloadType>(type: T, value: PayloadDataMap[T]) => {
+    setPayloads(prev => ({ ...prev, [type]: value }));
+  };
+
+  // Live preview text for the active structured tab; empty while invalid
+  const payloadText = useMemo(() => {
+    if (!isStructuredPayloadType(payloadTab)) return '';
+    const data = payloads[payloadTab];
+    return validatePayload(payloadTab, data).length === 0 ? buildPayload(payloadTab, data) : '';
+  }, [payloadTab, payloads]);
+
+  const generatePayload = (type: StructuredPayloadType) => {
+    const errors = validatePayload(type, payloads[type]);
+    if (errors.length > 0) {
+      toast.error(errors[0]);
+      return;
+    }
+    // A printed dynamic code would keep redirecting to the raw payload text
+    if (qrCodeId && isDynamic) {
+      toast.error('A dynamic QR code can only point to a link');
+      return;
+    }
+    // Structured payloads are encoded as-is, so they are always static
+    const text = buildPayload(type, payloads[type]);
+    setIsDynamic(false);
+    setDestination(text);
+    setQRCodeData({ ...qrCodeData, url: text });
+    setStep(2);
+  };
+
+  const generateVCard = () => {
+    const errors = validateVCard(vcard);
+    if (errors.length > 0) {
+      toast.error(errors[0]);
+      return;
+    }
+
+    if (vcardDelivery === 'hosted') {
+      // The .vcf file is uploaded on save; the code only carries the short link
+      const code = shortCode || generateShortCode();
+      setShortCode(code);
+      setIsDynamic(true);
+      setQRCodeData({ ...qrCodeData, url: getShortLink(code) });
+    } else {
+      setIsDynamic(false);
+      setDestination(vcardText);
+      setQRCodeData({ ...qrCodeData, url: vcardText });
+    }
+    setStep(2);
+  };
+
+  const prefillFromBrand = async () => {
+    setIsPrefilling(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+      const { data: brand, error } = await supabase
+        .from('brands')
+        .select('name, email, phone, address, social_links')
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (error) throw error;
+      if (!brand) {
+        toast.error('Set up your brand profile first');
+        return;
+      }
+      setVcard(prev => applyBrandProfile(prev, brand));
+      toast.success('Filled in from your brand profile');
+    } catch (error) {
+      console.error('Error loading brand profile:', error);
+      toast.error('Failed to load brand profile');
+    } finally {
+      setIsPrefilling(false);
+    }
+  };
+
+  // Uploads the card as a .vcf file and returns its public URL. Edits
+  // replace the file in place, so the link never changes.
+  const uploadHostedVCard = async (filePath: string) => {
+    let photo = null;
+    if (vcard.photoUrl.trim()) {
+      try {
+        photo = await fetchVCardPhoto(vcard.photoUrl.trim());
+      } catch (error) {
+        // Fall back to linking the photo
+        console.error('Error embedding vCard photo:', error);
+      }
+    }
+    const file = new Blob([buildVCard(vcard, vcardVersion, photo)], { type: 'text/vcard' });
+    const { error: uploadError } = await supabase.storage
+      .from('qr-files')
+      .upload(filePath, file, { contentType: 'text/vcard', upsert: true, cacheControl: '60' });
+    if (uploadError) throw uploadError;
+    const { data: { publicUrl } } = supabase.storage
+      .from('qr-files')
+      .getPublicUrl(filePath);
+    return publicUrl;
+  };
+
+  const saveQRCode = async (settings: QRDesignSettings) => {
+    const scheduleErrors = supportsSchedule ? validateSchedule(schedule) : [];
+    const routingErrors = supportsRouting ? validateRuleDrafts(routingRules) : [];
+    if (scheduleErrors.length > 0 || routingErrors.length > 0) {
+      toast.error([...scheduleErrors, ...routingErrors][0]);
+      return;
+    }
     setIsSaving(true);
     try {
+      const isVCard = payloadTab === 'vcard';
+      const isHostedVCard = isVCard && isDynamic;
+      // Only files in the user's own folder can be replaced in place
+      const ownFile = vcardFile.startsWith(`${userId}/`) ? vcardFile : '';
+      const filePath = isHostedVCard ? ownFile || `${userId}/vcards/${crypto.randomUUID()}.vcf` : '';
+      const isLandingPage = payloadTab === 'url' && qrType === 'landing-page';
+      let content = null;
+      if (isVCard) {
+        content = { type: 'vcard', version: vcardVersion, contact: { ...vcard }, file: filePath || null };
+      } else if (isStructuredPayloadType(payloadTab)) {
+        content = { type: payloadTab, data: { ...payloads[payloadTab] } };
+      }
+      const target = isHostedVCard ? await uploadHostedVCard(filePath) : destination;
+      if (isHostedVCard) setVcardFile(filePath);
+      const defaultTitle = isVCard ? getDisplayName(vcard) : describePayload(payloadTab, content) || 'My QR Code';
+      const scheduleFields = scheduleToRecord(supportsSchedule ? schedule : EMPTY_SCHEDULE);
+      const routing_rules = supportsRouting ? routingRules.map(draftToRule) : [];
+      const organizeFields = {
+        folder_id: organize.folderId,
+        campaign_id: organize.campaignId,
+        tags: parseTags(organize.tags),
+      };
+      if (qrCodeId) {
+        const { error: updateError } = await supabase
+          .from('qr_codes')
+          .update({
+            title: qrTitle || defaultTitle,
+            description: qrDescription,
+            url: isDynamic ? target : qrCodeData.url,
+            landing_page_id: isLandingPage ? selectedPageId : null,
+            settings,
+            content,
+            qr_type: payloadTab,
+            ...scheduleFields,
+            routing_rules,
+            ...organizeFields,
+          })
+          .eq('id', qrCodeId);
+        if (updateError) throw updateError;
+        toast.success('QR Code updated successfully');
+        navigate('/dashboard/brand/qr-codes');
+        return;
+      }
       let brandId = null;
       // Fetch brand_id for the current user
       const { data: { user } } = await supabase.auth.getUser();
@@ -135,32 +426,51 @@ export function QRGenerator({ userId, initialPageId }: QRGeneratorProps) {
         if (brand && brand.id) brandId = brand.id;
       }
       // Step 1: Insert QR code with a temporary URL
-      let tempUrl = qrCodeData.url;
+      let tempUrl = isDynamic ? target : qrCodeData.url;
       const qrData = {
         user_id: userId,
         brand_id: brandId,
-        title: qrTitle || 'My QR Code',
+        title: qrTitle || defaultTitle,
         description: qrDescription,
         url: tempUrl,
-        landing_page_id: qrType === 'landing-page' ? selectedPageId : null
+        landing_page_id: isLandingPage ? selectedPageId : null,
+        settings,
+        content,
+        qr_type: payloadTab,
+        is_dynamic: isDynamic,
+        short_code: isDynamic ? shortCode : null,
+        ...scheduleFields,
+        routing_rules,
+        ...organizeFields,
       };
       const { data: inserted, error: insertError } = await supabase
         .from('qr_codes')
         .insert(qrData)
         .select();
-      if (insertError) throw insertError;
-      const qrCodeId = inserted?.[0]?.id;
+      if (insertError) {
+        // Another code already uses this short link; pick a fresh one so the
+        // user can review the new preview before saving again
+        if (isDynamic && insertError.code === '23505') {
+          const code = generateShortCode();
+          setShortCode(code);
+          setQRCodeData(prev => ({ ...prev, url: getShortLink(code) }));
+          toast.error('That short link was just taken. A new one has been generated, please save again.');
+          return;
+        }
+        throw insertError;
+      }
+      const insertedId = inserted?.[0]?.id;
       let finalUrl = tempUrl;
       // Step 2: For landing page QR, update URL to include ?qr_id=THE_QR_CODE_ID
-      if (qrType === 'landing-page' && qrCodeId) {
+      if (isLandingPage && insertedId && !isDynamic) {
         const urlObj = new URL(tempUrl, window.location.origin);
-        urlObj.searchParams.set('qr_id', qrCodeId);
+        urlObj.searchParams.set('qr_id', insertedId);
         finalUrl = urlObj.origin + urlObj.pathname + urlObj.search;
         // Update the QR code record with the new URL
         await supabase
           .from('qr_codes')
           .update({ url: finalUrl })
-          .eq('id', qrCodeId);
+          .eq('id', insertedId);
       }
       toast.success('QR Code saved successfully');
       navigate('/dashboard/brand/qr-codes');
@@ -175,7 +485,7 @@ export function QRGenerator({ userId, initialPageId }: QRGeneratorProps) {
   return (
     <div className="w-full max-w-3xl mx-auto card-shadow rounded-xl overflow-hidden bg-white">
       <div className="p-6 border-b">
-        <h2 className="text-2xl font-bold">Create QR Code</h2>
+        <h2 className="text-2xl font-bold">{qrCodeId ? 'Edit QR Code' : 'Create QR Code'}</h2>
         <p className="text-muted-foreground">Generate custom QR codes for your brand</p>
       </div>
 
@@ -202,14 +512,64 @@ export function QRGenerator({ userId, initialPageId }: QRGeneratorProps) {
                   onChange={(e) => setQrDescription(e.target.value)}
                 />
               </div>
+
+              <QROrganizeFields userId={userId} value={organize} onChange={setOrganize} />
+
+              {payloadTab === 'url' && (
+                <div className="flex items-center justify-between rounded-lg border p-4">
+                  <div>
+                    <Label htmlFor="qr-dynamic">Dynamic QR Code</Label>
+                    <p className="text-sm text-muted-foreground">
+                      {qrCodeId
+                        ? 'The code type is fixed once the QR code is printed'
+                        : 'Encodes a short link so you can change the destination later and track scans'}
+                    </p>
+                  </div>
+                  <Switch
+                    id="qr-dynamic"
+                    checked={isDynamic}
+                    onCheckedChange={setIsDynamic}
+                    disabled={!!qrCodeId}
+                  />
+                </div>
+              )}
+
+              {qrCodeId && isDynamic && shortCode && (
+                <div className="rounded-lg border bg-gray-50 p-4">
+                  <Label>Short Link</Label>
+                  <div className="mt-1 text-sm font-mono break-all">{getShortLink(shortCode)}</div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Changing the destination below updates every printed copy of this code, no reprint needed
+                  </p>
+                </div>
+              )}
+
+              {supportsSchedule && <QRScheduleForm value={schedule} onChange={setSchedule} />}
+
+              {supportsRouting && (
+                <QRRoutingRules value={routingRules} onChange={setRoutingRules} defaultDestination={mainDestination} />
+              )}
             </div>
             
-            <Tabs defaultValue="url" className="w-full">
-              <TabsList className="grid grid-cols-3 w-full">
-                <TabsTrigger value="url">URL</TabsTrigger>
-                <TabsTrigger value="text">Text</TabsTrigger>
-                <TabsTrigger value="vcard">vCard</TabsTrigger>
+            <Tabs value={payloadTab} onValueChange={(value) => setPayloadTab(value as QRPayloadType)} className="w-full">
+              <TabsList className="flex flex-wrap h-auto w-full">
+                {QR_PAYLOAD_TYPES.map(option => (
+                  <TabsTrigger
+                    key={option.value}
+                    value={option.value}
+                    className="flex-1"
+                    // Printed codes keep their payload type, like the dynamic switch
+                    disabled={!!qrCodeId && option.value !== payloadTab}
+                  >
+                    {option.label}
+                  </TabsTrigger>
+                ))}
               </TabsList>
+              {qrCodeId && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  The content type is fixed once the QR code is printed
+                </p>
+              )}
               <TabsContent value="url" className="mt-4">
                 <div className="space-y-4">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -267,7 +627,9 @@ export function QRGenerator({ userId, initialPageId }: QRGeneratorProps) {
                                 {landingPages.find(p => p.id === selectedPageId)?.slug || '...'}
                               </div>
                               <p className="text-xs text-muted-foreground mt-1">
-                                This URL will be opened when the QR code is scanned
+                                {isDynamic
+                                  ? 'Scans of the short link will redirect to this URL'
+                                  : 'This URL will be opened when the QR code is scanned'}
                               </p>
                             </div>
                           )}
@@ -308,6 +670,8 @@ export function QRGenerator({ userId, initialPageId }: QRGeneratorProps) {
                     </div>
                   </div>
                   
+                  <QRUtmBuilder userId={userId} value={utm} onChange={setUtm} previewUrl={utmPreviewUrl} />
+
                   <Button 
                     onClick={generateQRCode} 
                     className="w-full"
@@ -317,43 +681,95 @@ export function QRGenerator({ userId, initialPageId }: QRGeneratorProps) {
                   </Button>
                 </div>
               </TabsContent>
-              <TabsContent value="text" className="mt-4">
-                <div className="space-y-4">
-                  <div>
-                    <Label htmlFor="text">Enter Text</Label>
-                    <div className="flex mt-1">
-                      <Input
-                        id="text"
-                        placeholder="Enter your text here"
-                      />
-                      <Button className="ml-2">
-                        Next
-                      </Button>
-                    </div>
+              {(Object.keys(DEFAULT_PAYLOADS) as StructuredPayloadType[]).map(type => (
+                <TabsContent key={type} value={type} className="mt-4">
+                  <div className="space-y-4">
+                    <PayloadForm
+                      type={type}
+                      value={payloads[type]}
+                      onChange={(value) => updatePayload(type, value)}
+                    />
+                    <PayloadPreview payload={payloadTab === type ? payloadText : ''} />
+                    <Button
+                      onClick={() => generatePayload(type)}
+                      className="w-full"
+                      disabled={payloadTab === type && !payloadText}
+                    >
+                      Next
+                    </Button>
                   </div>
-                </div>
-              </TabsContent>
+                </TabsContent>
+              ))}
               <TabsContent value="vcard" className="mt-4">
                 <div className="space-y-4">
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <Label htmlFor="firstName">First Name</Label>
-                      <Input id="firstName" className="mt-1" />
-                    </div>
-                    <div>
-                      <Label htmlFor="lastName">Last Name</Label>
-                      <Input id="lastName" className="mt-1" />
-                    </div>
-                    <div>
-                      <Label htmlFor="email">Email</Label>
-                      <Input id="email" type="email" className="mt-1" />
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="vcard-version">Format</Label>
+                      <Select value={vcardVersion} onValueChange={(value) => setVcardVersion(value as VCardVersion)}>
+                        <SelectTrigger id="vcard-version">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {VCARD_VERSIONS.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
-                    <div>
-                      <Label htmlFor="phone">Phone</Label>
-                      <Input id="phone" className="mt-1" />
+                    <div className="space-y-2">
+                      <Label htmlFor="vcard-delivery">Delivery</Label>
+                      <Select
+                        value={vcardDelivery}
+                        onValueChange={(value) => setVcardDelivery(value as VCardDelivery)}
+                        disabled={!!qrCodeId}
+                      >
+                        <SelectTrigger id="vcard-delivery">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="inline">Inline (works offline)</SelectItem>
+                          <SelectItem value="hosted">Hosted .vcf (editable later)</SelectItem>
+                        </SelectContent>
+                      </Select>
                     </div>
                   </div>
-                  <Button className="w-full">
+                  <p className="text-xs text-muted-foreground">
+                    {vcardDelivery === 'inline'
+                      ? 'The contact details are stored in the QR code itself and cannot change after printing'
+                      : 'The QR code links to a downloadable contact file you can update at any time'}
+                  </p>
+
+                  <div className="flex justify-end">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                      onClick={prefillFromBrand}
+                      disabled={isPrefilling}
+                    >
+                      <UserRound size={14} />
+                      {isPrefilling ? 'Loading...' : 'Fill from Brand Profile'}
+                    </Button>
+                  </div>
+
+                  <VCardForm value={vcard} onChange={setVcard} />
+
+                  {vcardDelivery === 'inline' && (
+                    <PayloadPreview payload={validateVCard(vcard).length === 0 ? vcardText : ''} />
+                  )}
+
+                  {vcardDelivery === 'inline' && (
+                    <p className={`text-xs ${vcardText.length > MAX_INLINE_VCARD_LENGTH ? 'text-amber-600' : 'text-muted-foreground'}`}>
+                      {vcardText.length} characters
+                      {vcardText.length > MAX_INLINE_VCARD_LENGTH && ' - this makes a dense code; consider removing details or hosting the card'}
+                    </p>
+                  )}
+
+                  <Button
+                    onClick={generateVCard}
+                    className="w-full"
+                    disabled={!getDisplayName(vcard)}
+                  >
                     Next
                   </Button>
                 </div>
@@ -363,6 +779,7 @@ export function QRGenerator({ userId, initialPageId }: QRGeneratorProps) {
         ) : (
           <QRCustomizer 
             qrData={qrCodeData} 
+            title={qrTitle}
             onBack={() => setStep(1)}
             onSave={saveQRCode}
             isSaving={isSaving}
@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Printer } from "lucide-react";
+import { toast } from "sonner";
+import {
+  CUSTOM_TEMPLATE,
+  CustomSheetGrid,
+  DEFAULT_LABEL_OPTIONS,
+  getLabelQRSize,
+  LABEL_TEMPLATES,
+  LabelItem,
+  labelsPerSheet,
+  LabelSheetOptions,
+  MAX_GRID_SIZE,
+  MAX_LABEL_COPIES,
+  MIN_QR_SIZE,
+  PAPER_SIZES,
+  PaperSize,
+  renderLabelSheets,
+  resolveSheetLayout,
+  validateLabelOptions,
+} from "@/lib/qr/labels";
+import { downloadBlob, toSafeFilename } from "@/lib/qr/download";
+
+interface QRLabelSheetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  items: LabelItem[];
+  // Used for the file name and PDF title
+  title: string;
+  // What the second text line holds, e.g. "Serial number" or "Short link"
+  serialLabel?: string;
+}
+
+const CUSTOM_FIELDS: { key: keyof Omit<CustomSheetGrid, 'paper'>; label: string; step: number; max?: number }[] = [
+  { key: 'rows', label: 'Rows', step: 1, max: MAX_GRID_SIZE },
+  { key: 'columns', label: 'Columns', step: 1, max: MAX_GRID_SIZE },
+  { key: 'gap', label: 'Gap (mm)', step: 0.5 },
+  { key: 'marginX', label: 'Side margin (mm)', step: 0.5 },
+  { key: 'marginY', label: 'Top margin (mm)', step: 0.5 },
+];
+
+const formatMm = (value: number) => `${Math.round(value * 10) / 10} mm`;
+
+// Tiles QR codes onto label sheets and downloads them as a print-ready PDF
+export function QRLabelSheetDialog({ open, onOpenChange, items, title, serialLabel = 'Serial number' }: QRLabelSheetDialogProps) {
+  const [options, setOptions] = useState<LabelSheetOptions>(DEFAULT_LABEL_OPTIONS);
+  const [progress, setProgress] = useState('');
+  const error = validateLabelOptions(options);
+  const layout = resolveSheetLayout(options);
+  const perSheet = labelsPerSheet(layout);
+  const labelCount = items.length * options.copies;
+  const sheetCount = Math.ceil((options.skip + labelCount) / perSheet);
+  const qrSize = getLabelQRSize(options);
+
+  const updateOption = <K extends keyof LabelSheetOptions>(key: K, value: LabelSheetOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updateCustom = <K extends keyof CustomSheetGrid>(key: K, value: CustomSheetGrid[K]) => {
+    setOptions(prev => ({ ...prev, custom: { ...prev.custom, [key]: value } }));
+  };
+
+  const handleDownload = async () => {
+    setProgress('Preparing...');
+    try {
+      const blob = await renderLabelSheets(items, options, title, (rendered, total) => {
+        setProgress(`Rendering ${rendered} of ${total}...`);
+      });
+      downloadBlob(blob, `${toSafeFilename(title)}-labels.pdf`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Label sheet error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create label sheets');
+    } finally {
+      setProgress('');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Print Labels</DialogTitle>
+          <DialogDescription>
+            Tile {items.length === 1 ? 'this code' : `${items.length} codes`} onto label sheets. Print at 100% scale
+            ("Actual size") so the codes line up with the labels.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="label-template">Sheet</Label>
+            <Select value={options.template} onValueChange={(value) => updateOption('template', value)}>
+              <SelectTrigger id="label-template">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LABEL_TEMPLATES.map(template => (
+                  <SelectItem key={template.id} value={template.id}>{template.label}</SelectItem>
+                ))}
+                <SelectItem value={CUSTOM_TEMPLATE}>Custom grid</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {options.template === CUSTOM_TEMPLATE && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="label-paper">Paper</Label>
+                <Select value={options.custom.paper} onValueChange={(value) => updateCustom('paper', value as PaperSize)}>
+                  <SelectTrigger id="label-paper">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PAPER_SIZES) as PaperSize[]).map(paper => (
+                      <SelectItem key={paper} value={paper}>{PAPER_SIZES[paper].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {CUSTOM_FIELDS.map(field => (
+                <div key={field.key} className="space-y-2">
+                  <Label htmlFor={`label-${field.key}`}>{field.label}</Label>
+                  <Input
+                    id={`label-${field.key}`}
+                    type="number"
+                    min={field.step === 1 ? 1 : 0}
+                    max={field.max}
+                    step={field.step}
+                    value={options.custom[field.key]}
+                    onChange={(e) => updateCustom(field.key, Number(e.target.value))}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <p className="text-xs text-muted-foreground -mt-2">
+            {layout.columns} × {layout.rows} labels of {formatMm(layout.labelWidth)} × {formatMm(layout.labelHeight)}
+          </p>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="label-copies">Copies of each code</Label>
+              <Input
+                id="label-copies"
+                type="number"
+                min={1}
+                max={MAX_LABEL_COPIES}
+                value={options.copies}
+                onChange={(e) => updateOption('copies', Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="label-skip">Skip used labels</Label>
+              <Input
+                id="label-skip"
+                type="number"
+                min={0}
+                max={perSheet - 1}
+                value={options.skip}
+                onChange={(e) => updateOption('skip', Number(e.target.value))}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="label-show-title">Print title</Label>
+            <Switch
+              id="label-show-title"
+              checked={options.showTitle}
+              onCheckedChange={(checked) => updateOption('showTitle', checked)}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="label-show-serial">Print {serialLabel.toLowerCase()}</Label>
+            <Switch
+              id="label-show-serial"
+              checked={options.showSerial}
+              onCheckedChange={(checked) => updateOption('showSerial', checked)}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="label-outlines">Label outlines</Label>
+              <p className="text-xs text-muted-foreground">Print on plain paper first to check alignment</p>
+            </div>
+            <Switch
+              id="label-outlines"
+              checked={options.outlines}
+              onCheckedChange={(checked) => updateOption('outlines', checked)}
+            />
+          </div>
+
+          {error ? (
+            <p className="text-sm text-red-500">{error}</p>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {labelCount} {labelCount === 1 ? 'label' : 'labels'} on {sheetCount} {sheetCount === 1 ? 'sheet' : 'sheets'}
+              </p>
+              {qrSize < MIN_QR_SIZE && (
+                <p className="text-xs text-amber-600">
+                  Codes will print at {formatMm(qrSize)}; below {MIN_QR_SIZE} mm they may not scan reliably. Choose larger
+                  labels or hide the text.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button className="gap-2" onClick={handleDownload} disabled={!!progress || !!error || items.length === 0}>
+            <Printer size={16} />
+            {progress || 'Download PDF'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
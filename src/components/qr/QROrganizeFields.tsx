@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { NONE, QRCollection, QROrganizeValue } from "@/lib/qr/organize";
+
+interface QROrganizeFieldsProps {
+  userId: string;
+  value: QROrganizeValue;
+  onChange: (value: QROrganizeValue) => void;
+}
+
+// Folder, campaign and tags for a single code
+export function QROrganizeFields({ userId, value, onChange }: QROrganizeFieldsProps) {
+  const [folders, setFolders] = useState<QRCollection[]>([]);
+  const [campaigns, setCampaigns] = useState<QRCollection[]>([]);
+
+  useEffect(() => {
+    const fetchCollections = async () => {
+      try {
+        const [{ data: folderRows, error: folderError }, { data: campaignRows, error: campaignError }] = await Promise.all([
+          supabase.from('qr_folders').select('id, name').order('name'),
+          supabase.from('qr_campaigns').select('id, name').order('name'),
+        ]);
+        if (folderError) throw folderError;
+        if (campaignError) throw campaignError;
+        setFolders(folderRows || []);
+        setCampaigns(campaignRows || []);
+      } catch (error) {
+        console.error('Error fetching folders and campaigns:', error);
+        toast.error('Failed to load folders and campaigns');
+      }
+    };
+
+    if (userId) {
+      fetchCollections();
+    }
+  }, [userId]);
+
+  const update = (changes: Partial<QROrganizeValue>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="qr-folder">Folder</Label>
+        <Select
+          value={value.folderId || NONE}
+          onValueChange={(folderId) => update({ folderId: folderId === NONE ? null : folderId })}
+        >
+          <SelectTrigger id="qr-folder">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>No folder</SelectItem>
+            {folders.map(folder => (
+              <SelectItem key={folder.id} value={folder.id}>{folder.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="qr-campaign">Campaign</Label>
+        <Select
+          value={value.campaignId || NONE}
+          onValueChange={(campaignId) => update({ campaignId: campaignId === NONE ? null : campaignId })}
+        >
+          <SelectTrigger id="qr-campaign">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>No campaign</SelectItem>
+            {campaigns.map(campaign => (
+              <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="qr-tags">Tags</Label>
+        <Input
+          id="qr-tags"
+          placeholder="spring, in-store"
+          value={value.tags}
+          onChange={(e) => update({ tags: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ArrowDown, ArrowUp, Plus, Trash } from "lucide-react";
+import {
+  createRuleDraft,
+  DAY_LABELS,
+  MAX_ROUTING_RULES,
+  RoutingRuleDraft,
+  SCAN_DEVICE_OPTIONS,
+  SCAN_OS_OPTIONS,
+  ScanDevice,
+  ScanOS,
+} from "@/lib/qr/routing";
+import { QRRuleTester } from "./QRRuleTester";
+
+interface QRRoutingRulesProps {
+  value: RoutingRuleDraft[];
+  onChange: (value: RoutingRuleDraft[]) => void;
+  // Where scans go when no rule matches
+  defaultDestination: string;
+}
+
+// Ordered list of routing rules for a dynamic code
+export function QRRoutingRules({ value, onChange, defaultDestination }: QRRoutingRulesProps) {
+  const updateRule = (id: string, changes: Partial<RoutingRuleDraft>) => {
+    onChange(value.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const next = [...value];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + offset, 0, rule);
+    onChange(next);
+  };
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <Label>Routing Rules (Optional)</Label>
+          <p className="text-sm text-muted-foreground">
+            Checked from top to bottom; the first matching rule decides where a scan goes. Scans that match no rule use the main destination.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-2 shrink-0"
+          onClick={() => onChange([...value, createRuleDraft()])}
+          disabled={value.length >= MAX_ROUTING_RULES}
+        >
+          <Plus size={14} />
+          Add Rule
+        </Button>
+      </div>
+
+      {value.map((rule, index) => (
+        <div key={rule.id} className="rounded-lg border p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">Rule {index + 1}</p>
+            <div className="flex gap-1">
+              <Button variant="ghost" size="icon" title="Move up" onClick={() => moveRule(index, -1)} disabled={index === 0}>
+                <ArrowUp size={16} />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Move down"
+                onClick={() => moveRule(index, 1)}
+                disabled={index === value.length - 1}
+              >
+                <ArrowDown size={16} />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Delete"
+                onClick={() => onChange(value.filter(item => item.id !== rule.id))}
+              >
+                <Trash size={16} className="text-red-500" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`rule-destination-${rule.id}`}>Send To</Label>
+            <Input
+              id={`rule-destination-${rule.id}`}
+              placeholder="apps.apple.com/app/..."
+              value={rule.destination}
+              onChange={(e) => updateRule(rule.id, { destination: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Operating System</Label>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="flex-wrap justify-start"
+              value={rule.os}
+              onValueChange={(os) => updateRule(rule.id, { os: os as ScanOS[] })}
+            >
+              {SCAN_OS_OPTIONS.map(option => (
+                <ToggleGroupItem key={option.value} value={option.value}>{option.label}</ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Device Type</Label>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="flex-wrap justify-start"
+              value={rule.devices}
+              onValueChange={(devices) => updateRule(rule.id, { devices: devices as ScanDevice[] })}
+            >
+              {SCAN_DEVICE_OPTIONS.map(option => (
+                <ToggleGroupItem key={option.value} value={option.value}>{option.label}</ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`rule-countries-${rule.id}`}>Countries</Label>
+              <Input
+                id={`rule-countries-${rule.id}`}
+                placeholder="US, CA"
+                value={rule.countries}
+                onChange={(e) => updateRule(rule.id, { countries: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`rule-languages-${rule.id}`}>Languages</Label>
+              <Input
+                id={`rule-languages-${rule.id}`}
+                placeholder="en, fr-CA"
+                value={rule.languages}
+                onChange={(e) => updateRule(rule.id, { languages: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Days</Label>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="flex-wrap justify-start"
+              value={rule.days.map(String)}
+              onValueChange={(days) => updateRule(rule.id, { days: days.map(Number) })}
+            >
+              {DAY_LABELS.map((label, day) => (
+                <ToggleGroupItem key={label} value={String(day)}>{label}</ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`rule-time-from-${rule.id}`}>From</Label>
+              <Input
+                id={`rule-time-from-${rule.id}`}
+                type="time"
+                value={rule.timeFrom}
+                onChange={(e) => updateRule(rule.id, { timeFrom: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`rule-time-until-${rule.id}`}>Until</Label>
+              <Input
+                id={`rule-time-until-${rule.id}`}
+                type="time"
+                value={rule.timeUntil}
+                onChange={(e) => updateRule(rule.id, { timeUntil: e.target.value })}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Leave a condition empty to match every scan. Times use the visitor's local clock.
+          </p>
+        </div>
+      ))}
+
+      {value.length > 0 && <QRRuleTester rules={value} defaultDestination={defaultDestination} />}
+    </div>
+  );
+}
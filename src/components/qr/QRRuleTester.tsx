@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FlaskConical, Smartphone } from "lucide-react";
+import {
+  DAY_LABELS,
+  draftToRule,
+  findMatchingRule,
+  getScanContext,
+  RoutingRuleDraft,
+  SCAN_DEVICE_OPTIONS,
+  SCAN_OS_OPTIONS,
+  ScanContext,
+  ScanDevice,
+  ScanOS,
+} from "@/lib/qr/routing";
+
+interface QRRuleTesterProps {
+  rules: RoutingRuleDraft[];
+  defaultDestination: string;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toTimeInput = (minutes: number) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+const fromTimeInput = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+// Simulates a scan so rules can be checked before the code is printed
+export function QRRuleTester({ rules, defaultDestination }: QRRuleTesterProps) {
+  const [context, setContext] = useState<ScanContext>(() => getScanContext(null));
+
+  const update = (changes: Partial<ScanContext>) => setContext(prev => ({ ...prev, ...changes }));
+
+  const matchIndex = findMatchingRule(rules.map(draftToRule), context);
+  const destination = matchIndex >= 0 ? draftToRule(rules[matchIndex]).destination : defaultDestination;
+
+  return (
+    <div className="rounded-lg border bg-gray-50 p-4 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <FlaskConical size={16} className="text-primary" />
+          <Label>Rule Tester</Label>
+        </div>
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => setContext(getScanContext(null))}>
+          <Smartphone size={14} />
+          Use This Device
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="tester-os">Operating System</Label>
+          <Select value={context.os} onValueChange={(os) => update({ os: os as ScanOS })}>
+            <SelectTrigger id="tester-os">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SCAN_OS_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="tester-device">Device Type</Label>
+          <Select value={context.device} onValueChange={(device) => update({ device: device as ScanDevice })}>
+            <SelectTrigger id="tester-device">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SCAN_DEVICE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="tester-country">Country</Label>
+          <Input
+            id="tester-country"
+            placeholder="US"
+            maxLength={2}
+            value={context.country || ''}
+            onChange={(e) => update({ country: e.target.value.toUpperCase() || null })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="tester-language">Language</Label>
+          <Input
+            id="tester-language"
+            placeholder="en-US"
+            value={context.language || ''}
+            onChange={(e) => update({ language: e.target.value.trim() || null })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="tester-day">Day</Label>
+          <Select value={String(context.day)} onValueChange={(day) => update({ day: Number(day) })}>
+            <SelectTrigger id="tester-day">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DAY_LABELS.map((label, day) => (
+                <SelectItem key={label} value={String(day)}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="tester-time">Time</Label>
+          <Input
+            id="tester-time"
+            type="time"
+            value={toTimeInput(context.minutes)}
+            onChange={(e) => update({ minutes: fromTimeInput(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      <div className="rounded-lg border bg-white p-3 text-sm">
+        <p className="font-medium">
+          {matchIndex >= 0 ? `Matches rule ${matchIndex + 1}` : 'No rule matches, using the main destination'}
+        </p>
+        <p className="text-muted-foreground break-all">{destination || 'No destination set'}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { AlertTriangle, CheckCircle2, Loader2, XCircle } from "lucide-react";
+import { ScanIssue } from "@/lib/qr/scannability";
+
+interface QRScanCheckProps {
+  issues: ScanIssue[];
+  // Result of the test scan; null while it runs
+  scanPassed: boolean | null;
+  minPrintWidth: number;
+}
+
+// Live scannability report for the design being edited
+export function QRScanCheck({ issues, scanPassed, minPrintWidth }: QRScanCheckProps) {
+  const hasErrors = issues.some(issue => issue.severity === 'error');
+  const isClean = issues.length === 0 && scanPassed === true;
+
+  return (
+    <div className={`rounded-lg border p-4 space-y-2 ${hasErrors ? 'border-red-200 bg-red-50' : isClean ? 'border-green-200 bg-green-50' : ''}`}>
+      <div className="flex items-center gap-2 text-sm font-medium">
+        {scanPassed === null ? (
+          <Loader2 size={16} className="animate-spin text-muted-foreground" />
+        ) : scanPassed ? (
+          <CheckCircle2 size={16} className="text-green-600" />
+        ) : (
+          <XCircle size={16} className="text-red-600" />
+        )}
+        {scanPassed === null
+          ? 'Running test scan...'
+          : scanPassed
+            ? 'Test scan read the code'
+            : 'Test scan could not read this design; try it with several phones before printing'}
+      </div>
+      {issues.map(issue => (
+        <div
+          key={issue.message}
+          className={`flex items-start gap-2 text-sm ${issue.severity === 'error' ? 'text-red-700' : 'text-amber-700'}`}
+        >
+          {issue.severity === 'error'
+            ? <XCircle size={16} className="mt-0.5 shrink-0" />
+            : <AlertTriangle size={16} className="mt-0.5 shrink-0" />}
+          {issue.message}
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">
+        Print at least {Math.ceil(minPrintWidth)} mm wide, quiet zone included
+      </p>
+    </div>
+  );
+}
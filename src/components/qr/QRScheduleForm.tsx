@@ -0,0 +1,88 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { QRFallbackType, QRSchedule } from "@/lib/qr/schedule";
+
+interface QRScheduleFormProps {
+  value: QRSchedule;
+  onChange: (value: QRSchedule) => void;
+}
+
+export function QRScheduleForm({ value, onChange }: QRScheduleFormProps) {
+  const update = (changes: Partial<QRSchedule>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div>
+        <Label>Schedule & Limits (Optional)</Label>
+        <p className="text-sm text-muted-foreground">
+          Outside these dates or after the last allowed scan, visitors are sent to the fallback instead
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="qr-active-from">Active From</Label>
+          <Input
+            id="qr-active-from"
+            type="datetime-local"
+            value={value.activeFrom}
+            onChange={(e) => update({ activeFrom: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="qr-active-until">Active Until</Label>
+          <Input
+            id="qr-active-until"
+            type="datetime-local"
+            value={value.activeUntil}
+            onChange={(e) => update({ activeUntil: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="qr-max-scans">Maximum Scans</Label>
+          <Input
+            id="qr-max-scans"
+            type="number"
+            min={1}
+            placeholder="Unlimited"
+            value={value.maxScans}
+            onChange={(e) => update({ maxScans: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="qr-fallback">Fallback</Label>
+          <Select value={value.fallback} onValueChange={(fallback) => update({ fallback: fallback as QRFallbackType })}>
+            <SelectTrigger id="qr-fallback">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="page">"Campaign ended" page</SelectItem>
+              <SelectItem value="url">Another URL</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {value.fallback === 'url' && (
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="qr-fallback-url">Fallback URL</Label>
+            <Input
+              id="qr-fallback-url"
+              placeholder="example.com/offers"
+              value={value.fallbackUrl}
+              onChange={(e) => update({ fallbackUrl: e.target.value })}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
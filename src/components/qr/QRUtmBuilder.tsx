@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Save, Trash } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { EMPTY_UTM, hasUtm, UTM_FIELDS, UtmParams } from "@/lib/utm";
+
+interface UtmPreset extends UtmParams {
+  id: string;
+  name: string;
+}
+
+interface QRUtmBuilderProps {
+  userId: string;
+  value: UtmParams;
+  onChange: (value: UtmParams) => void;
+  // Destination the parameters are added to, shown as a preview
+  previewUrl: string;
+}
+
+const toParams = (preset: UtmPreset): UtmParams =>
+  UTM_FIELDS.reduce((params, { key }) => ({ ...params, [key]: preset[key] || '' }), { ...EMPTY_UTM });
+
+// UTM parameters for a QR destination, with presets shared across the brand
+export function QRUtmBuilder({ userId, value, onChange, previewUrl }: QRUtmBuilderProps) {
+  const [brandId, setBrandId] = useState<string | null>(null);
+  const [presets, setPresets] = useState<UtmPreset[]>([]);
+  const [presetId, setPresetId] = useState('');
+  const [presetName, setPresetName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchPresets = async () => {
+      try {
+        const { data: brand, error: brandError } = await supabase
+          .from('brands')
+          .select('id')
+          .eq('user_id', userId)
+          .maybeSingle();
+        if (brandError) throw brandError;
+        if (!brand) return;
+        setBrandId(brand.id);
+
+        const { data, error } = await supabase
+          .from('utm_presets')
+          .select('id, name, utm_source, utm_medium, utm_campaign, utm_term, utm_content')
+          .eq('brand_id', brand.id)
+          .order('name');
+        if (error) throw error;
+        setPresets(data || []);
+      } catch (error) {
+        console.error('Error fetching UTM presets:', error);
+        toast.error('Failed to load UTM presets');
+      }
+    };
+
+    if (userId) {
+      fetchPresets();
+    }
+  }, [userId]);
+
+  const applyPreset = (id: string) => {
+    const preset = presets.find(item => item.id === id);
+    if (!preset) return;
+    setPresetId(id);
+    onChange(toParams(preset));
+  };
+
+  const savePreset = async () => {
+    const name = presetName.trim();
+    if (!name || !brandId) return;
+    setIsSaving(true);
+    try {
+      const existing = presets.find(item => item.name.toLowerCase() === name.toLowerCase());
+      const fields = UTM_FIELDS.reduce(
+        (row, { key }) => ({ ...row, [key]: value[key].trim() || null }),
+        {} as Record<string, string | null>,
+      );
+      const { data, error } = existing
+        ? await supabase.from('utm_presets').update(fields).eq('id', existing.id).select().single()
+        : await supabase.from('utm_presets').insert({ brand_id: brandId, name, ...fields }).select().single();
+      if (error) throw error;
+      setPresets(prev => [...prev.filter(item => item.id !== data.id), data].sort((a, b) => a.name.localeCompare(b.name)));
+      setPresetId(data.id);
+      setPresetName('');
+      toast.success(existing ? 'Preset updated' : 'Preset saved');
+    } catch (error) {
+      console.error('Error saving UTM preset:', error);
+      toast.error('Failed to save preset');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deletePreset = async () => {
+    const preset = presets.find(item => item.id === presetId);
+    if (!preset || !window.confirm(`Delete the preset "${preset.name}"?`)) return;
+    try {
+      const { error } = await supabase.from('utm_presets').delete().eq('id', preset.id);
+      if (error) throw error;
+      setPresets(prev => prev.filter(item => item.id !== preset.id));
+      setPresetId('');
+    } catch (error) {
+      console.error('Error deleting UTM preset:', error);
+      toast.error('Failed to delete preset');
+    }
+  };
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <Label>Campaign Tracking (UTM)</Label>
+          <p className="text-sm text-muted-foreground">
+            Added to the destination so analytics can tell which campaign a visit came from
+          </p>
+        </div>
+        {presets.length > 0 && (
+          <div className="flex gap-1 shrink-0">
+            <Select value={presetId} onValueChange={applyPreset}>
+              <SelectTrigger className="w-40" aria-label="Apply preset">
+                <SelectValue placeholder="Apply preset" />
+              </SelectTrigger>
+              <SelectContent>
+                {presets.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {presetId && (
+              <Button variant="ghost" size="icon" title="Delete preset" onClick={deletePreset}>
+                <Trash size={16} className="text-red-500" />
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {UTM_FIELDS.map(field => (
+          <div key={field.key} className="space-y-2">
+            <Label htmlFor={`qr-${field.key}`}>{field.label}</Label>
+            <Input
+              id={`qr-${field.key}`}
+              placeholder={field.placeholder}
+              value={value[field.key]}
+              onChange={(e) => onChange({ ...value, [field.key]: e.target.value })}
+            />
+          </div>
+        ))}
+      </div>
+
+      {hasUtm(value) && (
+        <>
+          {previewUrl && (
+            <div className="p-2 bg-gray-50 rounded border text-xs font-mono break-all">{previewUrl}</div>
+          )}
+          {brandId && (
+            <div className="flex gap-2">
+              <Input
+                placeholder="Preset name"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && savePreset()}
+              />
+              <Button variant="outline" className="gap-2 shrink-0" onClick={savePreset} disabled={isSaving || !presetName.trim()}>
+                <Save size={16} />
+                Save as Preset
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
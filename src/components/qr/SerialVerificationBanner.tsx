@@ -0,0 +1,61 @@
+import { AlertTriangle, ShieldCheck, ShieldQuestion } from "lucide-react";
+import { SerialScanResult } from "@/lib/qr/serials";
+
+interface SerialVerificationBannerProps {
+  result: SerialScanResult;
+  // This browser made the first scan, so a repeat scan is expected
+  isOwnScan?: boolean;
+}
+
+function formatLocation(result: SerialScanResult): string | null {
+  if (result.firstScanLatitude === null || result.firstScanLongitude === null) return null;
+  // The server rounds to one decimal, roughly 10 km
+  return `${result.firstScanLatitude.toFixed(1)}, ${result.firstScanLongitude.toFixed(1)}`;
+}
+
+export function SerialVerificationBanner({ result, isOwnScan = false }: SerialVerificationBannerProps) {
+  if (result.status === 'unknown') {
+    return (
+      <div className="flex gap-3 rounded-lg border border-red-200 bg-red-50 p-4 text-red-800">
+        <ShieldQuestion className="h-6 w-6 shrink-0" />
+        <div>
+          <p className="font-semibold">Unrecognized code</p>
+          <p className="text-sm">
+            This serial code isn't registered by any brand. The product may not be genuine.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (result.status === 'verified' || isOwnScan) {
+    return (
+      <div className="flex gap-3 rounded-lg border border-green-200 bg-green-50 p-4 text-green-800">
+        <ShieldCheck className="h-6 w-6 shrink-0" />
+        <div>
+          <p className="font-semibold">Genuine product</p>
+          <p className="text-sm">
+            {result.productName} · Serial {result.serialNumber}
+            {isOwnScan && result.firstScannedAt && ` · First verified on this device ${new Date(result.firstScannedAt).toLocaleString()}`}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const location = formatLocation(result);
+  return (
+    <div className="flex gap-3 rounded-lg border border-amber-200 bg-amber-50 p-4 text-amber-900">
+      <AlertTriangle className="h-6 w-6 shrink-0" />
+      <div>
+        <p className="font-semibold">Already verified</p>
+        <p className="text-sm">
+          Serial {result.serialNumber} of {result.productName} was first verified
+          {result.firstScannedAt && ` on ${new Date(result.firstScannedAt).toLocaleString()}`}
+          {location && ` near ${location}`}. If you just bought this product and didn't scan it before,
+          it may be a copy.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { KeyRound } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { generateSigningKeyPair } from "@/lib/qr/signing";
+
+interface SigningKeysProps {
+  brandId: string;
+}
+
+interface SigningKey {
+  id: string;
+  version: number;
+  public_key: string;
+  created_at: string | null;
+  retired_at: string | null;
+}
+
+export function SigningKeys({ brandId }: SigningKeysProps) {
+  const [keys, setKeys] = useState<SigningKey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const fetchKeys = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('brand_signing_keys')
+        .select('id, version, public_key, created_at, retired_at')
+        .eq('brand_id', brandId)
+        .order('version', { ascending: false });
+      if (error) throw error;
+      setKeys(data || []);
+    } catch (error) {
+      console.error('Error fetching signing keys:', error);
+      toast.error('Failed to load signing keys');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (brandId) fetchKeys();
+    // eslint-disable-next-line
+  }, [brandId]);
+
+  const activeKey = keys.find(key => !key.retired_at);
+
+  const handleGenerate = async () => {
+    if (activeKey && !window.confirm('Rotate the signing key? New codes will be signed with the new key; codes already printed stay verifiable.')) {
+      return;
+    }
+    setIsGenerating(true);
+    try {
+      const pair = await generateSigningKeyPair();
+      // Publishes the key with its secret and retires the current one at once
+      const { error } = await supabase.rpc('rotate_brand_signing_key', {
+        p_brand_id: brandId,
+        p_public_key: pair.publicKey,
+        p_private_key: pair.privateKey,
+      });
+      if (error) throw error;
+
+      toast.success(activeKey ? 'Signing key rotated' : 'Signing key created');
+      await fetchKeys();
+    } catch (error) {
+      console.error('Error generating signing key:', error);
+      toast.error('Failed to generate a signing key. Your browser may not support Ed25519.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded shadow mb-8 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">Signing Keys</h2>
+          <p className="text-sm text-muted-foreground">
+            Signed product codes can be checked as genuine in the browser against your published public key.
+          </p>
+        </div>
+        <Button type="button" variant="outline" className="gap-2" onClick={handleGenerate} disabled={isGenerating || isLoading}>
+          <KeyRound size={16} />
+          {isGenerating ? 'Generating...' : activeKey ? 'Rotate Key' : 'Generate Key'}
+        </Button>
+      </div>
+
+      {keys.length > 0 && (
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Public Key</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {keys.map(key => (
+                <TableRow key={key.id}>
+                  <TableCell className="font-medium">v{key.version}</TableCell>
+                  <TableCell>
+                    <code className="text-xs">{key.public_key.slice(0, 16)}…</code>
+                  </TableCell>
+                  <TableCell>{key.created_at ? new Date(key.created_at).toLocaleDateString() : '-'}</TableCell>
+                  <TableCell>
+                    {key.retired_at ? (
+                      <Badge variant="outline">Retired {new Date(key.retired_at).toLocaleDateString()}</Badge>
+                    ) : (
+                      <Badge>Active</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Image as ImageIcon, Plus, X } from "lucide-react";
+import { MediaLibrary } from "@/components/page-builder/MediaLibrary";
+import {
+  EMAIL_TYPES,
+  PHONE_TYPES,
+  VCardAddress,
+  VCardContact,
+  VCardEmailType,
+  VCardPhoneType,
+} from "@/lib/qr/vcard";
+
+interface VCardFormProps {
+  value: VCardContact;
+  onChange: (value: VCardContact) => void;
+}
+
+export function VCardForm({ value, onChange }: VCardFormProps) {
+  const [showMediaLibrary, setShowMediaLibrary] = useState(false);
+
+  const update = <K extends keyof VCardContact>(key: K, fieldValue: VCardContact[K]) => {
+    onChange({ ...value, [key]: fieldValue });
+  };
+
+  const updateAddress = (key: keyof VCardAddress, fieldValue: string) => {
+    update('address', { ...value.address, [key]: fieldValue });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="firstName">First Name</Label>
+          <Input
+            id="firstName"
+            className="mt-1"
+            value={value.firstName}
+            onChange={(e) => update('firstName', e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="lastName">Last Name</Label>
+          <Input
+            id="lastName"
+            className="mt-1"
+            value={value.lastName}
+            onChange={(e) => update('lastName', e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="organization">Organization</Label>
+          <Input
+            id="organization"
+            className="mt-1"
+            value={value.organization}
+            onChange={(e) => update('organization', e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="jobTitle">Job Title</Label>
+          <Input
+            id="jobTitle"
+            className="mt-1"
+            value={value.jobTitle}
+            onChange={(e) => update('jobTitle', e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Phone Numbers</Label>
+        {value.phones.map((phone, index) => (
+          <div key={index} className="flex gap-2">
+            <Select
+              value={phone.type}
+              onValueChange={(type) => update('phones', value.phones.map((p, i) => (i === index ? { ...p, type: type as VCardPhoneType } : p)))}
+            >
+              <SelectTrigger className="w-32" aria-label="Phone type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PHONE_TYPES.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="tel"
+              placeholder="+1 555 123 4567"
+              value={phone.value}
+              onChange={(e) => update('phones', value.phones.map((p, i) => (i === index ? { ...p, value: e.target.value } : p)))}
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Remove phone"
+              disabled={value.phones.length === 1}
+              onClick={() => update('phones', value.phones.filter((_, i) => i !== index))}
+            >
+              <X size={16} />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1"
+          onClick={() => update('phones', [...value.phones, { type: 'work', value: '' }])}
+        >
+          <Plus size={14} />
+          Add Phone
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Email Addresses</Label>
+        {value.emails.map((email, index) => (
+          <div key={index} className="flex gap-2">
+            <Select
+              value={email.type}
+              onValueChange={(type) => update('emails', value.emails.map((m, i) => (i === index ? { ...m, type: type as VCardEmailType } : m)))}
+            >
+              <SelectTrigger className="w-32" aria-label="Email type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EMAIL_TYPES.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="email"
+              placeholder="name@example.com"
+              value={email.value}
+              onChange={(e) => update('emails', value.emails.map((m, i) => (i === index ? { ...m, value: e.target.value } : m)))}
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Remove email"
+              disabled={value.emails.length === 1}
+              onClick={() => update('emails', value.emails.filter((_, i) => i !== index))}
+            >
+              <X size={16} />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1"
+          onClick={() => update('emails', [...value.emails, { type: 'home', value: '' }])}
+        >
+          <Plus size={14} />
+          Add Email
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Address</Label>
+        <Input
+          placeholder="Street address"
+          value={value.address.street}
+          onChange={(e) => updateAddress('street', e.target.value)}
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <Input placeholder="City" value={value.address.city} onChange={(e) => updateAddress('city', e.target.value)} />
+          <Input placeholder="State / Region" value={value.address.region} onChange={(e) => updateAddress('region', e.target.value)} />
+          <Input placeholder="Postal code" value={value.address.postalCode} onChange={(e) => updateAddress('postalCode', e.target.value)} />
+          <Input placeholder="Country" value={value.address.country} onChange={(e) => updateAddress('country', e.target.value)} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="website">Website</Label>
+        <Input
+          id="website"
+          placeholder="example.com"
+          value={value.website}
+          onChange={(e) => update('website', e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="photoUrl">Photo</Label>
+        <div className="flex gap-2">
+          {value.photoUrl && (
+            <img src={value.photoUrl} alt="Contact photo" className="h-10 w-10 rounded object-cover border" />
+          )}
+          <Input
+            id="photoUrl"
+            placeholder="https://..."
+            value={value.photoUrl}
+            onChange={(e) => update('photoUrl', e.target.value)}
+          />
+          <Button variant="outline" className="gap-2" onClick={() => setShowMediaLibrary(true)}>
+            <ImageIcon size={16} />
+            Library
+          </Button>
+        </div>
+        <MediaLibrary
+          open={showMediaLibrary}
+          onOpenChange={setShowMediaLibrary}
+          onSelectImage={(url) => update('photoUrl', url)}
+        />
+      </div>
+    </div>
+  );
+}
@@ -63,6 +63,18 @@ export const setupStorageBuckets = async () => {
           update: '(bucket_id = \'brand-logos\'::text AND auth.role() = \'authenticated\')',
           delete: '(bucket_id = \'brand-logos\'::text AND auth.role() = \'authenticated\')'
         }
+      },
+      {
+        // Files served behind dynamic QR codes, such as hosted vCards
+        name: 'qr-files',
+        public: true,
+        policies: {
+          select: '(bucket_id = \'qr-files\'::text)',
+          // Files live under the owner's user id, and only the owner can write them
+          insert: '(bucket_id = \'qr-files\'::text AND (storage.foldername(name))[1] = auth.uid()::text)',
+          update: '(bucket_id = \'qr-files\'::text AND (storage.foldername(name))[1] = auth.uid()::text)',
+          delete: '(bucket_id = \'qr-files\'::text AND (storage.foldername(name))[1] = auth.uid()::text)'
+        }
       }
     ];
 
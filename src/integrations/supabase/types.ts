@@ -47,6 +47,74 @@ export type Database = {
           },
         ]
       }
+      brand_signing_key_secrets: {
+        Row: {
+          brand_id: string
+          key_id: string
+          private_key: string
+        }
+        Insert: {
+          brand_id: string
+          key_id: string
+          private_key: string
+        }
+        Update: {
+          brand_id?: string
+          key_id?: string
+          private_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "brand_signing_key_secrets_brand_id_fkey"
+            columns: ["brand_id"]
+            isOneToOne: false
+            referencedRelation: "brands"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "brand_signing_key_secrets_key_id_fkey"
+            columns: ["key_id"]
+            isOneToOne: true
+            referencedRelation: "brand_signing_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      brand_signing_keys: {
+        Row: {
+          brand_id: string
+          created_at: string | null
+          id: string
+          public_key: string
+          retired_at: string | null
+          version: number
+        }
+        Insert: {
+          brand_id: string
+          created_at?: string | null
+          id?: string
+          public_key: string
+          retired_at?: string | null
+          version: number
+        }
+        Update: {
+          brand_id?: string
+          created_at?: string | null
+          id?: string
+          public_key?: string
+          retired_at?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "brand_signing_keys_brand_id_fkey"
+            columns: ["brand_id"]
+            isOneToOne: false
+            referencedRelation: "brands"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       brands: {
         Row: {
           address: Json | null
@@ -249,15 +317,81 @@ export type Database = {
           },
         ]
       }
+      image_watermarks: {
+        Row: {
+          brand_id: string
+          created_at: string | null
+          file_name: string | null
+          file_path: string
+          id: string
+          watermark_id: number
+        }
+        Insert: {
+          brand_id: string
+          created_at?: string | null
+          file_name?: string | null
+          file_path: string
+          id?: string
+          watermark_id: number
+        }
+        Update: {
+          brand_id?: string
+          created_at?: string | null
+          file_name?: string | null
+          file_path?: string
+          id?: string
+          watermark_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "image_watermarks_brand_id_fkey"
+            columns: ["brand_id"]
+            isOneToOne: false
+            referencedRelation: "brands"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      landing_page_slug_redirects: {
+        Row: {
+          created_at: string
+          page_id: string
+          slug: string
+        }
+        Insert: {
+          created_at?: string
+          page_id: string
+          slug: string
+        }
+        Update: {
+          created_at?: string
+          page_id?: string
+          slug?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "landing_page_slug_redirects_page_id_fkey"
+            columns: ["page_id"]
+            isOneToOne: false
+            referencedRelation: "landing_pages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       landing_pages: {
         Row: {
           background_color: string
           created_at: string
           font_family: string
           id: string
+          live_snapshot: Json | null
+          pending_snapshot: Json | null
+          publish_at: string | null
           published: boolean
+          published_at: string | null
           slug: string
           title: string
+          unpublish_at: string | null
           updated_at: string
           user_id: string
         }
@@ -266,9 +400,14 @@ export type Database = {
           created_at?: string
           font_family?: string
           id?: string
+          live_snapshot?: Json | null
+          pending_snapshot?: Json | null
+          publish_at?: string | null
           published?: boolean
+          published_at?: string | null
           slug: string
           title: string
+          unpublish_at?: string | null
           updated_at?: string
           user_id: string
         }
@@ -277,9 +416,14 @@ export type Database = {
           created_at?: string
           font_family?: string
           id?: string
+          live_snapshot?: Json | null
+          pending_snapshot?: Json | null
+          publish_at?: string | null
           published?: boolean
+          published_at?: string | null
           slug?: string
           title?: string
+          unpublish_at?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -359,12 +503,208 @@ export type Database = {
           },
         ]
       }
+      page_revisions: {
+        Row: {
+          author_email: string | null
+          author_id: string | null
+          background_color: string | null
+          blocks: Json
+          created_at: string
+          font_family: string | null
+          id: string
+          is_autosave: boolean
+          page_id: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          author_email?: string | null
+          author_id?: string | null
+          background_color?: string | null
+          blocks?: Json
+          created_at?: string
+          font_family?: string | null
+          id?: string
+          is_autosave?: boolean
+          page_id: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          author_email?: string | null
+          author_id?: string | null
+          background_color?: string | null
+          blocks?: Json
+          created_at?: string
+          font_family?: string | null
+          id?: string
+          is_autosave?: boolean
+          page_id?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "page_revisions_page_id_fkey"
+            columns: ["page_id"]
+            isOneToOne: false
+            referencedRelation: "landing_pages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_serial_batches: {
+        Row: {
+          brand_id: string | null
+          created_at: string | null
+          id: string
+          prefix: string
+          product_id: string
+          quantity: number
+          start_index: number
+        }
+        Insert: {
+          brand_id?: string | null
+          created_at?: string | null
+          id?: string
+          prefix?: string
+          product_id: string
+          quantity: number
+          start_index: number
+        }
+        Update: {
+          brand_id?: string | null
+          created_at?: string | null
+          id?: string
+          prefix?: string
+          product_id?: string
+          quantity?: number
+          start_index?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_serial_batches_brand_id_fkey"
+            columns: ["brand_id"]
+            isOneToOne: false
+            referencedRelation: "brands"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_serials: {
+        Row: {
+          batch_id: string
+          brand_id: string | null
+          created_at: string | null
+          first_scan_accuracy: number | null
+          first_scan_latitude: number | null
+          first_scan_longitude: number | null
+          first_scanned_at: string | null
+          id: string
+          last_scanned_at: string | null
+          product_id: string
+          scan_count: number
+          serial_number: string
+          token: string
+        }
+        Insert: {
+          batch_id: string
+          brand_id?: string | null
+          created_at?: string | null
+          first_scan_accuracy?: number | null
+          first_scan_latitude?: number | null
+          first_scan_longitude?: number | null
+          first_scanned_at?: string | null
+          id?: string
+          last_scanned_at?: string | null
+          product_id: string
+          scan_count?: number
+          serial_number: string
+          token: string
+        }
+        Update: {
+          batch_id?: string
+          brand_id?: string | null
+          created_at?: string | null
+          first_scan_accuracy?: number | null
+          first_scan_latitude?: number | null
+          first_scan_longitude?: number | null
+          first_scanned_at?: string | null
+          id?: string
+          last_scanned_at?: string | null
+          product_id?: string
+          scan_count?: number
+          serial_number?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_serials_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "product_serial_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_serials_brand_id_fkey"
+            columns: ["brand_id"]
+            isOneToOne: false
+            referencedRelation: "brands"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      qr_campaigns: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qr_campaigns_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       qr_codes: {
         Row: {
+          active_from: string | null
+          active_until: string | null
+          campaign_id: string | null
+          content: Json | null
           created_at: string | null
           description: string | null
+          fallback_url: string | null
+          folder_id: string | null
           id: string
+          is_dynamic: boolean
           landing_page_id: string | null
+          max_scans: number | null
+          qr_type: string
+          routing_rules: Json
+          settings: Json | null
+          short_code: string | null
+          tags: string[]
           title: string
           updated_at: string | null
           url: string
@@ -372,10 +712,23 @@ export type Database = {
           views: number | null
         }
         Insert: {
+          active_from?: string | null
+          active_until?: string | null
+          campaign_id?: string | null
+          content?: Json | null
           created_at?: string | null
           description?: string | null
+          fallback_url?: string | null
+          folder_id?: string | null
           id?: string
+          is_dynamic?: boolean
           landing_page_id?: string | null
+          max_scans?: number | null
+          qr_type?: string
+          routing_rules?: Json
+          settings?: Json | null
+          short_code?: string | null
+          tags?: string[]
           title: string
           updated_at?: string | null
           url: string
@@ -383,10 +736,23 @@ export type Database = {
           views?: number | null
         }
         Update: {
+          active_from?: string | null
+          active_until?: string | null
+          campaign_id?: string | null
+          content?: Json | null
           created_at?: string | null
           description?: string | null
+          fallback_url?: string | null
+          folder_id?: string | null
           id?: string
+          is_dynamic?: boolean
           landing_page_id?: string | null
+          max_scans?: number | null
+          qr_type?: string
+          routing_rules?: Json
+          settings?: Json | null
+          short_code?: string | null
+          tags?: string[]
           title?: string
           updated_at?: string | null
           url?: string
@@ -394,6 +760,20 @@ export type Database = {
           views?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "qr_codes_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "qr_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "qr_codes_folder_id_fkey"
+            columns: ["folder_id"]
+            isOneToOne: false
+            referencedRelation: "qr_folders"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "qr_codes_landing_page_id_fkey"
             columns: ["landing_page_id"]
@@ -403,6 +783,35 @@ export type Database = {
           },
         ]
       }
+      qr_folders: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qr_folders_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       reviews: {
         Row: {
           brand_id: string | null
@@ -496,15 +905,117 @@ export type Database = {
         }
         Relationships: []
       }
+      utm_presets: {
+        Row: {
+          brand_id: string
+          created_at: string | null
+          id: string
+          name: string
+          utm_campaign: string | null
+          utm_content: string | null
+          utm_medium: string | null
+          utm_source: string | null
+          utm_term: string | null
+        }
+        Insert: {
+          brand_id: string
+          created_at?: string | null
+          id?: string
+          name: string
+          utm_campaign?: string | null
+          utm_content?: string | null
+          utm_medium?: string | null
+          utm_source?: string | null
+          utm_term?: string | null
+        }
+        Update: {
+          brand_id?: string
+          created_at?: string | null
+          id?: string
+          name?: string
+          utm_campaign?: string | null
+          utm_content?: string | null
+          utm_medium?: string | null
+          utm_source?: string | null
+          utm_term?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "utm_presets_brand_id_fkey"
+            columns: ["brand_id"]
+            isOneToOne: false
+            referencedRelation: "brands"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      add_qr_code_tags: {
+        Args: { p_ids: string[]; p_tags: string[] }
+        Returns: undefined
+      }
+      get_live_landing_page: {
+        Args: { p_slug: string }
+        Returns: Json
+      }
+      get_signed_code_details: {
+        Args: { p_brand_id: string; p_product_id: string }
+        Returns: Json
+      }
+      identify_image_watermark: {
+        Args: { p_watermark_id: number }
+        Returns: Json
+      }
       increment_qr_view: {
         Args: { qr_id: string }
         Returns: undefined
       }
+      is_landing_page_slug_available: {
+        Args: { p_slug: string; p_page_id?: string | null }
+        Returns: boolean
+      }
+      publish_landing_page: {
+        Args: { p_page_id: string; p_publish_at?: string | null; p_unpublish_at?: string | null }
+        Returns: Json
+      }
+      record_serial_scan: {
+        Args: {
+          p_token: string
+          p_latitude?: number
+          p_longitude?: number
+          p_accuracy?: number
+        }
+        Returns: Json
+      }
+      resolve_landing_page_slug_redirect: {
+        Args: { p_slug: string }
+        Returns: string | null
+      }
+      resolve_qr_code: {
+        Args: { p_short_code: string; p_user_agent?: string; p_referrer?: string }
+        Returns: Json
+      }
+      rotate_brand_signing_key: {
+        Args: { p_brand_id: string; p_public_key: string; p_private_key: string }
+        Returns: Json
+      }
+      save_landing_page: {
+        Args: {
+          p_page_id: string
+          p_title: string
+          p_background_color: string
+          p_font_family: string
+          p_upserts: Json
+          p_deleted_ids: string[]
+          p_order: string[]
+          p_autosave?: boolean
+        }
+        Returns: Json
+      }
     }
     Enums: {
       file_type: "IMAGE" | "PDF" | "VIDEO"
@@ -0,0 +1,89 @@
+// Command-based undo/redo. Each command knows how to apply and revert its
+// own change, so history holds small steps rather than copies of the state.
+
+export interface HistoryCommand<T> {
+  label: string;
+  apply: (state: T) => T;
+  revert: (state: T) => T;
+  // Consecutive commands with the same key merge into one step, so typing
+  // a title undoes as a whole rather than letter by letter
+  coalesceKey?: string;
+}
+
+export interface HistoryEntry<T> {
+  command: HistoryCommand<T>;
+  // When the entry was last extended, in milliseconds
+  timestamp: number;
+}
+
+export interface HistoryState<T> {
+  present: T;
+  // Oldest first; the last entry is the next one undone
+  past: HistoryEntry<T>[];
+  // Next one redone first
+  future: HistoryEntry<T>[];
+}
+
+export const MAX_HISTORY = 100;
+// Edits further apart than this stay separate steps
+export const COALESCE_WINDOW_MS = 1000;
+
+export function createHistory<T>(present: T): HistoryState<T> {
+  return { present, past: [], future: [] };
+}
+
+function merge<T>(first: HistoryCommand<T>, second: HistoryCommand<T>): HistoryCommand<T> {
+  return {
+    label: second.label,
+    coalesceKey: second.coalesceKey,
+    apply: state => second.apply(first.apply(state)),
+    revert: state => first.revert(second.revert(state)),
+  };
+}
+
+export function executeCommand<T>(history: HistoryState<T>, command: HistoryCommand<T>, now = Date.now()): HistoryState<T> {
+  const present = command.apply(history.present);
+  const last = history.past[history.past.length - 1];
+  const canMerge = last && history.future.length === 0 && command.coalesceKey &&
+    last.command.coalesceKey === command.coalesceKey && now - last.timestamp <= COALESCE_WINDOW_MS;
+  if (canMerge) {
+    return {
+      present,
+      past: [...history.past.slice(0, -1), { command: merge(last.command, command), timestamp: now }],
+      future: [],
+    };
+  }
+  return {
+    present,
+    past: [...history.past, { command, timestamp: now }].slice(-MAX_HISTORY),
+    future: [],
+  };
+}
+
+export function undo<T>(history: HistoryState<T>): HistoryState<T> {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return history;
+  return {
+    present: entry.command.revert(history.present),
+    past: history.past.slice(0, -1),
+    future: [entry, ...history.future],
+  };
+}
+
+export function redo<T>(history: HistoryState<T>): HistoryState<T> {
+  const [entry, ...future] = history.future;
+  if (!entry) return history;
+  return {
+    present: entry.command.apply(history.present),
+    past: [...history.past, entry],
+    future,
+  };
+}
+
+// Moves through history until `steps` entries remain in the past
+export function jumpTo<T>(history: HistoryState<T>, steps: number): HistoryState<T> {
+  let result = history;
+  while (result.past.length > steps) result = undo(result);
+  while (result.past.length < steps && result.future.length > 0) result = redo(result);
+  return result;
+}
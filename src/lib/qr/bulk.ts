@@ -0,0 +1,206 @@
+// Bulk QR code creation from CSV. Each row becomes one qr_codes record;
+// optional columns override the base design for that row.
+
+import { normalizeUrl } from '../url';
+import { createZip } from '../zip';
+import { toSafeFilename } from './download';
+import { createLogoCache } from './logo';
+import { renderQRToPngBlob } from './render';
+import { DEFAULT_QR_SETTINGS, encodeWithSettings, parseQRSettings, QRDesignSettings, toRenderOptions } from './settings';
+
+export const MAX_BULK_ROWS = 1000;
+
+export interface BulkLandingPage {
+  id: string;
+  slug: string;
+}
+
+export interface BulkRow {
+  // 1-based line in the file, counting the header
+  line: number;
+  title: string;
+  description: string;
+  // Where the code leads: the URL itself, or the landing page address
+  destination: string;
+  landingPageId: string | null;
+  settings: QRDesignSettings;
+  errors: string[];
+}
+
+export interface BulkParseResult {
+  rows: BulkRow[];
+  // Problems with the file as a whole, such as a missing column
+  errors: string[];
+  warnings: string[];
+}
+
+const TITLE_COLUMNS = ['title', 'name'];
+const DESTINATION_COLUMNS = ['destination', 'url', 'link'];
+const SLUG_COLUMNS = ['slug', 'landingpage', 'landingpageslug', 'page'];
+const DESCRIPTION_COLUMNS = ['description'];
+
+// Short names for the most common design columns
+const SETTING_ALIASES: Record<string, keyof QRDesignSettings> = {
+  color: 'foregroundColor',
+  foreground: 'foregroundColor',
+  background: 'backgroundColor',
+  logo: 'logoUrl',
+  moduleshape: 'shape',
+  gradient: 'gradientType',
+  errorcorrection: 'errorCorrectionLevel',
+};
+
+const NUMERIC_SETTINGS: (keyof QRDesignSettings)[] = ['logoScale', 'gradientRotation', 'cornerRadius', 'size'];
+
+export const BULK_TEMPLATE_HEADER = ['title', 'destination', 'slug', 'description', 'foreground_color', 'background_color', 'shape', 'frame', 'frame_text'];
+
+export const BULK_TEMPLATE_ROWS = [
+  ['Spring launch poster', 'https://example.com/spring', '', 'Poster QR', '#1A237E', '', 'dots', 'banner', 'SCAN ME'],
+  ['Product insert', '', 'my-landing-page', '', '', '', '', '', ''],
+];
+
+// "Foreground Color", "foreground_color" and "foregroundColor" all match
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function settingForHeader(header: string): keyof QRDesignSettings | null {
+  const key = normalizeHeader(header);
+  if (SETTING_ALIASES[key]) return SETTING_ALIASES[key];
+  return (Object.keys(DEFAULT_QR_SETTINGS) as (keyof QRDesignSettings)[])
+    .find(setting => setting.toLowerCase() === key) ?? null;
+}
+
+export function parseBulkRows(
+  table: string[][],
+  landingPages: BulkLandingPage[],
+  baseSettings: QRDesignSettings,
+  origin = window.location.origin,
+): BulkParseResult {
+  const result: BulkParseResult = { rows: [], errors: [], warnings: [] };
+  if (table.length < 2) {
+    result.errors.push('The file needs a header row and at least one QR code');
+    return result;
+  }
+
+  const headers = table[0].map(header => header.trim());
+  const findColumn = (names: string[]) => headers.findIndex(header => names.includes(normalizeHeader(header)));
+  const titleColumn = findColumn(TITLE_COLUMNS);
+  const destinationColumn = findColumn(DESTINATION_COLUMNS);
+  const slugColumn = findColumn(SLUG_COLUMNS);
+  const descriptionColumn = findColumn(DESCRIPTION_COLUMNS);
+
+  if (titleColumn < 0) result.errors.push('Missing a "title" column');
+  if (destinationColumn < 0 && slugColumn < 0) result.errors.push('Missing a "destination" or "slug" column');
+  if (table.length - 1 > MAX_BULK_ROWS) result.errors.push(`Up to ${MAX_BULK_ROWS} QR codes can be created at once`);
+  if (result.errors.length > 0) return result;
+
+  const known = new Set([titleColumn, destinationColumn, slugColumn, descriptionColumn]);
+  const settingColumns: { index: number; key: keyof QRDesignSettings }[] = [];
+  headers.forEach((header, index) => {
+    if (known.has(index) || !header) return;
+    const key = settingForHeader(header);
+    if (key) {
+      settingColumns.push({ index, key });
+    } else {
+      result.warnings.push(`Unknown column "${header}" was ignored`);
+    }
+  });
+
+  const pagesBySlug = new Map(landingPages.map(page => [page.slug.toLowerCase(), page]));
+
+  table.slice(1).forEach((cells, index) => {
+    const cell = (column: number) => (column >= 0 ? (cells[column] ?? '').trim() : '');
+    const row: BulkRow = {
+      line: index + 2,
+      title: cell(titleColumn),
+      description: cell(descriptionColumn),
+      destination: '',
+      landingPageId: null,
+      settings: baseSettings,
+      errors: [],
+    };
+
+    if (!row.title) row.errors.push('Title is required');
+
+    const url = cell(destinationColumn);
+    const slug = cell(slugColumn).replace(/^\//, '');
+    if (url && slug) {
+      row.errors.push('Give either a destination or a slug, not both');
+    } else if (slug) {
+      const page = pagesBySlug.get(slug.toLowerCase());
+      if (page) {
+        row.landingPageId = page.id;
+        row.destination = `${origin}/${page.slug}`;
+      } else {
+        row.errors.push(`No landing page with slug "${slug}"`);
+      }
+    } else if (url) {
+      try {
+        row.destination = new URL(normalizeUrl(url)).toString();
+      } catch {
+        row.errors.push(`"${url}" is not a valid URL`);
+      }
+    } else {
+      row.errors.push('Destination or slug is required');
+    }
+
+    // Apply overrides one at a time so each bad value gets its own message
+    const raw: Record<string, unknown> = { ...baseSettings };
+    settingColumns.forEach(({ index: column, key }) => {
+      const value = cell(column);
+      if (!value) return;
+      const parsed = NUMERIC_SETTINGS.includes(key) ? Number(value) : value;
+      const checked = parseQRSettings({ ...raw, [key]: parsed });
+      if (checked[key] === parsed) {
+        raw[key] = parsed;
+      } else {
+        row.errors.push(`Invalid ${headers[column]} "${value}"`);
+      }
+    });
+    row.settings = parseQRSettings(raw);
+
+    result.rows.push(row);
+  });
+
+  return result;
+}
+
+// File names for the ZIP, made unique by numbering repeats
+export function uniqueFilenames(titles: string[], extension: string): string[] {
+  const used = new Set<string>();
+  return titles.map(title => {
+    const base = toSafeFilename(title);
+    let name = `${base}.${extension}`;
+    for (let count = 2; used.has(name); count++) name = `${base}-${count}.${extension}`;
+    used.add(name);
+    return name;
+  });
+}
+
+export interface ZipQRCode {
+  title: string;
+  // What the image encodes
+  content: string;
+  settings: QRDesignSettings;
+}
+
+// Renders each code to a PNG and packs them into one ZIP
+export async function renderQRCodesZip(
+  codes: ZipQRCode[],
+  onProgress?: (rendered: number, total: number) => void,
+): Promise<Blob> {
+  const getLogo = createLogoCache();
+
+  const names = uniqueFilenames(codes.map(code => code.title), 'png');
+  const entries = [];
+  for (let i = 0; i < codes.length; i++) {
+    onProgress?.(i + 1, codes.length);
+    const { content, settings } = codes[i];
+    const logo = settings.logoUrl ? await getLogo(settings.logoUrl) : null;
+    const matrix = encodeWithSettings(content, settings);
+    const blob = await renderQRToPngBlob(matrix, toRenderOptions(settings, { logo }));
+    entries.push({ name: names[i], data: new Uint8Array(await blob.arrayBuffer()) });
+  }
+  return createZip(entries);
+}
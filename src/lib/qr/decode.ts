@@ -0,0 +1,124 @@
+// Decodes QR codes from photos and screenshots in the browser, and checks
+// the decoded payload against the brand's own codes.
+
+import jsQR from 'jsqr';
+import { SERIAL_LINK_PREFIX } from './serials';
+import { SHORT_LINK_PREFIX } from './short-code';
+import { SIGNED_LINK_PATH } from './signing';
+
+// Longest side to try decoding at. Photos decode faster and often more
+// reliably scaled down; larger sizes catch small codes in big photos.
+const DECODE_SIZES = [800, 1600, 3000];
+
+export interface DecodableCode {
+  id: string;
+  url: string;
+  is_dynamic: boolean;
+  short_code: string | null;
+}
+
+export type DecodeVerdict =
+  // One of the brand's codes
+  | 'match'
+  // A serialized or signed product link on this site
+  | 'product'
+  // Points at this site, but isn't one of the brand's codes
+  | 'unknown_link'
+  // Another site the brand links to, but not this exact address
+  | 'known_domain'
+  // A site none of the brand's codes use: possible tampering
+  | 'foreign_domain'
+  // Text that isn't a web link and matches no code
+  | 'unknown_payload';
+
+export interface DecodeMatch<T extends DecodableCode> {
+  verdict: DecodeVerdict;
+  match: T | null;
+  // Host of a decoded web link
+  host: string | null;
+}
+
+export async function decodeQRImage(image: Blob): Promise<string | null> {
+  const bitmap = await createImageBitmap(image);
+  try {
+    const largest = Math.max(bitmap.width, bitmap.height);
+    const sizes = Array.from(new Set(DECODE_SIZES.map(size => Math.min(size, largest))));
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Canvas is not supported');
+
+    for (const size of sizes) {
+      const scale = size / largest;
+      canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+      canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+      ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      // Dark-on-light and inverted codes are both common in print
+      const result = jsQR(data, width, height, { inversionAttempts: 'attemptBoth' });
+      if (result) return result.data;
+    }
+    return null;
+  } finally {
+    bitmap.close();
+  }
+}
+
+function parseWebUrl(text: string): URL | null {
+  try {
+    const url = new URL(text.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+// Ignores differences that don't change where a link goes, including the
+// ?qr=1 marker added to printed landing page links
+function normalizePayload(text: string): string {
+  const url = parseWebUrl(text);
+  if (!url) return text.trim();
+  if (url.searchParams.get('qr') === '1') url.searchParams.delete('qr');
+  if (url.pathname.length > 1) url.pathname = url.pathname.replace(/\/+$/, '');
+  url.hash = '';
+  return url.toString();
+}
+
+function bareHost(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^www\./, '');
+}
+
+export function matchDecodedPayload<T extends DecodableCode>(
+  payload: string,
+  codes: T[],
+  origin = window.location.origin,
+): DecodeMatch<T> {
+  const url = parseWebUrl(payload);
+  const host = url ? url.host : null;
+  const result = (verdict: DecodeVerdict, match: T | null = null) => ({ verdict, match, host });
+
+  // Dynamic codes print their short link; static ones print the URL or payload
+  const normalized = normalizePayload(payload);
+  const exact = codes.find(code => {
+    const encoded = code.is_dynamic && code.short_code ? `${origin}${SHORT_LINK_PREFIX}${code.short_code}` : code.url;
+    return normalizePayload(encoded) === normalized;
+  });
+  if (exact) return result('match', exact);
+  if (!url) return result('unknown_payload');
+
+  if (url.origin === origin) {
+    if (url.pathname.startsWith(SHORT_LINK_PREFIX)) {
+      const shortCode = url.pathname.slice(SHORT_LINK_PREFIX.length).replace(/\/+$/, '');
+      const dynamic = codes.find(code => code.is_dynamic && code.short_code === shortCode);
+      return dynamic ? result('match', dynamic) : result('unknown_link');
+    }
+    const qrId = url.searchParams.get('qr_id');
+    const tracked = qrId ? codes.find(code => code.id === qrId) : null;
+    if (tracked) return result('match', tracked);
+    if (url.pathname.startsWith(SERIAL_LINK_PREFIX) || url.pathname === SIGNED_LINK_PATH) return result('product');
+    return result('unknown_link');
+  }
+
+  // For dynamic codes, url holds the current destination
+  const knownHosts = new Set(codes.map(code => parseWebUrl(code.url)).filter(Boolean).map(bareHost));
+  return result(knownHosts.has(bareHost(url)) ? 'known_domain' : 'foreign_domain');
+}
@@ -0,0 +1,19 @@
+// Turns a QR code title into a filesystem-friendly base name
+export function toSafeFilename(title: string | null | undefined, fallback = 'qrcode'): string {
+  return (title || fallback)
+    .toLowerCase()
+    .replace(/[^a-z0-9\-_]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 50) || fallback;
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+}
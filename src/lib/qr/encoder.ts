@@ -0,0 +1,566 @@
+// QR Code Model 2 encoder following ISO/IEC 18004.
+// Supports numeric, alphanumeric and byte (UTF-8) segments, versions 1-40,
+// error correction levels L/M/Q/H and automatic or fixed mask selection.
+
+export type ErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export type SegmentMode = 'numeric' | 'alphanumeric' | 'byte';
+
+export interface QRSegment {
+  mode: SegmentMode;
+  numChars: number;
+  bits: number[];
+}
+
+export interface QRMatrix {
+  version: number;
+  size: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  mask: number;
+  // modules[y][x] is true for a dark module
+  modules: boolean[][];
+  // true for finder, timing, alignment, format and version modules
+  functionModules: boolean[][];
+}
+
+export interface EncodeOptions {
+  errorCorrectionLevel?: ErrorCorrectionLevel;
+  minVersion?: number;
+  maxVersion?: number;
+  // 0-7 forces a mask pattern, 'auto' picks the lowest penalty score
+  mask?: number | 'auto';
+  // Raise the error correction level when it fits in the chosen version
+  boostErrorCorrection?: boolean;
+}
+
+export const ERROR_CORRECTION_LEVELS: ErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H'];
+
+export const MIN_VERSION = 1;
+export const MAX_VERSION = 40;
+
+const ECL_ORDINAL: Record<ErrorCorrectionLevel, number> = { L: 0, M: 1, Q: 2, H: 3 };
+const ECL_FORMAT_BITS: Record<ErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Indexed by [ecl ordinal][version]; index 0 is unused
+const ECC_CODEWORDS_PER_BLOCK: number[][] = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+
+const NUM_ERROR_CORRECTION_BLOCKS: number[][] = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+const MODE_INDICATORS: Record<SegmentMode, number> = {
+  numeric: 0x1,
+  alphanumeric: 0x2,
+  byte: 0x4,
+};
+
+// Character count indicator widths for versions 1-9, 10-26 and 27-40
+const CHAR_COUNT_BITS: Record<SegmentMode, [number, number, number]> = {
+  numeric: [10, 12, 14],
+  alphanumeric: [9, 11, 13],
+  byte: [8, 16, 16],
+};
+
+const ALPHANUMERIC_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+const PENALTY_N1 = 3;
+const PENALTY_N2 = 3;
+const PENALTY_N3 = 40;
+const PENALTY_N4 = 10;
+
+export class QRCodeCapacityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QRCodeCapacityError';
+  }
+}
+
+function appendBits(bits: number[], value: number, length: number) {
+  for (let i = length - 1; i >= 0; i--) {
+    bits.push((value >>> i) & 1);
+  }
+}
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+function charCountBits(mode: SegmentMode, version: number): number {
+  const widths = CHAR_COUNT_BITS[mode];
+  return widths[version <= 9 ? 0 : version <= 26 ? 1 : 2];
+}
+
+export function isNumeric(text: string): boolean {
+  return /^[0-9]*$/.test(text);
+}
+
+export function isAlphanumeric(text: string): boolean {
+  for (const char of text) {
+    if (!ALPHANUMERIC_CHARSET.includes(char)) return false;
+  }
+  return true;
+}
+
+export function makeNumericSegment(digits: string): QRSegment {
+  if (!isNumeric(digits)) throw new Error('Numeric segment may only contain digits');
+  const bits: number[] = [];
+  for (let i = 0; i < digits.length; i += 3) {
+    const chunk = digits.substring(i, i + 3);
+    appendBits(bits, parseInt(chunk, 10), chunk.length * 3 + 1);
+  }
+  return { mode: 'numeric', numChars: digits.length, bits };
+}
+
+export function makeAlphanumericSegment(text: string): QRSegment {
+  if (!isAlphanumeric(text)) throw new Error('Text is not encodable in alphanumeric mode');
+  const bits: number[] = [];
+  let i = 0;
+  for (; i + 2 <= text.length; i += 2) {
+    const pair = ALPHANUMERIC_CHARSET.indexOf(text[i]) * 45 + ALPHANUMERIC_CHARSET.indexOf(text[i + 1]);
+    appendBits(bits, pair, 11);
+  }
+  if (i < text.length) {
+    appendBits(bits, ALPHANUMERIC_CHARSET.indexOf(text[i]), 6);
+  }
+  return { mode: 'alphanumeric', numChars: text.length, bits };
+}
+
+export function makeByteSegment(data: Uint8Array): QRSegment {
+  const bits: number[] = [];
+  data.forEach(byte => appendBits(bits, byte, 8));
+  return { mode: 'byte', numChars: data.length, bits };
+}
+
+// Picks the most compact single mode able to represent the whole text
+export function makeSegments(text: string): QRSegment[] {
+  if (text === '') return [];
+  if (isNumeric(text)) return [makeNumericSegment(text)];
+  if (isAlphanumeric(text)) return [makeAlphanumericSegment(text)];
+  return [makeByteSegment(new TextEncoder().encode(text))];
+}
+
+function totalSegmentBits(segments: QRSegment[], version: number): number {
+  let total = 0;
+  for (const segment of segments) {
+    const countBits = charCountBits(segment.mode, version);
+    if (segment.numChars >= 1 << countBits) return Infinity;
+    total += 4 + countBits + segment.bits.length;
+  }
+  return total;
+}
+
+// Number of modules available for data and ECC after function patterns
+function numRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function numDataCodewords(version: number, ecl: ErrorCorrectionLevel): number {
+  const ordinal = ECL_ORDINAL[ecl];
+  return Math.floor(numRawDataModules(version) / 8)
+    - ECC_CODEWORDS_PER_BLOCK[ordinal][version] * NUM_ERROR_CORRECTION_BLOCKS[ordinal][version];
+}
+
+// Maximum payload in bytes for the given version and level, in byte mode
+export function getByteCapacity(version: number, ecl: ErrorCorrectionLevel): number {
+  const dataBits = numDataCodewords(version, ecl) * 8;
+  return Math.floor((dataBits - 4 - charCountBits('byte', version)) / 8);
+}
+
+export function getAlignmentPatternPositions(version: number): number[] {
+  if (version === 1) return [];
+  const size = version * 4 + 17;
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const positions = [6];
+  for (let pos = size - 7; positions.length < numAlign; pos -= step) {
+    positions.splice(1, 0, pos);
+  }
+  return positions;
+}
+
+// --- Reed-Solomon over GF(2^8) with the 0x11D reducing polynomial ---
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ result.shift();
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+function addErrorCorrectionAndInterleave(data: number[], version: number, ecl: ErrorCorrectionLevel): number[] {
+  const ordinal = ECL_ORDINAL[ecl];
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[ordinal][version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[ordinal][version];
+  const rawCodewords = Math.floor(numRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = reedSolomonDivisor(blockEccLength);
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < numBlocks; i++) {
+    const blockDataLength = shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1);
+    const blockData = data.slice(offset, offset + blockDataLength);
+    offset += blockDataLength;
+    const ecc = reedSolomonRemainder(blockData, divisor);
+    // Short blocks get a placeholder so every block has the same length
+    if (i < numShortBlocks) blockData.push(0);
+    blocks.push(blockData.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+// --- Module placement ---
+
+class ModuleGrid {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  setFunctionModule(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  drawFunctionPatterns() {
+    const { size } = this;
+    for (let i = 0; i < size; i++) {
+      this.setFunctionModule(6, i, i % 2 === 0);
+      this.setFunctionModule(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinderPattern(3, 3);
+    this.drawFinderPattern(size - 4, 3);
+    this.drawFinderPattern(3, size - 4);
+
+    const alignPositions = getAlignmentPatternPositions(this.version);
+    const last = alignPositions.length - 1;
+    alignPositions.forEach((x, i) => {
+      alignPositions.forEach((y, j) => {
+        const overlapsFinder = (i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0);
+        if (!overlapsFinder) this.drawAlignmentPattern(x, y);
+      });
+    });
+
+    // Reserve the format areas with a dummy mask; real bits are drawn later
+    this.drawFormatBits('L', 0);
+    this.drawVersion();
+  }
+
+  private drawFinderPattern(cx: number, cy: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x >= 0 && x < this.size && y >= 0 && y < this.size) {
+          this.setFunctionModule(x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(cx: number, cy: number) {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunctionModule(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  drawFormatBits(ecl: ErrorCorrectionLevel, mask: number) {
+    const data = (ECL_FORMAT_BITS[ecl] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const { size } = this;
+
+    // First copy, around the top-left finder
+    for (let i = 0; i <= 5; i++) this.setFunctionModule(8, i, getBit(bits, i));
+    this.setFunctionModule(8, 7, getBit(bits, 6));
+    this.setFunctionModule(8, 8, getBit(bits, 7));
+    this.setFunctionModule(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunctionModule(14 - i, 8, getBit(bits, i));
+
+    // Second copy, split between the other two finders
+    for (let i = 0; i < 8; i++) this.setFunctionModule(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.setFunctionModule(8, size - 15 + i, getBit(bits, i));
+    this.setFunctionModule(8, size - 8, true);
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return;
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const dark = getBit(bits, i);
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunctionModule(a, b, dark);
+      this.setFunctionModule(b, a, dark);
+    }
+  }
+
+  drawCodewords(codewords: number[]) {
+    const { size } = this;
+    let bitIndex = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      // Skip the vertical timing pattern
+      if (right === 6) right = 5;
+      for (let vertical = 0; vertical < size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? size - 1 - vertical : vertical;
+          if (!this.isFunction[y][x] && bitIndex < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[bitIndex >>> 3], 7 - (bitIndex & 7));
+            bitIndex++;
+          }
+        }
+      }
+    }
+  }
+
+  // Applying the same mask twice undoes it
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && maskCondition(mask, x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  penaltyScore(): number {
+    const { size, modules } = this;
+    let score = 0;
+
+    // Rule 1: runs of five or more same-colored modules in a row or column
+    for (let i = 0; i < size; i++) {
+      let rowRun = 1;
+      let columnRun = 1;
+      for (let j = 1; j < size; j++) {
+        if (modules[i][j] === modules[i][j - 1]) {
+          rowRun++;
+        } else {
+          if (rowRun >= 5) score += PENALTY_N1 + rowRun - 5;
+          rowRun = 1;
+        }
+        if (modules[j][i] === modules[j - 1][i]) {
+          columnRun++;
+        } else {
+          if (columnRun >= 5) score += PENALTY_N1 + columnRun - 5;
+          columnRun = 1;
+        }
+      }
+      if (rowRun >= 5) score += PENALTY_N1 + rowRun - 5;
+      if (columnRun >= 5) score += PENALTY_N1 + columnRun - 5;
+    }
+
+    // Rule 2: 2x2 blocks of the same color
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = modules[y][x];
+        if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+          score += PENALTY_N2;
+        }
+      }
+    }
+
+    // Rule 3: finder-like 1:1:3:1:1 patterns with four light modules on one side
+    const light = (x: number, y: number) => x < 0 || x >= size || y < 0 || y >= size || !modules[y][x];
+    const isFinderLike = (get: (k: number) => boolean) =>
+      get(0) && !get(1) && get(2) && get(3) && get(4) && !get(5) && get(6);
+    for (let i = 0; i < size; i++) {
+      for (let j = -4; j < size; j++) {
+        const inRow = (k: number) => !light(j + k, i);
+        if (isFinderLike(inRow)) {
+          const before = [-1, -2, -3, -4].every(k => light(j + k, i));
+          const after = [7, 8, 9, 10].every(k => light(j + k, i));
+          if (before || after) score += PENALTY_N3;
+        }
+        const inColumn = (k: number) => !light(i, j + k);
+        if (isFinderLike(inColumn)) {
+          const before = [-1, -2, -3, -4].every(k => light(i, j + k));
+          const after = [7, 8, 9, 10].every(k => light(i, j + k));
+          if (before || after) score += PENALTY_N3;
+        }
+      }
+    }
+
+    // Rule 4: deviation of the dark module ratio from 50%
+    let dark = 0;
+    modules.forEach(row => row.forEach(module => { if (module) dark++; }));
+    const total = size * size;
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+    score += Math.max(0, k) * PENALTY_N4;
+
+    return score;
+  }
+}
+
+function maskCondition(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    case 7: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: throw new Error(`Invalid mask pattern: ${mask}`);
+  }
+}
+
+export function encodeSegments(segments: QRSegment[], options: EncodeOptions = {}): QRMatrix {
+  const {
+    minVersion = MIN_VERSION,
+    maxVersion = MAX_VERSION,
+    mask = 'auto',
+    boostErrorCorrection = false,
+  } = options;
+  let ecl = options.errorCorrectionLevel ?? 'M';
+
+  if (minVersion < MIN_VERSION || maxVersion > MAX_VERSION || minVersion > maxVersion) {
+    throw new Error('Invalid version range');
+  }
+  if (mask !== 'auto' && (mask < 0 || mask > 7)) {
+    throw new Error('Mask must be between 0 and 7');
+  }
+
+  let version = minVersion;
+  let dataBits = totalSegmentBits(segments, version);
+  while (dataBits > numDataCodewords(version, ecl) * 8) {
+    if (version >= maxVersion) {
+      throw new QRCodeCapacityError('Data is too long to fit in a QR code at this error correction level');
+    }
+    version++;
+    dataBits = totalSegmentBits(segments, version);
+  }
+
+  if (boostErrorCorrection) {
+    for (const candidate of ['M', 'Q', 'H'] as ErrorCorrectionLevel[]) {
+      if (ECL_ORDINAL[candidate] > ECL_ORDINAL[ecl] && dataBits <= numDataCodewords(version, candidate) * 8) {
+        ecl = candidate;
+      }
+    }
+  }
+
+  const bits: number[] = [];
+  for (const segment of segments) {
+    appendBits(bits, MODE_INDICATORS[segment.mode], 4);
+    appendBits(bits, segment.numChars, charCountBits(segment.mode, version));
+    bits.push(...segment.bits);
+  }
+
+  const capacityBits = numDataCodewords(version, ecl) * 8;
+  appendBits(bits, 0, Math.min(4, capacityBits - bits.length));
+  appendBits(bits, 0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    appendBits(bits, pad, 8);
+  }
+
+  const dataCodewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    let byte = 0;
+    for (let j = 0; j < 8; j++) byte = (byte << 1) | bits[i + j];
+    dataCodewords.push(byte);
+  }
+
+  const grid = new ModuleGrid(version);
+  grid.drawFunctionPatterns();
+  grid.drawCodewords(addErrorCorrectionAndInterleave(dataCodewords, version, ecl));
+
+  let chosenMask = mask === 'auto' ? 0 : mask;
+  if (mask === 'auto') {
+    let minPenalty = Infinity;
+    for (let candidate = 0; candidate < 8; candidate++) {
+      grid.applyMask(candidate);
+      grid.drawFormatBits(ecl, candidate);
+      const penalty = grid.penaltyScore();
+      if (penalty < minPenalty) {
+        minPenalty = penalty;
+        chosenMask = candidate;
+      }
+      grid.applyMask(candidate);
+    }
+  }
+  grid.applyMask(chosenMask);
+  grid.drawFormatBits(ecl, chosenMask);
+
+  return {
+    version,
+    size: grid.size,
+    errorCorrectionLevel: ecl,
+    mask: chosenMask,
+    modules: grid.modules,
+    functionModules: grid.isFunction,
+  };
+}
+
+export function encodeText(text: string, options: EncodeOptions = {}): QRMatrix {
+  return encodeSegments(makeSegments(text), options);
+}
@@ -0,0 +1,129 @@
+// Encapsulated PostScript (level 3) writer for QR scenes. EPS has no
+// transparency, so the logo is flattened onto the QR background.
+
+import { getFrameFont } from './fonts';
+import { QRPaint, QRScene } from './render';
+import { roundedRectPath } from './shapes';
+import {
+  colorComponents,
+  ColorMode,
+  formatNumber as n,
+  getLogoPixels,
+  packPixels,
+  toPostfixPath,
+  VectorPageOptions,
+} from './vector';
+
+const PATH_OPERATORS = { move: 'moveto', line: 'lineto', curve: 'curveto', close: 'closepath' };
+const MAX_LOGO_PIXELS = 512;
+
+// PostScript string literal; the standard fonts only cover ASCII here
+function psString(text: string): string {
+  let out = '(';
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 63;
+    if (char === '(' || char === ')' || char === '\\') {
+      out += `\\${char}`;
+    } else {
+      out += code >= 32 && code <= 126 ? char : '?';
+    }
+  }
+  return `${out})`;
+}
+
+function setColor(hex: string, mode: ColorMode): string {
+  const components = colorComponents(hex, mode).map(n).join(' ');
+  return mode === 'cmyk' ? `${components} setcmykcolor` : `${components} setrgbcolor`;
+}
+
+function shading(paint: Exclude<QRPaint, { type: 'solid' }>, mode: ColorMode): string {
+  const colorSpace = mode === 'cmyk' ? '/DeviceCMYK' : '/DeviceRGB';
+  const c0 = colorComponents(paint.from, mode).map(n).join(' ');
+  const c1 = colorComponents(paint.to, mode).map(n).join(' ');
+  const coords = paint.type === 'linear'
+    ? [paint.x1, paint.y1, paint.x2, paint.y2]
+    : [paint.cx, paint.cy, 0, paint.cx, paint.cy, paint.r];
+  return `<< /ShadingType ${paint.type === 'linear' ? 2 : 3} /ColorSpace ${colorSpace} /Coords [${coords.map(n).join(' ')}] ` +
+    `/Function << /FunctionType 2 /Domain [0 1] /C0 [${c0}] /C1 [${c1}] /N 1 >> /Extend [true true] >> shfill`;
+}
+
+function hexLines(data: Uint8Array): string {
+  const lines: string[] = [];
+  for (let i = 0; i < data.length; i += 40) {
+    lines.push(Array.from(data.subarray(i, i + 40), byte => byte.toString(16).padStart(2, '0')).join(''));
+  }
+  return lines.join('\n');
+}
+
+export function renderSceneToEps(scene: QRScene, { scale, bleed, colorMode, title }: VectorPageOptions): string {
+  const pageWidth = scene.width * scale + bleed * 2;
+  const pageHeight = scene.height * scale + bleed * 2;
+  const path = (d: string) => `newpath\n${toPostfixPath(d, PATH_OPERATORS)}`;
+
+  const lines = [
+    '%!PS-Adobe-3.0 EPSF-3.0',
+    `%%BoundingBox: 0 0 ${Math.ceil(pageWidth)} ${Math.ceil(pageHeight)}`,
+    `%%HiResBoundingBox: 0 0 ${n(pageWidth)} ${n(pageHeight)}`,
+    `%%Title: ${title.replace(/[\r\n]/g, ' ')}`,
+    '%%Creator: brand-link-nexus',
+    '%%LanguageLevel: 3',
+    '%%EndComments',
+    'save',
+    // Work in module units with the origin at the top-left of the artwork
+    `0 ${n(pageHeight)} translate 1 -1 scale`,
+    `${n(bleed)} ${n(bleed)} translate ${n(scale)} ${n(scale)} scale`,
+  ];
+  if (bleed > 0) {
+    const b = bleed / scale;
+    lines.push(setColor(scene.backgroundColor, colorMode), `${n(-b)} ${n(-b)} ${n(scene.width + b * 2)} ${n(scene.height + b * 2)} rectfill`);
+  }
+  scene.frameShapes.forEach(shape => {
+    lines.push(setColor(shape.color, colorMode), path(shape.path), shape.evenOdd ? 'eofill' : 'fill');
+  });
+
+  lines.push('gsave', `${n(scene.qrX)} ${n(scene.qrY)} translate`);
+  const radius = Math.min(scene.cornerRadius, scene.dimension / 2);
+  lines.push(
+    setColor(scene.backgroundColor, colorMode),
+    path(roundedRectPath(0, 0, scene.dimension, scene.dimension, [radius, radius, radius, radius])),
+    'fill',
+  );
+  scene.layers.forEach(layer => {
+    if (!layer.path) return;
+    if (layer.paint.type === 'solid') {
+      lines.push(setColor(layer.paint.color, colorMode), path(layer.path), layer.evenOdd ? 'eofill' : 'fill');
+    } else {
+      lines.push('gsave', path(layer.path), layer.evenOdd ? 'eoclip' : 'clip', 'newpath', shading(layer.paint, colorMode), 'grestore');
+    }
+  });
+  if (scene.logo) {
+    const { logo, x, y, width, height } = scene.logo;
+    const pixels = getLogoPixels(logo, MAX_LOGO_PIXELS);
+    const channels = colorMode === 'cmyk' ? 4 : 3;
+    lines.push(
+      'gsave',
+      `${n(x)} ${n(y)} translate ${n(width)} ${n(height)} scale`,
+      colorMode === 'cmyk' ? '/DeviceCMYK setcolorspace' : '/DeviceRGB setcolorspace',
+      `<< /ImageType 1 /Width ${pixels.width} /Height ${pixels.height} /BitsPerComponent 8 ` +
+        `/Decode [${Array(channels).fill('0 1').join(' ')}] /ImageMatrix [${pixels.width} 0 0 ${pixels.height} 0 0] ` +
+        '/DataSource currentfile /ASCIIHexDecode filter >> image',
+      `${hexLines(packPixels(pixels, colorMode, scene.backgroundColor))}>`,
+      'grestore',
+    );
+  }
+  lines.push('grestore');
+
+  if (scene.caption) {
+    const { text, font, color, fontSize, x, y } = scene.caption;
+    lines.push(
+      setColor(color, colorMode),
+      'gsave',
+      `${n(x)} ${n(y)} translate 1 -1 scale`,
+      `/${getFrameFont(font).pdfName} findfont ${n(fontSize)} scalefont setfont`,
+      `${psString(text)} dup stringwidth pop -2 div 0 moveto show`,
+      'grestore',
+    );
+  }
+  lines.push('restore', 'showpage', '%%EOF');
+  return `${lines.join('\n')}\n`;
+}
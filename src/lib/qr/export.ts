@@ -0,0 +1,130 @@
+// Print-ready exports with a physical size. PNG output is rasterized at the
+// requested DPI; SVG, PDF and EPS stay vector.
+
+import { crc32 } from '../crc32';
+import { QRMatrix } from './encoder';
+import { renderSceneToEps } from './eps';
+import { renderSceneToPdf } from './pdf';
+import { buildQRScene, QRRenderOptions, renderQRToPngBlob, renderSceneToSvg } from './render';
+import { formatNumber } from './vector';
+
+export type ExportFormat = 'png' | 'svg' | 'pdf' | 'eps';
+export type PrintUnit = 'mm' | 'in';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; mimeType: string; vector: boolean }[] = [
+  { value: 'png', label: 'PNG (raster)', mimeType: 'image/png', vector: false },
+  { value: 'svg', label: 'SVG', mimeType: 'image/svg+xml', vector: true },
+  { value: 'pdf', label: 'PDF', mimeType: 'application/pdf', vector: true },
+  { value: 'eps', label: 'EPS', mimeType: 'application/postscript', vector: true },
+];
+
+export const PRINT_UNITS: { value: PrintUnit; label: string }[] = [
+  { value: 'mm', label: 'mm' },
+  { value: 'in', label: 'inches' },
+];
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // Width of the artwork (frame and quiet zone included); height follows
+  width: number;
+  unit: PrintUnit;
+  // Raster resolution, PNG only
+  dpi: number;
+  // Quiet zone in modules
+  margin: number;
+  // Background extended past the trim edge, in `unit`; vector formats only
+  bleed: number;
+  // Write DeviceCMYK colors instead of RGB; PDF and EPS only
+  cmyk: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'pdf',
+  width: 50,
+  unit: 'mm',
+  dpi: 300,
+  margin: 4,
+  bleed: 0,
+  cmyk: false,
+};
+
+// Browsers refuse to allocate canvases much larger than this
+export const MAX_RASTER_PIXELS = 10000;
+
+const MM_PER_INCH = 25.4;
+const POINTS_PER_INCH = 72;
+
+export function toInches(value: number, unit: PrintUnit): number {
+  return unit === 'mm' ? value / MM_PER_INCH : value;
+}
+
+export function getExportFormat(format: ExportFormat) {
+  return EXPORT_FORMATS.find(info => info.value === format) ?? EXPORT_FORMATS[0];
+}
+
+// Pixel width of a PNG export
+export function rasterWidth(options: ExportOptions): number {
+  return Math.round(toInches(options.width, options.unit) * options.dpi);
+}
+
+// Adds a pHYs chunk so layout tools pick up the intended print size
+async function setPngDpi(blob: Blob, dpi: number): Promise<Blob> {
+  const png = new Uint8Array(await blob.arrayBuffer());
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4);
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1;
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+  // The signature (8 bytes) and IHDR chunk (25 bytes) always come first
+  const headerEnd = 33;
+  return new Blob([png.subarray(0, headerEnd), chunk, png.subarray(headerEnd)], { type: 'image/png' });
+}
+
+export async function exportQRCode(
+  matrix: QRMatrix,
+  renderOptions: QRRenderOptions,
+  options: ExportOptions,
+  title: string,
+): Promise<Blob> {
+  const sceneOptions = { ...renderOptions, margin: options.margin };
+  const scene = buildQRScene(matrix, sceneOptions);
+  const widthInches = toInches(options.width, options.unit);
+  if (!(widthInches > 0)) throw new Error('Export width must be greater than zero');
+
+  if (options.format === 'png') {
+    const pixels = rasterWidth(options);
+    if (pixels > MAX_RASTER_PIXELS) throw new Error('Image is too large; lower the size or DPI');
+    // `size` is the width of the code alone, so scale it down by the frame
+    const size = pixels * scene.dimension / scene.width;
+    const cornerRadius = (renderOptions.cornerRadius ?? 0) * size / (scene.pixelsPerModule * scene.dimension);
+    const blob = await renderQRToPngBlob(matrix, { ...sceneOptions, size, cornerRadius });
+    return setPngDpi(blob, options.dpi);
+  }
+
+  if (options.format === 'svg') {
+    const bleed = Math.max(0, options.bleed);
+    const width = options.width + bleed * 2;
+    const height = options.width * scene.height / scene.width + bleed * 2;
+    const svg = renderSceneToSvg(scene, {
+      width: `${formatNumber(width)}${options.unit}`,
+      height: `${formatNumber(height)}${options.unit}`,
+      bleed: bleed * scene.width / options.width,
+    });
+    return new Blob([svg], { type: 'image/svg+xml' });
+  }
+
+  const pageOptions = {
+    scale: widthInches * POINTS_PER_INCH / scene.width,
+    bleed: toInches(Math.max(0, options.bleed), options.unit) * POINTS_PER_INCH,
+    colorMode: options.cmyk ? 'cmyk' as const : 'rgb' as const,
+    title,
+  };
+  if (options.format === 'pdf') {
+    return new Blob([await renderSceneToPdf(scene, pageOptions)], { type: 'application/pdf' });
+  }
+  return new Blob([renderSceneToEps(scene, pageOptions)], { type: 'application/postscript' });
+}
@@ -0,0 +1,61 @@
+// Fonts available for frame captions. Each maps to a standard PDF font and
+// a metric-compatible CSS stack, so captions are laid out the same way in
+// every export format.
+
+export type FrameFont = 'sans' | 'serif' | 'mono';
+
+export interface FrameFontInfo {
+  value: FrameFont;
+  label: string;
+  cssFamily: string;
+  // Bold variant from the PDF standard 14 fonts
+  pdfName: string;
+}
+
+export const FRAME_FONTS: FrameFontInfo[] = [
+  { value: 'sans', label: 'Sans Serif', cssFamily: 'Helvetica, Arial, sans-serif', pdfName: 'Helvetica-Bold' },
+  { value: 'serif', label: 'Serif', cssFamily: '"Times New Roman", Times, serif', pdfName: 'Times-Bold' },
+  { value: 'mono', label: 'Monospace', cssFamily: '"Courier New", Courier, monospace', pdfName: 'Courier-Bold' },
+];
+
+// Advance widths of the printable ASCII range (32-126) in 1/1000 em, taken
+// from the Adobe font metrics of the bold standard fonts
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const TIMES_BOLD_WIDTHS = [
+  250, 333, 555, 500, 500, 1000, 833, 278, 333, 333, 500, 570, 250, 333, 250, 278,
+  500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 333, 333, 570, 570, 570, 500,
+  930, 722, 667, 722, 722, 667, 611, 778, 778, 389, 500, 778, 667, 944, 722, 778,
+  611, 778, 722, 556, 667, 722, 722, 1000, 722, 722, 667, 333, 278, 333, 581, 500,
+  333, 500, 556, 444, 556, 444, 333, 500, 556, 278, 333, 556, 278, 833, 556, 500,
+  556, 556, 444, 389, 333, 556, 500, 722, 500, 500, 444, 394, 220, 394, 520,
+];
+
+const COURIER_WIDTH = 600;
+
+function charWidth(font: FrameFont, code: number): number {
+  if (font === 'mono') return COURIER_WIDTH;
+  const widths = font === 'serif' ? TIMES_BOLD_WIDTHS : HELVETICA_BOLD_WIDTHS;
+  // Characters outside the table get an average uppercase width
+  return code >= 32 && code <= 126 ? widths[code - 32] : 667;
+}
+
+export function getFrameFont(font: FrameFont): FrameFontInfo {
+  return FRAME_FONTS.find(info => info.value === font) ?? FRAME_FONTS[0];
+}
+
+// Width of a single line of text at the given font size
+export function measureText(text: string, font: FrameFont, fontSize: number): number {
+  let units = 0;
+  for (const char of text) {
+    units += charWidth(font, char.codePointAt(0) ?? 32);
+  }
+  return (units / 1000) * fontSize;
+}
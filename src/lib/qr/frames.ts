@@ -0,0 +1,166 @@
+// Decorative frames with a call-to-action caption drawn around the QR code.
+// Layouts are in module units, like the QR geometry, so every exporter can
+// draw them with the same transform.
+
+import { FrameFont, measureText } from './fonts';
+import { circlePath, polygonPath, rectPath, roundedRectPath } from './shapes';
+
+export type FrameStyle = 'none' | 'banner' | 'tab' | 'badge' | 'phone';
+
+export const FRAME_STYLES: { value: FrameStyle; label: string }[] = [
+  { value: 'none', label: 'No Frame' },
+  { value: 'banner', label: 'Box with Banner' },
+  { value: 'tab', label: 'Bottom Tab' },
+  { value: 'badge', label: 'Circular Badge' },
+  { value: 'phone', label: 'Phone' },
+];
+
+export const DEFAULT_FRAME_TEXT = 'SCAN ME';
+
+export interface QRFrame {
+  style: FrameStyle;
+  text: string;
+  font: FrameFont;
+  color: string;
+  textColor: string;
+}
+
+export interface FrameShape {
+  path: string;
+  color: string;
+  evenOdd: boolean;
+}
+
+export interface FrameCaption {
+  text: string;
+  font: FrameFont;
+  color: string;
+  fontSize: number;
+  // Horizontal center and alphabetic baseline
+  x: number;
+  y: number;
+}
+
+export interface FrameLayout {
+  width: number;
+  height: number;
+  // Top-left corner of the QR code, quiet zone included
+  qrX: number;
+  qrY: number;
+  // Drawn below the QR code
+  shapes: FrameShape[];
+  // Drawn above everything else
+  caption: FrameCaption | null;
+}
+
+function rounded(x: number, y: number, width: number, height: number, radius: number): string {
+  return roundedRectPath(x, y, width, height, [radius, radius, radius, radius]);
+}
+
+// Centers a single-line caption on (cx, cy), shrinking it to fit maxWidth
+function fitCaption(frame: QRFrame, cx: number, cy: number, fontSize: number, maxWidth: number): FrameCaption | null {
+  const text = frame.text.trim();
+  if (!text) return null;
+  const width = measureText(text, frame.font, fontSize);
+  const size = width > maxWidth ? fontSize * maxWidth / width : fontSize;
+  return { text, font: frame.font, color: frame.textColor, fontSize: size, x: cx, y: cy + size * 0.35 };
+}
+
+// `dimension` is the QR width in modules; `screenColor` fills the cut-outs
+// of the phone frame and usually matches the QR background
+export function buildFrameLayout(dimension: number, frame: QRFrame | null, screenColor: string): FrameLayout {
+  const d = dimension;
+  const border = d * 0.05;
+  const radius = d * 0.06;
+  const padding = d * 0.06;
+
+  switch (frame?.style) {
+    case 'banner': {
+      const width = d + border * 2;
+      const gap = d * 0.05;
+      const bannerTop = width + gap;
+      const bannerHeight = d * 0.22;
+      const pointer = gap * 1.2;
+      const cx = width / 2;
+      return {
+        width,
+        height: bannerTop + bannerHeight,
+        qrX: border,
+        qrY: border,
+        shapes: [
+          { path: rounded(0, 0, width, width, radius) + rectPath(border, border, d, d), color: frame.color, evenOdd: true },
+          {
+            path: rounded(0, bannerTop, width, bannerHeight, radius) +
+              polygonPath([[cx - pointer, bannerTop], [cx, bannerTop - pointer], [cx + pointer, bannerTop]]),
+            color: frame.color,
+            evenOdd: false,
+          },
+        ],
+        caption: fitCaption(frame, cx, bannerTop + bannerHeight / 2, bannerHeight * 0.5, width - padding * 2),
+      };
+    }
+    case 'tab': {
+      const width = d + border * 2;
+      const tabWidth = width * 0.7;
+      const tabHeight = d * 0.2;
+      const tabX = (width - tabWidth) / 2;
+      return {
+        width,
+        height: width + tabHeight,
+        qrX: border,
+        qrY: border,
+        shapes: [
+          { path: rounded(0, 0, width, width, radius) + rectPath(border, border, d, d), color: frame.color, evenOdd: true },
+          // Starts inside the bottom border so the two shapes join without a seam
+          {
+            path: roundedRectPath(tabX, width - border, tabWidth, tabHeight + border, [0, 0, radius, radius]),
+            color: frame.color,
+            evenOdd: false,
+          },
+        ],
+        caption: fitCaption(frame, width / 2, width + tabHeight / 2, tabHeight * 0.55, tabWidth - padding * 2),
+      };
+    }
+    case 'badge': {
+      // The QR code sits slightly above center so its corners stay inside
+      // the circle and the caption fits underneath
+      const r = d * 0.85;
+      const qrY = r - d * 0.6;
+      return {
+        width: r * 2,
+        height: r * 2,
+        qrX: r - d / 2,
+        qrY,
+        shapes: [{ path: circlePath(r, r, r), color: frame.color, evenOdd: false }],
+        caption: fitCaption(frame, r, r + d * 0.6, d * 0.14, d),
+      };
+    }
+    case 'phone': {
+      const side = d * 0.07;
+      const top = d * 0.2;
+      const bottom = d * 0.38;
+      const width = d + side * 2;
+      const height = top + d + bottom;
+      const speakerWidth = d * 0.24;
+      const speakerHeight = d * 0.035;
+      return {
+        width,
+        height,
+        qrX: side,
+        qrY: top,
+        shapes: [
+          { path: rounded(0, 0, width, height, d * 0.14), color: frame.color, evenOdd: false },
+          {
+            path: rounded((width - speakerWidth) / 2, (top - speakerHeight) / 2, speakerWidth, speakerHeight, speakerHeight / 2) +
+              circlePath(width / 2, height - bottom * 0.3, d * 0.065),
+            color: screenColor,
+            evenOdd: false,
+          },
+        ],
+        caption: fitCaption(frame, width / 2, top + d + bottom * 0.32, d * 0.11, d),
+      };
+    }
+    default:
+      return { width: d, height: d, qrX: 0, qrY: 0, shapes: [], caption: null };
+  }
+}
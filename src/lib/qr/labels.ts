@@ -0,0 +1,305 @@
+// Printable label sheets: QR codes tiled onto Avery-style templates or a
+// custom grid, with an optional title and serial under or beside each code.
+// Sizes are in millimetres; the PDF writer works in points.
+
+import { FrameFont, measureText } from './fonts';
+import { createLogoCache } from './logo';
+import { PdfSheetPage, renderSheetsToPdf } from './pdf';
+import { buildQRScene, QRScene } from './render';
+import { encodeWithSettings, QRDesignSettings, toRenderOptions } from './settings';
+
+export type PaperSize = 'a4' | 'letter';
+
+export const PAPER_SIZES: Record<PaperSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 210, height: 297 },
+  letter: { label: 'US Letter', width: 215.9, height: 279.4 },
+};
+
+export interface SheetLayout {
+  paper: PaperSize;
+  rows: number;
+  columns: number;
+  // Top-left corner of the first label
+  top: number;
+  left: number;
+  labelWidth: number;
+  labelHeight: number;
+  columnGap: number;
+  rowGap: number;
+  // Only used for the alignment outlines
+  cornerRadius: number;
+}
+
+export interface LabelTemplate {
+  id: string;
+  label: string;
+  layout: SheetLayout;
+}
+
+export const LABEL_TEMPLATES: LabelTemplate[] = [
+  {
+    id: 'avery-5160',
+    label: 'Avery 5160 — 30 per sheet (Letter)',
+    layout: { paper: 'letter', rows: 10, columns: 3, top: 12.7, left: 4.7625, labelWidth: 66.675, labelHeight: 25.4, columnGap: 3.175, rowGap: 0, cornerRadius: 1.5 },
+  },
+  {
+    id: 'avery-5163',
+    label: 'Avery 5163 — 10 per sheet (Letter)',
+    layout: { paper: 'letter', rows: 5, columns: 2, top: 12.7, left: 3.96875, labelWidth: 101.6, labelHeight: 50.8, columnGap: 4.7625, rowGap: 0, cornerRadius: 1.5 },
+  },
+  {
+    id: 'avery-l7160',
+    label: 'Avery L7160 — 21 per sheet (A4)',
+    layout: { paper: 'a4', rows: 7, columns: 3, top: 15.15, left: 7.21, labelWidth: 63.5, labelHeight: 38.1, columnGap: 2.54, rowGap: 0, cornerRadius: 2 },
+  },
+  {
+    id: 'avery-l7163',
+    label: 'Avery L7163 — 14 per sheet (A4)',
+    layout: { paper: 'a4', rows: 7, columns: 2, top: 15.15, left: 4.65, labelWidth: 99.1, labelHeight: 38.1, columnGap: 2.5, rowGap: 0, cornerRadius: 2 },
+  },
+];
+
+export const CUSTOM_TEMPLATE = 'custom';
+
+// Label size follows from the paper, margins and gaps
+export interface CustomSheetGrid {
+  paper: PaperSize;
+  rows: number;
+  columns: number;
+  marginX: number;
+  marginY: number;
+  gap: number;
+}
+
+export interface LabelSheetOptions {
+  // A LABEL_TEMPLATES id or CUSTOM_TEMPLATE
+  template: string;
+  custom: CustomSheetGrid;
+  showTitle: boolean;
+  showSerial: boolean;
+  copies: number;
+  // Labels already peeled off the first sheet
+  skip: number;
+  // Thin label outlines, for checking alignment on plain paper
+  outlines: boolean;
+}
+
+export const DEFAULT_LABEL_OPTIONS: LabelSheetOptions = {
+  template: LABEL_TEMPLATES[0].id,
+  custom: { paper: 'a4', rows: 8, columns: 3, marginX: 8, marginY: 10, gap: 3 },
+  showTitle: true,
+  showSerial: true,
+  copies: 1,
+  skip: 0,
+  outlines: false,
+};
+
+export interface LabelItem {
+  title: string;
+  // Serial number or short link printed under the title
+  serial: string | null;
+  // What the code encodes
+  content: string;
+  settings: QRDesignSettings;
+}
+
+export const MAX_GRID_SIZE = 20;
+export const MAX_LABEL_COPIES = 100;
+// Codes smaller than this are hard to scan from a phone
+export const MIN_QR_SIZE = 15;
+
+const POINTS_PER_MM = 72 / 25.4;
+// The label stock around the code adds to this quiet zone
+const LABEL_QUIET_ZONE = 2;
+const TITLE_FONT: FrameFont = 'sans';
+const SERIAL_FONT: FrameFont = 'mono';
+const TEXT_COLOR = '#000000';
+const ELLIPSIS = '...';
+
+export function resolveSheetLayout(options: LabelSheetOptions): SheetLayout {
+  const template = LABEL_TEMPLATES.find(item => item.id === options.template);
+  if (template) return template.layout;
+
+  const { paper, rows, columns, marginX, marginY, gap } = options.custom;
+  const { width, height } = PAPER_SIZES[paper];
+  return {
+    paper,
+    rows,
+    columns,
+    top: marginY,
+    left: marginX,
+    labelWidth: (width - marginX * 2 - gap * (columns - 1)) / columns,
+    labelHeight: (height - marginY * 2 - gap * (rows - 1)) / rows,
+    columnGap: gap,
+    rowGap: gap,
+    cornerRadius: 0,
+  };
+}
+
+export function labelsPerSheet(layout: SheetLayout): number {
+  return layout.rows * layout.columns;
+}
+
+export function validateLabelOptions(options: LabelSheetOptions): string | null {
+  const { rows, columns, marginX, marginY, gap } = options.custom;
+  if (options.template === CUSTOM_TEMPLATE) {
+    if (![rows, columns].every(value => Number.isInteger(value) && value >= 1 && value <= MAX_GRID_SIZE)) {
+      return `Rows and columns must be whole numbers from 1 to ${MAX_GRID_SIZE}`;
+    }
+    if (![marginX, marginY, gap].every(value => Number.isFinite(value) && value >= 0)) {
+      return 'Margins and gaps cannot be negative';
+    }
+    const layout = resolveSheetLayout(options);
+    if (layout.labelWidth < MIN_QR_SIZE || layout.labelHeight < MIN_QR_SIZE) {
+      return 'Labels are too small; use fewer rows or columns, or smaller margins';
+    }
+  }
+  if (!Number.isInteger(options.copies) || options.copies < 1 || options.copies > MAX_LABEL_COPIES) {
+    return `Copies must be a whole number from 1 to ${MAX_LABEL_COPIES}`;
+  }
+  const perSheet = labelsPerSheet(resolveSheetLayout(options));
+  if (!Number.isInteger(options.skip) || options.skip < 0 || options.skip >= perSheet) {
+    return `Skipped labels must be a whole number below ${perSheet}`;
+  }
+  return null;
+}
+
+// Where the code and text go inside one label, relative to its top-left
+interface LabelContentLayout {
+  qrX: number;
+  qrY: number;
+  qrSize: number;
+  // Text starts here (left aligned) or is centered on it
+  textX: number;
+  textAlign: 'left' | 'center';
+  textWidth: number;
+  // Baselines of the title and serial lines, when shown
+  titleY: number;
+  serialY: number;
+  fontSize: number;
+}
+
+function layoutLabelContent(layout: SheetLayout, lines: number): LabelContentLayout {
+  const { labelWidth: width, labelHeight: height } = layout;
+  const padding = Math.min(2, width * 0.06, height * 0.06);
+  const innerWidth = width - padding * 2;
+  const innerHeight = height - padding * 2;
+  const fontSize = Math.min(9, Math.max(5, innerHeight * POINTS_PER_MM * 0.08));
+  const lineHeight = fontSize * 1.25 / POINTS_PER_MM;
+  const textHeight = lines * lineHeight;
+  const baselines = (top: number) => ({
+    titleY: top + fontSize * 0.95 / POINTS_PER_MM,
+    serialY: top + (lines > 1 ? lineHeight : 0) + fontSize * 0.95 / POINTS_PER_MM,
+  });
+
+  // Wide labels (address-style) read better with the text beside the code
+  if (lines > 0 && innerWidth >= innerHeight * 1.6) {
+    const qrSize = innerHeight;
+    return {
+      qrX: padding,
+      qrY: padding,
+      qrSize,
+      textX: padding * 2 + qrSize,
+      textAlign: 'left',
+      textWidth: innerWidth - qrSize - padding,
+      ...baselines(padding + (innerHeight - textHeight) / 2),
+      fontSize,
+    };
+  }
+
+  const qrSize = Math.max(0, Math.min(innerWidth, innerHeight - textHeight));
+  const top = padding + (innerHeight - qrSize - textHeight) / 2;
+  return {
+    qrX: (width - qrSize) / 2,
+    qrY: top,
+    qrSize,
+    textX: width / 2,
+    textAlign: 'center',
+    textWidth: innerWidth,
+    ...baselines(top + qrSize),
+    fontSize,
+  };
+}
+
+function countTextLines(options: LabelSheetOptions): number {
+  return Number(options.showTitle) + Number(options.showSerial);
+}
+
+// Printed width of the codes, for warning about labels that are too small
+export function getLabelQRSize(options: LabelSheetOptions): number {
+  return layoutLabelContent(resolveSheetLayout(options), countTextLines(options)).qrSize;
+}
+
+// Shortens the text with an ellipsis until it fits
+function fitText(text: string, font: FrameFont, fontSize: number, maxWidth: number): string {
+  if (measureText(text, font, fontSize) <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && measureText(`${text.slice(0, end).trimEnd()}${ELLIPSIS}`, font, fontSize) > maxWidth) end--;
+  return end > 0 ? `${text.slice(0, end).trimEnd()}${ELLIPSIS}` : '';
+}
+
+export async function renderLabelSheets(
+  items: LabelItem[],
+  options: LabelSheetOptions,
+  title: string,
+  onProgress?: (rendered: number, total: number) => void,
+): Promise<Blob> {
+  const error = validateLabelOptions(options);
+  if (error) throw new Error(error);
+  if (items.length === 0) throw new Error('No QR codes to print');
+
+  const layout = resolveSheetLayout(options);
+  const paper = PAPER_SIZES[layout.paper];
+  const perSheet = labelsPerSheet(layout);
+  const content = layoutLabelContent(layout, countTextLines(options));
+  const pt = (mm: number) => mm * POINTS_PER_MM;
+  const getLogo = createLogoCache();
+
+  // Copies of an item sit next to each other and share one scene
+  const scenes: QRScene[] = [];
+  for (let i = 0; i < items.length; i++) {
+    onProgress?.(i + 1, items.length);
+    const { content: data, settings } = items[i];
+    const logo = settings.logoUrl ? await getLogo(settings.logoUrl) : null;
+    const matrix = encodeWithSettings(data, settings);
+    scenes.push(buildQRScene(matrix, toRenderOptions(settings, { logo, frame: null, margin: LABEL_QUIET_ZONE })));
+  }
+
+  const total = options.skip + items.length * options.copies;
+  const pages: PdfSheetPage[] = [];
+  for (let slot = options.skip; slot < total; slot++) {
+    const index = Math.floor((slot - options.skip) / options.copies);
+    const item = items[index];
+    const pageIndex = Math.floor(slot / perSheet);
+    if (!pages[pageIndex]) {
+      pages[pageIndex] = { width: pt(paper.width), height: pt(paper.height), scenes: [], texts: [], outlines: [] };
+    }
+    const page = pages[pageIndex];
+    const position = slot % perSheet;
+    const x = layout.left + (position % layout.columns) * (layout.labelWidth + layout.columnGap);
+    const y = layout.top + Math.floor(position / layout.columns) * (layout.labelHeight + layout.rowGap);
+
+    if (options.outlines) {
+      page.outlines.push({ x: pt(x), y: pt(y), width: pt(layout.labelWidth), height: pt(layout.labelHeight), radius: pt(layout.cornerRadius) });
+    }
+    page.scenes.push({ scene: scenes[index], x: pt(x + content.qrX), y: pt(y + content.qrY), width: pt(content.qrSize) });
+
+    const addText = (text: string, font: FrameFont, baseline: number) => {
+      const fitted = fitText(text, font, content.fontSize, pt(content.textWidth));
+      if (!fitted) return;
+      page.texts.push({
+        text: fitted,
+        x: pt(x + content.textX),
+        y: pt(y + baseline),
+        align: content.textAlign,
+        font,
+        fontSize: content.fontSize,
+        color: TEXT_COLOR,
+      });
+    };
+    if (options.showTitle && item.title) addText(item.title, TITLE_FONT, content.titleY);
+    if (options.showSerial && item.serial) addText(item.serial, SERIAL_FONT, content.serialY);
+  }
+
+  return new Blob([await renderSheetsToPdf(pages, 'rgb', title)], { type: 'application/pdf' });
+}
@@ -0,0 +1,68 @@
+// Logo occupies at most this fraction of the symbol width. With error
+// correction level H this keeps the knocked-out area well below the 30%
+// of codewords the symbol can recover.
+export const MAX_LOGO_SCALE = 0.3;
+export const MIN_LOGO_SCALE = 0.1;
+export const DEFAULT_LOGO_SCALE = 0.2;
+
+export interface QRLogo {
+  // Data URL so SVG exports stay self-contained
+  dataUrl: string;
+  image: HTMLImageElement;
+  width: number;
+  height: number;
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load logo image'));
+    image.src = src;
+  });
+}
+
+export async function loadQRLogo(url: string): Promise<QRLogo> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to fetch logo: ${response.status}`);
+  const dataUrl = await blobToDataUrl(await response.blob());
+  const image = await loadImage(dataUrl);
+  return { dataUrl, image, width: image.naturalWidth, height: image.naturalHeight };
+}
+
+// Fetches each logo URL once, for exports where many codes share a logo.
+// Failed logos are logged and resolve to null so the codes still render.
+export function createLogoCache(): (url: string) => Promise<QRLogo | null> {
+  const logos = new Map<string, Promise<QRLogo | null>>();
+  return url => {
+    if (!logos.has(url)) {
+      logos.set(url, loadQRLogo(url).catch(error => {
+        console.error('Logo load error:', error);
+        return null;
+      }));
+    }
+    return logos.get(url);
+  };
+}
+
+// Fits the logo inside a square box while keeping its aspect ratio
+export function fitLogo(logo: QRLogo, box: { x: number; y: number; size: number }) {
+  const ratio = logo.width && logo.height ? logo.width / logo.height : 1;
+  const width = ratio >= 1 ? box.size : box.size * ratio;
+  const height = ratio >= 1 ? box.size / ratio : box.size;
+  return {
+    x: box.x + (box.size - width) / 2,
+    y: box.y + (box.size - height) / 2,
+    width,
+    height,
+  };
+}
@@ -0,0 +1,123 @@
+// Search, filtering and sorting for the QR code list, plus tag helpers.
+// Folder and campaign filters use 'all', 'none' or a row id.
+
+export const ALL = 'all';
+export const NONE = 'none';
+
+export type QRSortKey = 'newest' | 'oldest' | 'most_scans' | 'fewest_scans' | 'title' | 'type';
+
+export const QR_SORT_OPTIONS: { value: QRSortKey; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'most_scans', label: 'Most scans' },
+  { value: 'fewest_scans', label: 'Fewest scans' },
+  { value: 'title', label: 'Title' },
+  { value: 'type', label: 'Destination type' },
+];
+
+export const MAX_TAG_LENGTH = 40;
+
+// A qr_folders or qr_campaigns row
+export interface QRCollection {
+  id: string;
+  name: string;
+}
+
+// Editor state for a single code
+export interface QROrganizeValue {
+  folderId: string | null;
+  campaignId: string | null;
+  // Comma-separated, parsed with parseTags on save
+  tags: string;
+}
+
+export const EMPTY_ORGANIZE: QROrganizeValue = { folderId: null, campaignId: null, tags: '' };
+
+export interface OrganizableCode {
+  title: string;
+  description: string | null;
+  url: string;
+  short_code: string | null;
+  qr_type: string;
+  views: number | null;
+  created_at: string;
+  folder_id: string | null;
+  campaign_id: string | null;
+  tags: string[] | null;
+}
+
+export interface QRListFilters {
+  search: string;
+  folder: string;
+  campaign: string;
+  tag: string;
+  type: string;
+  sort: QRSortKey;
+}
+
+export const DEFAULT_FILTERS: QRListFilters = {
+  search: '',
+  folder: ALL,
+  campaign: ALL,
+  tag: ALL,
+  type: ALL,
+  sort: 'newest',
+};
+
+export function hasActiveFilters(filters: QRListFilters): boolean {
+  return (['search', 'folder', 'campaign', 'tag', 'type'] as const).some(key => filters[key] !== DEFAULT_FILTERS[key]);
+}
+
+// Tags are compared case-insensitively, so store them lower case
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase().slice(0, MAX_TAG_LENGTH);
+}
+
+export function parseTags(text: string): string[] {
+  return Array.from(new Set(text.split(',').map(normalizeTag).filter(Boolean)));
+}
+
+export function collectTags(codes: OrganizableCode[]): string[] {
+  return Array.from(new Set(codes.flatMap(code => code.tags || []))).sort();
+}
+
+function matchesGroup(value: string | null, filter: string): boolean {
+  if (filter === ALL) return true;
+  if (filter === NONE) return !value;
+  return value === filter;
+}
+
+function matchesSearch(code: OrganizableCode, search: string, typeLabel: (type: string) => string): boolean {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const haystack = [code.title, code.description, code.url, code.short_code, typeLabel(code.qr_type), ...(code.tags || [])]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  return terms.every(term => haystack.includes(term));
+}
+
+export function filterAndSortCodes<T extends OrganizableCode>(
+  codes: T[],
+  filters: QRListFilters,
+  typeLabel: (type: string) => string = type => type,
+): T[] {
+  const visible = codes.filter(code =>
+    matchesGroup(code.folder_id, filters.folder) &&
+    matchesGroup(code.campaign_id, filters.campaign) &&
+    (filters.tag === ALL || (code.tags || []).includes(filters.tag)) &&
+    (filters.type === ALL || code.qr_type === filters.type) &&
+    matchesSearch(code, filters.search, typeLabel)
+  );
+
+  const byDate = (a: T, b: T) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+  const compare: Record<QRSortKey, (a: T, b: T) => number> = {
+    newest: byDate,
+    oldest: (a, b) => -byDate(a, b),
+    most_scans: (a, b) => (b.views || 0) - (a.views || 0) || byDate(a, b),
+    fewest_scans: (a, b) => (a.views || 0) - (b.views || 0) || byDate(a, b),
+    title: (a, b) => a.title.localeCompare(b.title),
+    type: (a, b) => typeLabel(a.qr_type).localeCompare(typeLabel(b.qr_type)) || byDate(a, b),
+  };
+  return [...visible].sort(compare[filters.sort]);
+}
@@ -0,0 +1,270 @@
+// Structured QR payloads. Each type has its form data, a builder for the
+// text that gets encoded and a validator for the form.
+
+import { EMAIL_PATTERN, escapeValue, foldLine, getDisplayName, parseVCardContact, PHONE_PATTERN } from './vcard';
+
+export type QRPayloadType = 'url' | 'text' | 'vcard' | 'wifi' | 'sms' | 'email' | 'phone' | 'geo' | 'event';
+export type WifiEncryption = 'WPA' | 'WEP' | 'nopass';
+
+export const QR_PAYLOAD_TYPES: { value: QRPayloadType; label: string }[] = [
+  { value: 'url', label: 'URL' },
+  { value: 'text', label: 'Text' },
+  { value: 'vcard', label: 'vCard' },
+  { value: 'wifi', label: 'WiFi' },
+  { value: 'sms', label: 'SMS' },
+  { value: 'email', label: 'Email' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'geo', label: 'Location' },
+  { value: 'event', label: 'Event' },
+];
+
+export const WIFI_ENCRYPTIONS: { value: WifiEncryption; label: string }[] = [
+  { value: 'WPA', label: 'WPA/WPA2/WPA3' },
+  { value: 'WEP', label: 'WEP' },
+  { value: 'nopass', label: 'None (open network)' },
+];
+
+export interface TextPayload {
+  text: string;
+}
+
+export interface WifiPayload {
+  ssid: string;
+  password: string;
+  encryption: WifiEncryption;
+  hidden: boolean;
+}
+
+export interface SmsPayload {
+  phone: string;
+  message: string;
+}
+
+export interface EmailPayload {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export interface PhonePayload {
+  phone: string;
+}
+
+export interface GeoPayload {
+  latitude: string;
+  longitude: string;
+  label: string;
+}
+
+export interface EventPayload {
+  title: string;
+  location: string;
+  description: string;
+  // `datetime-local` values, or `date` values for all-day events
+  start: string;
+  end: string;
+  allDay: boolean;
+}
+
+// Types whose form lives in this module; URL and vCard have their own
+export interface PayloadDataMap {
+  text: TextPayload;
+  wifi: WifiPayload;
+  sms: SmsPayload;
+  email: EmailPayload;
+  phone: PhonePayload;
+  geo: GeoPayload;
+  event: EventPayload;
+}
+
+export type StructuredPayloadType = keyof PayloadDataMap;
+
+export const DEFAULT_PAYLOADS: PayloadDataMap = {
+  text: { text: '' },
+  wifi: { ssid: '', password: '', encryption: 'WPA', hidden: false },
+  sms: { phone: '', message: '' },
+  email: { to: '', subject: '', body: '' },
+  phone: { phone: '' },
+  geo: { latitude: '', longitude: '', label: '' },
+  event: { title: '', location: '', description: '', start: '', end: '', allDay: false },
+};
+
+export function isStructuredPayloadType(type: string): type is StructuredPayloadType {
+  return type in DEFAULT_PAYLOADS;
+}
+
+export function getPayloadTypeLabel(type: string): string {
+  return QR_PAYLOAD_TYPES.find(option => option.value === type)?.label ?? 'URL';
+}
+
+// WiFi fields escape their delimiters with a backslash
+function escapeWifi(value: string): string {
+  return value.replace(/([\\;,:"])/g, '\\$1');
+}
+
+function normalizePhone(phone: string): string {
+  return phone.trim().replace(/[\s().-]/g, '');
+}
+
+// Basic iCalendar timestamps: UTC date-times, or floating dates for all-day events
+function formatICalDate(value: string, allDay: boolean): string {
+  if (allDay) return value.replace(/-/g, '');
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// All-day events end on the following day (DTEND is exclusive)
+function nextDay(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  return next.toISOString().slice(0, 10);
+}
+
+function buildEvent(event: EventPayload): string {
+  const end = event.end || (event.allDay ? event.start : '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//brand-link-nexus//QR Codes//EN',
+    'BEGIN:VEVENT',
+    `UID:${crypto.randomUUID()}`,
+    `DTSTAMP:${formatICalDate(new Date().toISOString(), false)}`,
+    `SUMMARY:${escapeValue(event.title.trim())}`,
+  ];
+  if (event.allDay) {
+    lines.push(`DTSTART;VALUE=DATE:${formatICalDate(event.start, true)}`, `DTEND;VALUE=DATE:${formatICalDate(nextDay(end), true)}`);
+  } else {
+    lines.push(`DTSTART:${formatICalDate(event.start, false)}`);
+    if (end) lines.push(`DTEND:${formatICalDate(end, false)}`);
+  }
+  if (event.location.trim()) lines.push(`LOCATION:${escapeValue(event.location.trim())}`);
+  if (event.description.trim()) lines.push(`DESCRIPTION:${escapeValue(event.description.trim())}`);
+  lines.push('END:VEVENT', 'END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+export function buildPayload<T extends StructuredPayloadType>(type: T, data: PayloadDataMap[T]): string {
+  switch (type) {
+    case 'text':
+      return (data as TextPayload).text;
+    case 'wifi': {
+      const { ssid, password, encryption, hidden } = data as WifiPayload;
+      // Hex-looking passwords must be quoted or scanners read them as raw keys
+      const quoted = /^[0-9a-f]+$/i.test(password) && password.length % 2 === 0 ? `"${password}"` : escapeWifi(password);
+      const parts = [`T:${encryption}`, `S:${escapeWifi(ssid)}`];
+      if (encryption !== 'nopass') parts.push(`P:${quoted}`);
+      if (hidden) parts.push('H:true');
+      return `WIFI:${parts.join(';')};;`;
+    }
+    case 'sms': {
+      const { phone, message } = data as SmsPayload;
+      return message.trim() ? `SMSTO:${normalizePhone(phone)}:${message.trim()}` : `SMSTO:${normalizePhone(phone)}`;
+    }
+    case 'email': {
+      const { to, subject, body } = data as EmailPayload;
+      const params = [
+        subject.trim() ? `subject=${encodeURIComponent(subject.trim())}` : '',
+        body.trim() ? `body=${encodeURIComponent(body.trim())}` : '',
+      ].filter(Boolean);
+      return `mailto:${to.trim()}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+    }
+    case 'phone':
+      return `tel:${normalizePhone((data as PhonePayload).phone)}`;
+    case 'geo': {
+      const { latitude, longitude, label } = data as GeoPayload;
+      const coords = `${Number(latitude)},${Number(longitude)}`;
+      return label.trim() ? `geo:${coords}?q=${coords}(${encodeURIComponent(label.trim())})` : `geo:${coords}`;
+    }
+    case 'event':
+      return buildEvent(data as EventPayload);
+    default:
+      return '';
+  }
+}
+
+// Returns a list of problems; an empty list means the payload can be built
+export function validatePayload<T extends StructuredPayloadType>(type: T, data: PayloadDataMap[T]): string[] {
+  const errors: string[] = [];
+  switch (type) {
+    case 'text':
+      if (!(data as TextPayload).text.trim()) errors.push('Enter some text');
+      break;
+    case 'wifi': {
+      const { ssid, password, encryption } = data as WifiPayload;
+      if (!ssid.trim()) errors.push('Enter the network name');
+      if (encryption === 'WPA' && (password.length < 8 || password.length > 63)) {
+        errors.push('WPA passwords are 8 to 63 characters long');
+      }
+      if (encryption === 'WEP' && ![5, 13, 10, 26].includes(password.length)) {
+        errors.push('WEP keys are 5 or 13 characters, or 10 or 26 hex digits');
+      }
+      break;
+    }
+    case 'sms':
+    case 'phone': {
+      const { phone } = data as SmsPayload | PhonePayload;
+      if (!PHONE_PATTERN.test(phone.trim())) errors.push('Enter a valid phone number');
+      break;
+    }
+    case 'email': {
+      const { to } = data as EmailPayload;
+      if (!EMAIL_PATTERN.test(to.trim())) errors.push('Enter a valid email address');
+      break;
+    }
+    case 'geo': {
+      const { latitude, longitude } = data as GeoPayload;
+      const lat = Number(latitude);
+      const lng = Number(longitude);
+      if (!latitude.trim() || isNaN(lat) || lat < -90 || lat > 90) errors.push('Latitude must be between -90 and 90');
+      if (!longitude.trim() || isNaN(lng) || lng < -180 || lng > 180) errors.push('Longitude must be between -180 and 180');
+      break;
+    }
+    case 'event': {
+      const { title, start, end } = data as EventPayload;
+      if (!title.trim()) errors.push('Enter an event title');
+      if (!start || isNaN(new Date(start).getTime())) errors.push('Enter a start time');
+      else if (end && new Date(end).getTime() < new Date(start).getTime()) errors.push('The event must end after it starts');
+      break;
+    }
+  }
+  return errors;
+}
+
+// Restores saved form data, keeping defaults for anything missing
+export function parsePayloadData<T extends StructuredPayloadType>(type: T, value: unknown): PayloadDataMap[T] {
+  const defaults = DEFAULT_PAYLOADS[type];
+  if (!value || typeof value !== 'object') return defaults;
+  const raw = value as Record<string, unknown>;
+  const result = { ...defaults } as Record<string, unknown>;
+  Object.entries(defaults).forEach(([key, fallback]) => {
+    if (typeof raw[key] === typeof fallback) result[key] = raw[key];
+  });
+  if (type === 'wifi' && !WIFI_ENCRYPTIONS.some(option => option.value === result.encryption)) {
+    result.encryption = 'WPA';
+  }
+  return result as unknown as PayloadDataMap[T];
+}
+
+// Short description of a saved payload for lists, or null for plain URLs
+export function describePayload(type: string, content: unknown): string | null {
+  const saved = content && typeof content === 'object' ? (content as Record<string, unknown>) : {};
+  if (type === 'vcard') return `Contact card: ${getDisplayName(parseVCardContact(saved.contact))}`;
+  if (!isStructuredPayloadType(type)) return null;
+  switch (type) {
+    case 'text':
+      return parsePayloadData('text', saved.data).text;
+    case 'wifi':
+      return `WiFi: ${parsePayloadData('wifi', saved.data).ssid}`;
+    case 'sms':
+      return `SMS to ${parsePayloadData('sms', saved.data).phone}`;
+    case 'email':
+      return `Email to ${parsePayloadData('email', saved.data).to}`;
+    case 'phone':
+      return `Call ${parsePayloadData('phone', saved.data).phone}`;
+    case 'geo': {
+      const geo = parsePayloadData('geo', saved.data);
+      return geo.label || `${geo.latitude}, ${geo.longitude}`;
+    }
+    case 'event':
+      return `Event: ${parsePayloadData('event', saved.data).title}`;
+  }
+}
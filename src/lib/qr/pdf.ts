@@ -0,0 +1,332 @@
+// Minimal PDF writer for QR scenes: single codes and multi-page label
+// sheets. Everything except the logo is drawn as vector paths; colors are
+// written in DeviceRGB or DeviceCMYK.
+
+import { FrameFont, getFrameFont, measureText } from './fonts';
+import { QRPaint, QRScene } from './render';
+import { roundedRectPath } from './shapes';
+import {
+  colorComponents,
+  ColorMode,
+  deflate,
+  formatNumber as n,
+  getLogoPixels,
+  packPixels,
+  toPostfixPath,
+  VectorPageOptions,
+} from './vector';
+
+const PATH_OPERATORS = { move: 'm', line: 'l', curve: 'c', close: 'h' };
+const MAX_LOGO_PIXELS = 1024;
+
+const encoder = new TextEncoder();
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return out;
+}
+
+// PDF string literal in WinAnsiEncoding. Characters outside Latin-1 have
+// no glyph in the standard fonts and are replaced.
+function pdfString(text: string): string {
+  let out = '(';
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 63;
+    if (char === '(' || char === ')' || char === '\\') {
+      out += `\\${char}`;
+    } else if (code >= 32 && code <= 126) {
+      out += char;
+    } else if (code >= 160 && code <= 255) {
+      out += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      out += '?';
+    }
+  }
+  return `${out})`;
+}
+
+function fillColor(hex: string, mode: ColorMode): string {
+  const components = colorComponents(hex, mode).map(n).join(' ');
+  return mode === 'cmyk' ? `${components} k` : `${components} rg`;
+}
+
+class PdfDocument {
+  private objects: Uint8Array[] = [];
+  private sharedIds = new Map<unknown, number>();
+
+  reserve(): number {
+    this.objects.push(new Uint8Array(0));
+    return this.objects.length;
+  }
+
+  set(id: number, body: string | Uint8Array) {
+    const bytes = typeof body === 'string' ? encoder.encode(body) : body;
+    this.objects[id - 1] = concatBytes([encoder.encode(`${id} 0 obj\n`), bytes, encoder.encode('\nendobj\n')]);
+  }
+
+  add(body: string | Uint8Array): number {
+    const id = this.reserve();
+    this.set(id, body);
+    return id;
+  }
+
+  // Adds an object once per key, so pages and codes can share fonts and images
+  async shared(key: unknown, create: () => number | Promise<number>): Promise<number> {
+    if (!this.sharedIds.has(key)) this.sharedIds.set(key, await create());
+    return this.sharedIds.get(key);
+  }
+
+  addStream(dictionary: string, data: Uint8Array): number {
+    return this.add(concatBytes([
+      encoder.encode(`<< ${dictionary} /Length ${data.length} >>\nstream\n`),
+      data,
+      encoder.encode('\nendstream'),
+    ]));
+  }
+
+  toBytes(rootId: number, infoId: number): Uint8Array {
+    // The binary comment marks the file as binary for transfer tools
+    const header = concatBytes([encoder.encode('%PDF-1.4\n%'), new Uint8Array([0xe2, 0xe3, 0xcf, 0xd3]), encoder.encode('\n')]);
+    const offsets: number[] = [];
+    let offset = header.length;
+    this.objects.forEach(object => {
+      offsets.push(offset);
+      offset += object.length;
+    });
+    const xref = [
+      'xref',
+      `0 ${this.objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(value => `${String(value).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${this.objects.length + 1} /Root ${rootId} 0 R /Info ${infoId} 0 R >>`,
+      'startxref',
+      String(offset),
+      '%%EOF',
+    ].join('\n');
+    return concatBytes([header, ...this.objects, encoder.encode(`${xref}\n`)]);
+  }
+}
+
+function shadingDictionary(paint: Exclude<QRPaint, { type: 'solid' }>, mode: ColorMode): string {
+  const colorSpace = mode === 'cmyk' ? '/DeviceCMYK' : '/DeviceRGB';
+  const c0 = colorComponents(paint.from, mode).map(n).join(' ');
+  const c1 = colorComponents(paint.to, mode).map(n).join(' ');
+  const coords = paint.type === 'linear'
+    ? [paint.x1, paint.y1, paint.x2, paint.y2]
+    : [paint.cx, paint.cy, 0, paint.cx, paint.cy, paint.r];
+  return `<< /ShadingType ${paint.type === 'linear' ? 2 : 3} /ColorSpace ${colorSpace} /Coords [${coords.map(n).join(' ')}] ` +
+    `/Function << /FunctionType 2 /Domain [0 1] /C0 [${c0}] /C1 [${c1}] /N 1 >> /Extend [true true] >>`;
+}
+
+// Named resources used by one page's content stream
+class PageResources {
+  private shadings: string[] = [];
+  private xObjects = new Map<number, string>();
+  private fonts = new Map<number, string>();
+
+  shading(id: number): string {
+    const name = `Sh${this.shadings.length}`;
+    this.shadings.push(`/${name} ${id} 0 R`);
+    return name;
+  }
+
+  xObject(id: number): string {
+    if (!this.xObjects.has(id)) this.xObjects.set(id, `Im${this.xObjects.size}`);
+    return this.xObjects.get(id);
+  }
+
+  font(id: number): string {
+    if (!this.fonts.has(id)) this.fonts.set(id, `F${this.fonts.size + 1}`);
+    return this.fonts.get(id);
+  }
+
+  toString(): string {
+    const entries = (map: Map<number, string>) => Array.from(map, ([id, name]) => `/${name} ${id} 0 R`).join(' ');
+    return [
+      this.fonts.size > 0 ? `/Font << ${entries(this.fonts)} >>` : '',
+      this.shadings.length > 0 ? `/Shading << ${this.shadings.join(' ')} >>` : '',
+      this.xObjects.size > 0 ? `/XObject << ${entries(this.xObjects)} >>` : '',
+    ].filter(Boolean).join(' ');
+  }
+}
+
+function fontId(pdf: PdfDocument, font: FrameFont): Promise<number> {
+  const { pdfName } = getFrameFont(font);
+  return pdf.shared(`font:${pdfName}`, () =>
+    pdf.add(`<< /Type /Font /Subtype /Type1 /BaseFont /${pdfName} /Encoding /WinAnsiEncoding >>`));
+}
+
+// Draws a scene in module units with the origin at its top-left corner and
+// y pointing down; the caller sets up the transform
+async function drawScene(pdf: PdfDocument, resources: PageResources, scene: QRScene, colorMode: ColorMode, ops: string[]) {
+  const path = (d: string) => toPostfixPath(d, PATH_OPERATORS);
+  scene.frameShapes.forEach(shape => {
+    ops.push(fillColor(shape.color, colorMode), path(shape.path), shape.evenOdd ? 'f*' : 'f');
+  });
+
+  ops.push('q', `1 0 0 1 ${n(scene.qrX)} ${n(scene.qrY)} cm`);
+  const radius = Math.min(scene.cornerRadius, scene.dimension / 2);
+  ops.push(
+    fillColor(scene.backgroundColor, colorMode),
+    path(roundedRectPath(0, 0, scene.dimension, scene.dimension, [radius, radius, radius, radius])),
+    'f',
+  );
+  scene.layers.forEach(layer => {
+    if (!layer.path) return;
+    if (layer.paint.type === 'solid') {
+      ops.push(fillColor(layer.paint.color, colorMode), path(layer.path), layer.evenOdd ? 'f*' : 'f');
+    } else {
+      const name = resources.shading(pdf.add(shadingDictionary(layer.paint, colorMode)));
+      ops.push('q', path(layer.path), layer.evenOdd ? 'W* n' : 'W n', `/${name} sh`, 'Q');
+    }
+  });
+  if (scene.logo) {
+    const { logo, x, y, width, height } = scene.logo;
+    const imageId = await pdf.shared(logo, async () => {
+      const pixels = getLogoPixels(logo, MAX_LOGO_PIXELS);
+      const alpha = new Uint8Array(pixels.width * pixels.height);
+      for (let i = 0; i < alpha.length; i++) alpha[i] = pixels.data[i * 4 + 3];
+      const maskId = pdf.addStream(
+        `/Type /XObject /Subtype /Image /Width ${pixels.width} /Height ${pixels.height} /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode`,
+        await deflate(alpha),
+      );
+      return pdf.addStream(
+        `/Type /XObject /Subtype /Image /Width ${pixels.width} /Height ${pixels.height} ` +
+          `/ColorSpace ${colorMode === 'cmyk' ? '/DeviceCMYK' : '/DeviceRGB'} /BitsPerComponent 8 /Filter /FlateDecode /SMask ${maskId} 0 R`,
+        await deflate(packPixels(pixels, colorMode)),
+      );
+    });
+    // Images fill the unit square bottom-up, so flip them back upright
+    ops.push('q', `${n(width)} 0 0 ${n(-height)} ${n(x)} ${n(y + height)} cm`, `/${resources.xObject(imageId)} Do`, 'Q');
+  }
+  ops.push('Q');
+
+  if (scene.caption) {
+    const { text, font, color, fontSize, x, y } = scene.caption;
+    const name = resources.font(await fontId(pdf, font));
+    const left = x - measureText(text, font, fontSize) / 2;
+    ops.push(fillColor(color, colorMode), 'BT', `/${name} ${n(fontSize)} Tf`, `1 0 0 -1 ${n(left)} ${n(y)} Tm`, `${pdfString(text)} Tj`, 'ET');
+  }
+}
+
+function finishDocument(pdf: PdfDocument, catalogId: number, pagesId: number, pageIds: number[], title: string): Uint8Array {
+  pdf.set(pagesId, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+  pdf.set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+  const infoId = pdf.add(`<< /Title ${pdfString(title)} /Producer (brand-link-nexus) >>`);
+  return pdf.toBytes(catalogId, infoId);
+}
+
+export async function renderSceneToPdf(scene: QRScene, { scale, bleed, colorMode, title }: VectorPageOptions): Promise<Uint8Array> {
+  const pdf = new PdfDocument();
+  const catalogId = pdf.reserve();
+  const pagesId = pdf.reserve();
+  const pageId = pdf.reserve();
+  const pageWidth = scene.width * scale + bleed * 2;
+  const pageHeight = scene.height * scale + bleed * 2;
+  const resources = new PageResources();
+
+  // Work in module units with the origin at the top-left of the artwork,
+  // like the SVG and canvas renderers
+  const ops: string[] = ['q', `1 0 0 -1 0 ${n(pageHeight)} cm`, `${n(scale)} 0 0 ${n(scale)} ${n(bleed)} ${n(bleed)} cm`];
+  if (bleed > 0) {
+    const b = bleed / scale;
+    ops.push(fillColor(scene.backgroundColor, colorMode), `${n(-b)} ${n(-b)} ${n(scene.width + b * 2)} ${n(scene.height + b * 2)} re`, 'f');
+  }
+  await drawScene(pdf, resources, scene, colorMode, ops);
+  ops.push('Q');
+
+  const contentsId = pdf.addStream('/Filter /FlateDecode', await deflate(encoder.encode(ops.join('\n'))));
+  const box = `[0 0 ${n(pageWidth)} ${n(pageHeight)}]`;
+  pdf.set(pageId, `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox ${box} /BleedBox ${box} ` +
+    `/TrimBox [${n(bleed)} ${n(bleed)} ${n(pageWidth - bleed)} ${n(pageHeight - bleed)}] ` +
+    `/Resources << ${resources} >> /Contents ${contentsId} 0 R >>`);
+  return finishDocument(pdf, catalogId, pagesId, [pageId], title);
+}
+
+// Positions and sizes in points, measured from the top-left of the page
+export interface PdfPlacedScene {
+  scene: QRScene;
+  x: number;
+  y: number;
+  width: number;
+}
+
+export interface PdfPlacedText {
+  text: string;
+  // Left edge, or the center when `align` is 'center'
+  x: number;
+  // Baseline
+  y: number;
+  align: 'left' | 'center';
+  font: FrameFont;
+  fontSize: number;
+  color: string;
+}
+
+export interface PdfPlacedRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  radius: number;
+}
+
+export interface PdfSheetPage {
+  width: number;
+  height: number;
+  scenes: PdfPlacedScene[];
+  texts: PdfPlacedText[];
+  // Thin outlines, used to check alignment on plain paper
+  outlines: PdfPlacedRect[];
+}
+
+const OUTLINE_COLOR = '#BBBBBB';
+
+export async function renderSheetsToPdf(pages: PdfSheetPage[], colorMode: ColorMode, title: string): Promise<Uint8Array> {
+  const pdf = new PdfDocument();
+  const catalogId = pdf.reserve();
+  const pagesId = pdf.reserve();
+  const pageIds: number[] = [];
+
+  for (const page of pages) {
+    const pageId = pdf.reserve();
+    const resources = new PageResources();
+    const ops: string[] = ['q', `1 0 0 -1 0 ${n(page.height)} cm`];
+
+    if (page.outlines.length > 0) {
+      const stroke = colorComponents(OUTLINE_COLOR, colorMode).map(n).join(' ');
+      ops.push(`${stroke} ${colorMode === 'cmyk' ? 'K' : 'RG'}`, '0.25 w');
+      page.outlines.forEach(({ x, y, width, height, radius }) => {
+        const r = Math.min(radius, width / 2, height / 2);
+        ops.push(toPostfixPath(roundedRectPath(x, y, width, height, [r, r, r, r]), PATH_OPERATORS), 'S');
+      });
+    }
+
+    for (const { scene, x, y, width } of page.scenes) {
+      const scale = width / scene.width;
+      ops.push('q', `${n(scale)} 0 0 ${n(scale)} ${n(x)} ${n(y)} cm`);
+      await drawScene(pdf, resources, scene, colorMode, ops);
+      ops.push('Q');
+    }
+
+    for (const { text, x, y, align, font, fontSize, color } of page.texts) {
+      const name = resources.font(await fontId(pdf, font));
+      const left = align === 'center' ? x - measureText(text, font, fontSize) / 2 : x;
+      ops.push(fillColor(color, colorMode), 'BT', `/${name} ${n(fontSize)} Tf`, `1 0 0 -1 ${n(left)} ${n(y)} Tm`, `${pdfString(text)} Tj`, 'ET');
+    }
+    ops.push('Q');
+
+    const contentsId = pdf.addStream('/Filter /FlateDecode', await deflate(encoder.encode(ops.join('\n'))));
+    pdf.set(pageId, `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${n(page.width)} ${n(page.height)}] ` +
+      `/Resources << ${resources} >> /Contents ${contentsId} 0 R >>`);
+    pageIds.push(pageId);
+  }
+
+  return finishDocument(pdf, catalogId, pagesId, pageIds, title);
+}
@@ -0,0 +1,402 @@
+import { getAlignmentPatternPositions, QRMatrix } from './encoder';
+import { getFrameFont } from './fonts';
+import { buildFrameLayout, FrameCaption, FrameShape, QRFrame } from './frames';
+import { fitLogo, MAX_LOGO_SCALE, QRLogo } from './logo';
+import {
+  alignmentPath,
+  EyeBallShape,
+  eyeBallPath,
+  EyeFrameShape,
+  eyeFramePath,
+  FINDER_SIZE,
+  ModuleShape,
+  modulePath,
+  rectPath,
+} from './shapes';
+
+export type GradientType = 'none' | 'linear' | 'radial';
+
+export const GRADIENT_TYPES: { value: GradientType; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'linear', label: 'Linear' },
+  { value: 'radial', label: 'Radial' },
+];
+
+export interface QRGradient {
+  type: GradientType;
+  // The gradient runs from the foreground color to this color
+  color: string;
+  // Direction of linear gradients in degrees, 0 = left to right
+  rotation: number;
+}
+
+export interface QRRenderOptions {
+  // Output width and height in pixels, quiet zone included
+  size?: number;
+  // Quiet zone width in modules; ISO 18004 asks for at least 4
+  margin?: number;
+  foregroundColor?: string;
+  backgroundColor?: string;
+  gradient?: QRGradient | null;
+  // Radius of the rounded image corners, in output pixels
+  cornerRadius?: number;
+  logo?: QRLogo | null;
+  // Logo width as a fraction of the symbol width, capped at MAX_LOGO_SCALE
+  logoScale?: number;
+  moduleShape?: ModuleShape;
+  eyeFrameShape?: EyeFrameShape;
+  eyeBallShape?: EyeBallShape;
+  // Empty colors inherit the foreground (and its gradient)
+  eyeFrameColor?: string;
+  eyeBallColor?: string;
+  // Decorative frame and caption around the code; enlarges the image
+  frame?: QRFrame | null;
+}
+
+export interface QRBox {
+  x: number;
+  y: number;
+  size: number;
+}
+
+// Geometry is expressed in module units so the same paths can be scaled
+// onto a canvas or written into an SVG viewBox.
+export interface QRGeometry {
+  dimension: number;
+  // Data, timing and alignment modules
+  modulePath: string;
+  // Finder pattern rings (even-odd fill) and centers
+  eyeFramePath: string;
+  eyeBallPath: string;
+  // Area where the logo is drawn; modules around it are knocked out
+  logoBox: QRBox | null;
+}
+
+// Gradient coordinates are resolved in module units relative to the QR code
+export type QRPaint =
+  | { type: 'solid'; color: string }
+  | { type: 'linear'; from: string; to: string; x1: number; y1: number; x2: number; y2: number }
+  | { type: 'radial'; from: string; to: string; cx: number; cy: number; r: number };
+
+// A filled path ready to be drawn by any of the output backends
+export interface QRLayer {
+  path: string;
+  paint: QRPaint;
+  evenOdd: boolean;
+}
+
+// Everything needed to draw a code, independent of the output format. The
+// canvas, SVG, PDF and EPS writers all draw the same scene.
+export interface QRScene {
+  // Artwork size in module units, frame included
+  width: number;
+  height: number;
+  // Output pixels per module at the requested `size`
+  pixelsPerModule: number;
+  frameShapes: FrameShape[];
+  // Top-left corner of the QR code; layers and logo are relative to it
+  qrX: number;
+  qrY: number;
+  dimension: number;
+  backgroundColor: string;
+  cornerRadius: number;
+  layers: QRLayer[];
+  logo: { logo: QRLogo; x: number; y: number; width: number; height: number } | null;
+  caption: FrameCaption | null;
+  // Only square modules can be drawn without anti-aliasing
+  crispEdges: boolean;
+}
+
+const DEFAULT_OPTIONS: Required<QRRenderOptions> = {
+  size: 300,
+  margin: 4,
+  foregroundColor: '#000000',
+  backgroundColor: '#FFFFFF',
+  gradient: null,
+  cornerRadius: 0,
+  logo: null,
+  logoScale: 0,
+  moduleShape: 'square',
+  eyeFrameShape: 'square',
+  eyeBallShape: 'square',
+  eyeFrameColor: '',
+  eyeBallColor: '',
+  frame: null,
+};
+
+function withDefaults(options: QRRenderOptions): Required<QRRenderOptions> {
+  return { ...DEFAULT_OPTIONS, ...options };
+}
+
+// Square of modules cleared for the logo: centered, one module wider than
+// the logo on every side, and never wider than MAX_LOGO_SCALE of the symbol.
+function logoKnockout(matrix: QRMatrix, logoScale: number) {
+  const maxModules = Math.floor(matrix.size * MAX_LOGO_SCALE);
+  let knockoutModules = Math.min(Math.round(matrix.size * logoScale) + 2, maxModules);
+  // Keep the same parity as the symbol so the square sits exactly centered
+  if ((matrix.size - knockoutModules) % 2 !== 0) knockoutModules--;
+  const start = (matrix.size - knockoutModules) / 2;
+  return { start, end: start + knockoutModules, logoStart: start + 1, logoModules: knockoutModules - 2 };
+}
+
+function finderOrigins(size: number): [number, number][] {
+  return [[0, 0], [size - FINDER_SIZE, 0], [0, size - FINDER_SIZE]];
+}
+
+function alignmentCenters(matrix: QRMatrix): [number, number][] {
+  const positions = getAlignmentPatternPositions(matrix.version);
+  const last = positions.length - 1;
+  const centers: [number, number][] = [];
+  positions.forEach((x, i) => {
+    positions.forEach((y, j) => {
+      const overlapsFinder = (i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0);
+      if (!overlapsFinder) centers.push([x, y]);
+    });
+  });
+  return centers;
+}
+
+export function buildQRGeometry(matrix: QRMatrix, options: QRRenderOptions = {}): QRGeometry {
+  const { margin, logo, logoScale, moduleShape, eyeFrameShape, eyeBallShape } = withDefaults(options);
+  const { size } = matrix;
+  const knockout = logo && logoScale > 0 ? logoKnockout(matrix, logoScale) : null;
+  const origins = finderOrigins(size);
+  const inFinder = (x: number, y: number) =>
+    origins.some(([fx, fy]) => x >= fx && x < fx + FINDER_SIZE && y >= fy && y < fy + FINDER_SIZE);
+  const isKnockedOut = (x: number, y: number) =>
+    knockout !== null && x >= knockout.start && x < knockout.end && y >= knockout.start && y < knockout.end;
+  // Styled alignment patterns confuse some decoders, so unless the module
+  // style is square they are drawn solid whenever the logo leaves them whole
+  const alignments = moduleShape === 'square' ? [] : alignmentCenters(matrix).filter(([cx, cy]) =>
+    !isKnockedOut(cx - 2, cy - 2) && !isKnockedOut(cx + 2, cy - 2) && !isKnockedOut(cx - 2, cy + 2) && !isKnockedOut(cx + 2, cy + 2));
+  const inAlignment = (x: number, y: number) =>
+    alignments.some(([cx, cy]) => Math.abs(x - cx) <= 2 && Math.abs(y - cy) <= 2);
+  const isDark = (x: number, y: number) =>
+    x >= 0 && x < size && y >= 0 && y < size && matrix.modules[y][x] &&
+    !inFinder(x, y) && !isKnockedOut(x, y) && !inAlignment(x, y);
+
+  const parts = alignments.map(([cx, cy]) => alignmentPath(cx + margin, cy + margin));
+  for (let y = 0; y < size; y++) {
+    if (moduleShape === 'square') {
+      // Merge horizontal runs of dark modules into a single rectangle
+      let runStart = -1;
+      for (let x = 0; x <= size; x++) {
+        const dark = isDark(x, y);
+        if (dark && runStart < 0) {
+          runStart = x;
+        } else if (!dark && runStart >= 0) {
+          parts.push(rectPath(runStart + margin, y + margin, x - runStart, 1));
+          runStart = -1;
+        }
+      }
+    } else {
+      for (let x = 0; x < size; x++) {
+        if (!isDark(x, y)) continue;
+        parts.push(modulePath(moduleShape, x + margin, y + margin, {
+          top: isDark(x, y - 1),
+          right: isDark(x + 1, y),
+          bottom: isDark(x, y + 1),
+          left: isDark(x - 1, y),
+        }));
+      }
+    }
+  }
+
+  return {
+    dimension: size + margin * 2,
+    modulePath: parts.join(''),
+    eyeFramePath: origins.map(([x, y]) => eyeFramePath(eyeFrameShape, x + margin, y + margin)).join(''),
+    eyeBallPath: origins.map(([x, y]) => eyeBallPath(eyeBallShape, x + margin, y + margin)).join(''),
+    logoBox: knockout
+      ? { x: knockout.logoStart + margin, y: knockout.logoStart + margin, size: knockout.logoModules }
+      : null,
+  };
+}
+
+export function buildQRLayers(geometry: QRGeometry, options: QRRenderOptions = {}): QRLayer[] {
+  const { foregroundColor, gradient, eyeFrameColor, eyeBallColor } = withDefaults(options);
+  const half = geometry.dimension / 2;
+  let foreground: QRPaint = { type: 'solid', color: foregroundColor };
+  if (gradient?.type === 'linear') {
+    // Runs across the whole symbol in the direction of the rotation
+    const angle = (gradient.rotation * Math.PI) / 180;
+    const dx = Math.cos(angle) * half;
+    const dy = Math.sin(angle) * half;
+    foreground = { type: 'linear', from: foregroundColor, to: gradient.color, x1: half - dx, y1: half - dy, x2: half + dx, y2: half + dy };
+  } else if (gradient?.type === 'radial') {
+    foreground = { type: 'radial', from: foregroundColor, to: gradient.color, cx: half, cy: half, r: half };
+  }
+  return [
+    { path: geometry.modulePath, paint: foreground, evenOdd: false },
+    { path: geometry.eyeFramePath, paint: eyeFrameColor ? { type: 'solid', color: eyeFrameColor } : foreground, evenOdd: true },
+    { path: geometry.eyeBallPath, paint: eyeBallColor ? { type: 'solid', color: eyeBallColor } : foreground, evenOdd: false },
+  ];
+}
+
+export function buildQRScene(matrix: QRMatrix, options: QRRenderOptions = {}): QRScene {
+  const resolved = withDefaults(options);
+  const { size, backgroundColor, cornerRadius, logo, frame } = resolved;
+  const geometry = buildQRGeometry(matrix, options);
+  const layout = buildFrameLayout(geometry.dimension, frame, backgroundColor);
+  // `size` is the width of the QR code itself, so frames make the image
+  // larger rather than shrinking the code
+  const pixelsPerModule = size / geometry.dimension;
+  return {
+    width: layout.width,
+    height: layout.height,
+    pixelsPerModule,
+    frameShapes: layout.shapes,
+    qrX: layout.qrX,
+    qrY: layout.qrY,
+    dimension: geometry.dimension,
+    backgroundColor,
+    cornerRadius: cornerRadius / pixelsPerModule,
+    layers: buildQRLayers(geometry, options),
+    logo: logo && geometry.logoBox ? { logo, ...fitLogo(logo, geometry.logoBox) } : null,
+    caption: layout.caption,
+    crispEdges: resolved.moduleShape === 'square' && resolved.eyeFrameShape === 'square' && resolved.eyeBallShape === 'square',
+  };
+}
+
+function canvasPaint(ctx: CanvasRenderingContext2D, paint: QRPaint): string | CanvasGradient {
+  if (paint.type === 'solid') return paint.color;
+  const gradient = paint.type === 'linear'
+    ? ctx.createLinearGradient(paint.x1, paint.y1, paint.x2, paint.y2)
+    : ctx.createRadialGradient(paint.cx, paint.cy, 0, paint.cx, paint.cy, paint.r);
+  gradient.addColorStop(0, paint.from);
+  gradient.addColorStop(1, paint.to);
+  return gradient;
+}
+
+function svgPaint(paint: QRPaint, id: string, defs: string[]): string {
+  if (paint.type === 'solid') return paint.color;
+  const stops = `<stop offset="0" stop-color="${paint.from}"/><stop offset="1" stop-color="${paint.to}"/>`;
+  if (paint.type === 'linear') {
+    defs.push(`<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${paint.x1}" y1="${paint.y1}" x2="${paint.x2}" y2="${paint.y2}">${stops}</linearGradient>`);
+  } else {
+    defs.push(`<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${paint.cx}" cy="${paint.cy}" r="${paint.r}">${stops}</radialGradient>`);
+  }
+  return `url(#${id})`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+export function renderQRToCanvas(matrix: QRMatrix, canvas: HTMLCanvasElement, options: QRRenderOptions = {}) {
+  const scene = buildQRScene(matrix, options);
+  const scale = scene.pixelsPerModule;
+  canvas.width = Math.round(scene.width * scale);
+  canvas.height = Math.round(scene.height * scale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.save();
+  ctx.scale(scale, scale);
+  scene.frameShapes.forEach(shape => {
+    ctx.fillStyle = shape.color;
+    ctx.fill(new Path2D(shape.path), shape.evenOdd ? 'evenodd' : 'nonzero');
+  });
+
+  ctx.save();
+  ctx.translate(scene.qrX, scene.qrY);
+  ctx.fillStyle = scene.backgroundColor;
+  ctx.beginPath();
+  ctx.roundRect(0, 0, scene.dimension, scene.dimension, scene.cornerRadius);
+  ctx.fill();
+  scene.layers.forEach(layer => {
+    ctx.fillStyle = canvasPaint(ctx, layer.paint);
+    ctx.fill(new Path2D(layer.path), layer.evenOdd ? 'evenodd' : 'nonzero');
+  });
+  if (scene.logo) {
+    const { logo, x, y, width, height } = scene.logo;
+    ctx.drawImage(logo.image, x, y, width, height);
+  }
+  ctx.restore();
+
+  if (scene.caption) {
+    const { text, font, color, fontSize, x, y } = scene.caption;
+    ctx.fillStyle = color;
+    ctx.font = `bold ${fontSize}px ${getFrameFont(font).cssFamily}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'alphabetic';
+    ctx.fillText(text, x, y);
+  }
+  ctx.restore();
+}
+
+export interface SvgDocumentOptions {
+  // Values for the root width and height attributes, e.g. "300" or "50mm"
+  width: string;
+  height: string;
+  // Extra background around the artwork for print, in module units
+  bleed?: number;
+}
+
+export function renderSceneToSvg(scene: QRScene, { width, height, bleed = 0 }: SvgDocumentOptions): string {
+  const defs: string[] = [];
+  const paths = scene.layers.map((layer, index) => {
+    const fill = svgPaint(layer.paint, `qr-paint-${index}`, defs);
+    return `<path d="${layer.path}" fill="${fill}"${layer.evenOdd ? ' fill-rule="evenodd"' : ''}/>`;
+  });
+
+  const [boxX, boxY, boxWidth, boxHeight] = [-bleed, -bleed, scene.width + bleed * 2, scene.height + bleed * 2].map(value => +value.toFixed(4));
+  const viewBox = `${boxX} ${boxY} ${boxWidth} ${boxHeight}`;
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="${viewBox}">`,
+  ];
+  if (defs.length > 0) parts.push(`<defs>${defs.join('')}</defs>`);
+  if (bleed > 0) {
+    parts.push(`<rect x="${boxX}" y="${boxY}" width="${boxWidth}" height="${boxHeight}" fill="${scene.backgroundColor}"/>`);
+  }
+  scene.frameShapes.forEach(shape => {
+    parts.push(`<path d="${shape.path}" fill="${shape.color}"${shape.evenOdd ? ' fill-rule="evenodd"' : ''}/>`);
+  });
+  parts.push(`<g transform="translate(${scene.qrX} ${scene.qrY})"${scene.crispEdges ? ' shape-rendering="crispEdges"' : ''}>`);
+  parts.push(`<rect width="${scene.dimension}" height="${scene.dimension}" rx="${scene.cornerRadius}" fill="${scene.backgroundColor}"/>`);
+  parts.push(...paths);
+  if (scene.logo) {
+    const { logo, x, y, width: logoWidth, height: logoHeight } = scene.logo;
+    parts.push(`<image x="${x}" y="${y}" width="${logoWidth}" height="${logoHeight}" href="${logo.dataUrl}" xlink:href="${logo.dataUrl}"/>`);
+  }
+  parts.push('</g>');
+  if (scene.caption) {
+    const { text, font, color, fontSize, x, y } = scene.caption;
+    parts.push(`<text x="${x}" y="${y}" fill="${color}" font-family="${escapeXml(getFrameFont(font).cssFamily)}" font-size="${fontSize}" font-weight="bold" text-anchor="middle">${escapeXml(text)}</text>`);
+  }
+  parts.push('</svg>');
+  return parts.join('');
+}
+
+export function renderQRToSvg(matrix: QRMatrix, options: QRRenderOptions = {}): string {
+  const scene = buildQRScene(matrix, options);
+  return renderSceneToSvg(scene, {
+    width: String(Math.round(scene.width * scene.pixelsPerModule)),
+    height: String(Math.round(scene.height * scene.pixelsPerModule)),
+  });
+}
+
+export function svgToDataUrl(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+export function renderQRToPngDataUrl(matrix: QRMatrix, options: QRRenderOptions = {}): string {
+  const canvas = document.createElement('canvas');
+  renderQRToCanvas(matrix, canvas, options);
+  return canvas.toDataURL('image/png');
+}
+
+export function renderQRToPngBlob(matrix: QRMatrix, options: QRRenderOptions = {}): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  renderQRToCanvas(matrix, canvas, options);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to render QR code to PNG'));
+      }
+    }, 'image/png');
+  });
+}
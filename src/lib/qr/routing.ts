@@ -0,0 +1,238 @@
+// Rule-based routing for dynamic QR codes. Rules are checked in order and
+// the first one whose conditions all match picks the destination; scans
+// that match no rule go to the code's default destination.
+
+import { normalizeUrl } from '../url';
+
+export type ScanOS = 'ios' | 'android' | 'windows' | 'macos' | 'linux' | 'other';
+export type ScanDevice = 'mobile' | 'tablet' | 'desktop';
+
+export const SCAN_OS_OPTIONS: { value: ScanOS; label: string }[] = [
+  { value: 'ios', label: 'iOS' },
+  { value: 'android', label: 'Android' },
+  { value: 'windows', label: 'Windows' },
+  { value: 'macos', label: 'macOS' },
+  { value: 'linux', label: 'Linux' },
+  { value: 'other', label: 'Other' },
+];
+
+export const SCAN_DEVICE_OPTIONS: { value: ScanDevice; label: string }[] = [
+  { value: 'mobile', label: 'Mobile' },
+  { value: 'tablet', label: 'Tablet' },
+  { value: 'desktop', label: 'Desktop' },
+];
+
+// Indexed like Date.getDay()
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const MAX_ROUTING_RULES = 20;
+
+// Stored in qr_codes.routing_rules. Empty conditions match every scan.
+export interface RoutingRule {
+  destination: string;
+  os: ScanOS[];
+  devices: ScanDevice[];
+  // ISO 3166-1 alpha-2, upper case
+  countries: string[];
+  // BCP 47 tags; 'en' also matches 'en-GB'
+  languages: string[];
+  days: number[];
+  // HH:MM in the visitor's local time; a window may wrap past midnight
+  timeFrom: string | null;
+  timeUntil: string | null;
+}
+
+// Form state; countries and languages are comma-separated text
+export interface RoutingRuleDraft {
+  id: string;
+  destination: string;
+  os: ScanOS[];
+  devices: ScanDevice[];
+  countries: string;
+  languages: string;
+  days: number[];
+  timeFrom: string;
+  timeUntil: string;
+}
+
+export interface ScanContext {
+  os: ScanOS;
+  device: ScanDevice;
+  country: string | null;
+  // Preferred language, as sent in Accept-Language
+  language: string | null;
+  day: number;
+  // Minutes since local midnight
+  minutes: number;
+}
+
+export function createRuleDraft(): RoutingRuleDraft {
+  return {
+    id: crypto.randomUUID(),
+    destination: '',
+    os: [],
+    devices: [],
+    countries: '',
+    languages: '',
+    days: [],
+    timeFrom: '',
+    timeUntil: '',
+  };
+}
+
+export function detectOS(userAgent: string, maxTouchPoints = 0): ScanOS {
+  if (/iPhone|iPad|iPod/.test(userAgent)) return 'ios';
+  // iPadOS reports itself as a Mac; only touch support gives it away
+  if (/Macintosh/.test(userAgent) && maxTouchPoints > 1) return 'ios';
+  if (/Android/.test(userAgent)) return 'android';
+  if (/Windows/.test(userAgent)) return 'windows';
+  if (/Macintosh|Mac OS X/.test(userAgent)) return 'macos';
+  if (/CrOS/.test(userAgent)) return 'other';
+  if (/Linux|X11/.test(userAgent)) return 'linux';
+  return 'other';
+}
+
+export function detectDevice(userAgent: string, maxTouchPoints = 0): ScanDevice {
+  if (/iPad|Tablet/.test(userAgent)) return 'tablet';
+  if (/Macintosh/.test(userAgent) && maxTouchPoints > 1) return 'tablet';
+  // Android tablets leave "Mobile" out of the user agent
+  if (/Android/.test(userAgent)) return /Mobile/.test(userAgent) ? 'mobile' : 'tablet';
+  if (/Mobi|iPhone|iPod/.test(userAgent)) return 'mobile';
+  return 'desktop';
+}
+
+// Context of the current visit. The country comes from the resolver's
+// request headers; without them it is unknown, since the browser locale
+// says nothing about where the visitor is.
+export function getScanContext(country: string | null, now = new Date()): ScanContext {
+  return {
+    os: detectOS(navigator.userAgent, navigator.maxTouchPoints),
+    device: detectDevice(navigator.userAgent, navigator.maxTouchPoints),
+    country: country?.toUpperCase() || null,
+    language: navigator.languages?.[0] || navigator.language || null,
+    day: now.getDay(),
+    minutes: now.getHours() * 60 + now.getMinutes(),
+  };
+}
+
+function parseTime(value: string | null): number | null {
+  const match = value ? /^(\d{2}):(\d{2})$/.exec(value) : null;
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+function matchesTime(rule: RoutingRule, minutes: number): boolean {
+  const from = parseTime(rule.timeFrom);
+  const until = parseTime(rule.timeUntil);
+  if (from === null && until === null) return true;
+  if (from === null) return minutes < until;
+  if (until === null) return minutes >= from;
+  return from <= until ? minutes >= from && minutes < until : minutes >= from || minutes < until;
+}
+
+function matchesLanguage(rule: RoutingRule, language: string | null): boolean {
+  if (rule.languages.length === 0) return true;
+  if (!language) return false;
+  const visitor = language.toLowerCase();
+  return rule.languages.some(tag => {
+    const wanted = tag.toLowerCase();
+    return visitor === wanted || visitor.startsWith(`${wanted}-`);
+  });
+}
+
+export function matchesRule(rule: RoutingRule, context: ScanContext): boolean {
+  if (rule.os.length > 0 && !rule.os.includes(context.os)) return false;
+  if (rule.devices.length > 0 && !rule.devices.includes(context.device)) return false;
+  if (rule.countries.length > 0 && (!context.country || !rule.countries.includes(context.country))) return false;
+  if (rule.days.length > 0 && !rule.days.includes(context.day)) return false;
+  return matchesLanguage(rule, context.language) && matchesTime(rule, context.minutes);
+}
+
+// Index of the first matching rule, or -1 for the default destination
+export function findMatchingRule(rules: RoutingRule[], context: ScanContext): number {
+  return rules.findIndex(rule => matchesRule(rule, context));
+}
+
+function splitList(value: string): string[] {
+  return value.split(/[\s,]+/).map(item => item.trim()).filter(Boolean);
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+// Reads qr_codes.routing_rules, dropping anything malformed
+export function parseRoutingRules(value: unknown): RoutingRule[] {
+  if (!Array.isArray(value)) return [];
+  const osValues = SCAN_OS_OPTIONS.map(option => option.value as string);
+  const deviceValues = SCAN_DEVICE_OPTIONS.map(option => option.value as string);
+  return value
+    .filter((raw): raw is Record<string, unknown> => !!raw && typeof raw === 'object' && typeof raw.destination === 'string')
+    .map(raw => ({
+      destination: raw.destination as string,
+      os: stringArray(raw.os).filter(os => osValues.includes(os)) as ScanOS[],
+      devices: stringArray(raw.devices).filter(device => deviceValues.includes(device)) as ScanDevice[],
+      countries: stringArray(raw.countries).map(country => country.toUpperCase()),
+      languages: stringArray(raw.languages),
+      days: Array.isArray(raw.days) ? raw.days.filter((day): day is number => Number.isInteger(day) && day >= 0 && day <= 6) : [],
+      timeFrom: typeof raw.timeFrom === 'string' ? raw.timeFrom : null,
+      timeUntil: typeof raw.timeUntil === 'string' ? raw.timeUntil : null,
+    }));
+}
+
+export function rulesToDrafts(rules: RoutingRule[]): RoutingRuleDraft[] {
+  return rules.map(rule => ({
+    id: crypto.randomUUID(),
+    destination: rule.destination,
+    os: rule.os,
+    devices: rule.devices,
+    countries: rule.countries.join(', '),
+    languages: rule.languages.join(', '),
+    days: rule.days,
+    timeFrom: rule.timeFrom || '',
+    timeUntil: rule.timeUntil || '',
+  }));
+}
+
+export function draftToRule(draft: RoutingRuleDraft): RoutingRule {
+  const destination = draft.destination.trim();
+  return {
+    destination: destination ? normalizeUrl(destination) : '',
+    os: draft.os,
+    devices: draft.devices,
+    countries: splitList(draft.countries).map(country => country.toUpperCase()),
+    languages: splitList(draft.languages),
+    days: [...draft.days].sort((a, b) => a - b),
+    timeFrom: draft.timeFrom || null,
+    timeUntil: draft.timeUntil || null,
+  };
+}
+
+export function validateRuleDrafts(drafts: RoutingRuleDraft[]): string[] {
+  const errors: string[] = [];
+  if (drafts.length > MAX_ROUTING_RULES) {
+    errors.push(`Use at most ${MAX_ROUTING_RULES} routing rules`);
+  }
+  drafts.forEach((draft, index) => {
+    const label = `Rule ${index + 1}`;
+    const destination = draft.destination.trim();
+    if (!destination) {
+      errors.push(`${label}: enter a destination URL`);
+    } else {
+      try {
+        new URL(normalizeUrl(destination));
+      } catch {
+        errors.push(`${label}: the destination URL is not valid`);
+      }
+    }
+    if (splitList(draft.countries).some(country => !/^[a-z]{2}$/i.test(country))) {
+      errors.push(`${label}: countries must be two-letter codes such as US or DE`);
+    }
+    if (splitList(draft.languages).some(language => !/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i.test(language))) {
+      errors.push(`${label}: languages must be codes such as en or pt-BR`);
+    }
+    if (draft.timeFrom && draft.timeUntil && draft.timeFrom === draft.timeUntil) {
+      errors.push(`${label}: the time window is empty`);
+    }
+  });
+  return errors;
+}
@@ -0,0 +1,151 @@
+// Checks a QR design for problems that stop phones from reading it: low
+// contrast, inverted or mixed colors, oversized logos, rounded corners that
+// eat the quiet zone and too few pixels per module. A test scan of the
+// rendered image catches anything the rules miss.
+
+import jsQR from 'jsqr';
+import { QRMatrix } from './encoder';
+import { QRLogo } from './logo';
+import { renderQRToCanvas } from './render';
+import { QRDesignSettings, toRenderOptions } from './settings';
+import { hexToRgb } from './vector';
+
+export type ScanIssueSeverity = 'error' | 'warning';
+
+export interface ScanIssue {
+  severity: ScanIssueSeverity;
+  message: string;
+}
+
+// Below this, scanners can't tell modules from the background
+export const MIN_CONTRAST = 2;
+export const RECOMMENDED_CONTRAST = 4;
+// Logos wider than this leave little error correction for print damage
+export const LOGO_SCALE_WARNING = 0.25;
+// Smallest module that prints and scans reliably from a phone
+export const MIN_MODULE_SIZE_MM = 0.4;
+export const MIN_PRINT_WIDTH_MM = 20;
+
+const QUIET_ZONE = 4;
+const MIN_PIXELS_PER_MODULE = 3;
+// Quiet zone left at the corners, in modules, before rounding is flagged
+const MIN_CORNER_CLEARANCE = 2;
+const TEST_SCAN_PIXELS_PER_MODULE = 6;
+
+// WCAG relative luminance of a hex color
+function luminance(hex: string): number {
+  const [r, g, b] = hexToRgb(hex).map(channel =>
+    channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4
+  );
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+export function contrastRatio(a: string, b: string): number {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+// Width in millimetres below which the code gets hard to scan, quiet zone
+// included
+export function minimumPrintWidth(matrix: QRMatrix, margin = QUIET_ZONE): number {
+  return Math.max(MIN_PRINT_WIDTH_MM, (matrix.size + margin * 2) * MIN_MODULE_SIZE_MM);
+}
+
+export function checkPrintWidth(matrix: QRMatrix, widthMm: number, margin = QUIET_ZONE): ScanIssue | null {
+  const minimum = minimumPrintWidth(matrix, margin);
+  if (widthMm >= minimum) return null;
+  return {
+    severity: 'warning',
+    message: `Printed this small, modules are under ${MIN_MODULE_SIZE_MM} mm; print at least ${Math.ceil(minimum)} mm wide`,
+  };
+}
+
+export function lintQRDesign(settings: QRDesignSettings, matrix: QRMatrix): ScanIssue[] {
+  const issues: ScanIssue[] = [];
+  const { backgroundColor } = settings;
+  const parts = [
+    { label: 'QR color', color: settings.foregroundColor },
+    ...(settings.gradientType !== 'none' ? [{ label: 'Gradient color', color: settings.gradientColor }] : []),
+    { label: 'Eye frame color', color: settings.eyeFrameColor || settings.foregroundColor },
+    { label: 'Eye center color', color: settings.eyeBallColor || settings.foregroundColor },
+  ];
+
+  const [lowest] = parts
+    .map(part => ({ ...part, ratio: contrastRatio(part.color, backgroundColor) }))
+    .sort((a, b) => a.ratio - b.ratio);
+  if (lowest.ratio < MIN_CONTRAST) {
+    issues.push({
+      severity: 'error',
+      message: `${lowest.label} is too close to the background (contrast ${lowest.ratio.toFixed(1)}:1, needs at least ${MIN_CONTRAST}:1)`,
+    });
+  } else if (lowest.ratio < RECOMMENDED_CONTRAST) {
+    issues.push({
+      severity: 'warning',
+      message: `${lowest.label} has low contrast with the background (${lowest.ratio.toFixed(1)}:1); aim for ${RECOMMENDED_CONTRAST}:1 or more`,
+    });
+  }
+
+  // Scanners expect one polarity across the whole symbol
+  const background = luminance(backgroundColor);
+  const lighter = parts.filter(part => luminance(part.color) > background);
+  if (lighter.length === parts.length) {
+    issues.push({
+      severity: 'warning',
+      message: 'Light modules on a dark background are inverted; some older scanner apps cannot read them',
+    });
+  } else if (lighter.length > 0) {
+    issues.push({
+      severity: 'error',
+      message: `${lighter.map(part => part.label).join(' and ')} ${lighter.length === 1 ? 'is' : 'are'} lighter than the background while the rest of the code is darker`,
+    });
+  }
+
+  if (settings.logoUrl && settings.logoScale > LOGO_SCALE_WARNING) {
+    issues.push({
+      severity: 'warning',
+      message: 'The logo covers a large part of the code; smudges or glare may make it unreadable',
+    });
+  }
+
+  // Rounded corners clip the background along the diagonal next to the eyes
+  const dimension = matrix.size + QUIET_ZONE * 2;
+  const pixelsPerModule = settings.size / dimension;
+  const radius = settings.cornerRadius / pixelsPerModule;
+  if (QUIET_ZONE - radius * (1 - Math.SQRT1_2) < MIN_CORNER_CLEARANCE) {
+    issues.push({
+      severity: 'warning',
+      message: 'Rounded corners cut into the quiet zone around the corner eyes; reduce the corner radius',
+    });
+  }
+
+  if (pixelsPerModule < MIN_PIXELS_PER_MODULE) {
+    issues.push({
+      severity: 'warning',
+      message: `At ${Math.round(settings.size)} px each module is under ${MIN_PIXELS_PER_MODULE} px; PNG downloads may blur, so increase the size`,
+    });
+  }
+
+  return issues;
+}
+
+// Renders the design and reads it back with the local decoder. False when
+// nothing or the wrong content is decoded.
+export function testScan(matrix: QRMatrix, settings: QRDesignSettings, logo: QRLogo | null, expected: string): boolean {
+  const canvas = document.createElement('canvas');
+  const size = (matrix.size + QUIET_ZONE * 2) * TEST_SCAN_PIXELS_PER_MODULE;
+  renderQRToCanvas(matrix, canvas, toRenderOptions(settings, { logo, size }));
+
+  // Scan on white, like a printed page, so transparent corners read as paper
+  const flattened = document.createElement('canvas');
+  flattened.width = canvas.width;
+  flattened.height = canvas.height;
+  const ctx = flattened.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas is not supported');
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, flattened.width, flattened.height);
+  ctx.drawImage(canvas, 0, 0);
+
+  const { data, width, height } = ctx.getImageData(0, 0, flattened.width, flattened.height);
+  const result = jsQR(data, width, height, { inversionAttempts: 'attemptBoth' });
+  return result?.data === expected;
+}
@@ -0,0 +1,113 @@
+// Active windows, scan limits and fallbacks for dynamic QR codes. The
+// server enforces these in resolve_qr_code; this module mirrors its status
+// rules for the dashboard.
+
+import { normalizeUrl } from '../url';
+
+export type QRCodeStatus = 'scheduled' | 'live' | 'expired' | 'exhausted';
+
+export const QR_STATUS_LABELS: Record<QRCodeStatus, string> = {
+  scheduled: 'Scheduled',
+  live: 'Live',
+  expired: 'Expired',
+  exhausted: 'Exhausted',
+};
+
+export interface QRScheduleFields {
+  active_from: string | null;
+  active_until: string | null;
+  max_scans: number | null;
+  views: number | null;
+}
+
+// 'page' shows the built-in "campaign ended" page
+export type QRFallbackType = 'page' | 'url';
+
+// Form state; dates use the datetime-local input format in local time
+export interface QRSchedule {
+  activeFrom: string;
+  activeUntil: string;
+  maxScans: string;
+  fallback: QRFallbackType;
+  fallbackUrl: string;
+}
+
+export const EMPTY_SCHEDULE: QRSchedule = {
+  activeFrom: '',
+  activeUntil: '',
+  maxScans: '',
+  fallback: 'page',
+  fallbackUrl: '',
+};
+
+// Keep in sync with qr_code_status in the database
+export function getQRCodeStatus(code: QRScheduleFields, now = new Date()): QRCodeStatus {
+  if (code.active_from && new Date(code.active_from) > now) return 'scheduled';
+  if (code.active_until && new Date(code.active_until) <= now) return 'expired';
+  if (code.max_scans && (code.views || 0) >= code.max_scans) return 'exhausted';
+  return 'live';
+}
+
+export function hasScheduleRules(code: Omit<QRScheduleFields, 'views'>): boolean {
+  return !!(code.active_from || code.active_until || code.max_scans);
+}
+
+export function toDateTimeLocal(iso: string | null): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export function fromDateTimeLocal(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+export function scheduleFromRecord(record: {
+  active_from?: string | null;
+  active_until?: string | null;
+  max_scans?: number | null;
+  fallback_url?: string | null;
+}): QRSchedule {
+  return {
+    activeFrom: toDateTimeLocal(record.active_from ?? null),
+    activeUntil: toDateTimeLocal(record.active_until ?? null),
+    maxScans: record.max_scans ? String(record.max_scans) : '',
+    fallback: record.fallback_url ? 'url' : 'page',
+    fallbackUrl: record.fallback_url || '',
+  };
+}
+
+export function scheduleToRecord(schedule: QRSchedule) {
+  const maxScans = parseInt(schedule.maxScans, 10);
+  const fallbackUrl = schedule.fallbackUrl.trim();
+  return {
+    active_from: fromDateTimeLocal(schedule.activeFrom),
+    active_until: fromDateTimeLocal(schedule.activeUntil),
+    max_scans: maxScans > 0 ? maxScans : null,
+    fallback_url: schedule.fallback === 'url' && fallbackUrl ? normalizeUrl(fallbackUrl) : null,
+  };
+}
+
+export function validateSchedule(schedule: QRSchedule): string[] {
+  const errors: string[] = [];
+  if (schedule.activeFrom && schedule.activeUntil && new Date(schedule.activeUntil) <= new Date(schedule.activeFrom)) {
+    errors.push('The end date must be after the start date');
+  }
+  if (schedule.maxScans && !/^[1-9]\d*$/.test(schedule.maxScans.trim())) {
+    errors.push('Maximum scans must be a whole number above zero');
+  }
+  if (schedule.fallback === 'url') {
+    const fallbackUrl = schedule.fallbackUrl.trim();
+    if (!fallbackUrl) {
+      errors.push('Enter a fallback URL');
+    } else {
+      try {
+        new URL(normalizeUrl(fallbackUrl));
+      } catch {
+        errors.push('The fallback URL is not valid');
+      }
+    }
+  }
+  return errors;
+}
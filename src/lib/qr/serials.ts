@@ -0,0 +1,123 @@
+// Serialized per-unit codes for product authentication. Each unit carries
+// a random token; the number printed next to it is for humans only.
+
+import { toCsv } from '../csv';
+import { DEFAULT_QR_SETTINGS, QRDesignSettings } from './settings';
+import { generateShortCode } from './short-code';
+
+// 22 base62 characters carry about 131 bits, far beyond guessing range
+export const SERIAL_TOKEN_LENGTH = 22;
+export const SERIAL_LINK_PREFIX = '/s/';
+export const MAX_SERIALS_PER_BATCH = 10000;
+// Rows per insert request when minting
+export const SERIAL_INSERT_CHUNK = 1000;
+
+// Plain black codes print reliably on any packaging press
+export const SERIAL_PRINT_SETTINGS: QRDesignSettings = {
+  ...DEFAULT_QR_SETTINGS,
+  foregroundColor: '#000000',
+};
+
+export type SerialScanStatus = 'verified' | 'already_verified' | 'unknown';
+
+export interface SerialScanResult {
+  status: SerialScanStatus;
+  serialNumber: string;
+  productName: string;
+  productImage: string | null;
+  landingPageSlug: string | null;
+  firstScannedAt: string | null;
+  firstScanLatitude: number | null;
+  firstScanLongitude: number | null;
+  scanCount: number;
+}
+
+export interface MintedSerial {
+  serial_number: string;
+  token: string;
+}
+
+export function getSerialLink(token: string, origin = window.location.origin): string {
+  return `${origin}${SERIAL_LINK_PREFIX}${token}`;
+}
+
+export function formatSerialNumber(prefix: string, index: number): string {
+  return `${prefix}${String(index).padStart(6, '0')}`;
+}
+
+export function mintSerials(prefix: string, startIndex: number, quantity: number): MintedSerial[] {
+  return Array.from({ length: quantity }, (_, i) => ({
+    serial_number: formatSerialNumber(prefix, startIndex + i),
+    token: generateShortCode(SERIAL_TOKEN_LENGTH),
+  }));
+}
+
+export interface SerialLink {
+  serialNumber: string;
+  url: string;
+}
+
+// Manifest for the printer's variable-data job
+export function serialsToCsv(links: SerialLink[]): string {
+  return toCsv([
+    ['serial_number', 'url'],
+    ...links.map(link => [link.serialNumber, link.url]),
+  ]);
+}
+
+// Reads the JSON returned by record_serial_scan
+export function parseSerialScanResult(value: unknown): SerialScanResult {
+  const raw = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  const text = (input: unknown) => (typeof input === 'string' ? input : null);
+  const number = (input: unknown) => (typeof input === 'number' ? input : null);
+  const status = raw.status === 'verified' || raw.status === 'already_verified' ? raw.status : 'unknown';
+  return {
+    status,
+    serialNumber: text(raw.serial_number) ?? '',
+    productName: text(raw.product_name) ?? '',
+    productImage: text(raw.product_image),
+    landingPageSlug: text(raw.landing_page_slug),
+    firstScannedAt: text(raw.first_scanned_at),
+    firstScanLatitude: number(raw.first_scan_latitude),
+    firstScanLongitude: number(raw.first_scan_longitude),
+    scanCount: number(raw.scan_count) ?? 0,
+  };
+}
+
+// Remembers serials this browser verified first, so a shopper re-opening
+// their own scan isn't told the product was verified before
+const VERIFIED_SERIALS_KEY = 'verified-serials';
+
+function readVerifiedSerials(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(VERIFIED_SERIALS_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+export function rememberVerifiedSerial(token: string) {
+  const tokens = readVerifiedSerials().filter(stored => stored !== token);
+  // Keep the list bounded; only recent purchases matter
+  localStorage.setItem(VERIFIED_SERIALS_KEY, JSON.stringify([token, ...tokens].slice(0, 50)));
+}
+
+export function isOwnVerifiedSerial(token: string): boolean {
+  return readVerifiedSerials().includes(token);
+}
+
+// Best-effort device location; resolves to null when denied or unavailable
+export function getScanLocation(timeout = 5000): Promise<GeolocationCoordinates | null> {
+  return new Promise(resolve => {
+    if (!navigator.geolocation) {
+      resolve(null);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      position => resolve(position.coords),
+      () => resolve(null),
+      { timeout, maximumAge: 60000 },
+    );
+  });
+}
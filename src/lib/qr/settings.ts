@@ -0,0 +1,152 @@
+import { encodeText, ERROR_CORRECTION_LEVELS, ErrorCorrectionLevel, QRMatrix } from './encoder';
+import { GRADIENT_TYPES, GradientType, QRRenderOptions } from './render';
+import { DEFAULT_LOGO_SCALE, loadQRLogo, MAX_LOGO_SCALE, MIN_LOGO_SCALE } from './logo';
+import { FRAME_FONTS, FrameFont } from './fonts';
+import { DEFAULT_FRAME_TEXT, FRAME_STYLES, FrameStyle } from './frames';
+import { EYE_BALL_SHAPES, EYE_FRAME_SHAPES, EyeBallShape, EyeFrameShape, MODULE_SHAPES, ModuleShape } from './shapes';
+
+// Design settings stored in qr_codes.settings
+export interface QRDesignSettings {
+  foregroundColor: string;
+  backgroundColor: string;
+  logoUrl: string;
+  // Logo width as a fraction of the symbol width
+  logoScale: number;
+  // Data module style
+  shape: ModuleShape;
+  eyeFrameShape: EyeFrameShape;
+  eyeBallShape: EyeBallShape;
+  // Empty eye colors follow the foreground
+  eyeFrameColor: string;
+  eyeBallColor: string;
+  gradientType: GradientType;
+  gradientColor: string;
+  gradientRotation: number;
+  frame: FrameStyle;
+  frameText: string;
+  frameFont: FrameFont;
+  // Empty frame color follows the foreground
+  frameColor: string;
+  frameTextColor: string;
+  // Rounded corners of the whole image, in pixels at `size`
+  cornerRadius: number;
+  size: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+}
+
+export const DEFAULT_QR_SETTINGS: QRDesignSettings = {
+  foregroundColor: '#3F51B5',
+  backgroundColor: '#FFFFFF',
+  logoUrl: '',
+  logoScale: DEFAULT_LOGO_SCALE,
+  shape: 'square',
+  eyeFrameShape: 'square',
+  eyeBallShape: 'square',
+  eyeFrameColor: '',
+  eyeBallColor: '',
+  gradientType: 'none',
+  gradientColor: '#E91E63',
+  gradientRotation: 45,
+  frame: 'none',
+  frameText: DEFAULT_FRAME_TEXT,
+  frameFont: 'sans',
+  frameColor: '',
+  frameTextColor: '#FFFFFF',
+  cornerRadius: 0,
+  size: 300,
+  errorCorrectionLevel: 'M',
+};
+
+export const MAX_FRAME_TEXT_LENGTH = 40;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+function pickString(value: unknown, fallback: string): string {
+  return typeof value === 'string' ? value : fallback;
+}
+
+function pickColor(value: unknown, fallback: string): string {
+  return typeof value === 'string' && HEX_COLOR.test(value) ? value : fallback;
+}
+
+function pickOption<T extends string>(value: unknown, options: readonly { value: T }[], fallback: T): T {
+  return options.some(option => option.value === value) ? value as T : fallback;
+}
+
+function pickNumber(value: unknown, fallback: number, min: number, max: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+}
+
+// Reads a settings JSON value from the database, falling back to defaults
+// for anything missing or malformed (older rows have no settings at all).
+export function parseQRSettings(value: unknown): QRDesignSettings {
+  const raw = value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+  const defaults = DEFAULT_QR_SETTINGS;
+  return {
+    foregroundColor: pickColor(raw.foregroundColor, defaults.foregroundColor),
+    backgroundColor: pickColor(raw.backgroundColor, defaults.backgroundColor),
+    logoUrl: pickString(raw.logoUrl, defaults.logoUrl),
+    logoScale: pickNumber(raw.logoScale, defaults.logoScale, MIN_LOGO_SCALE, MAX_LOGO_SCALE),
+    shape: pickOption(raw.shape, MODULE_SHAPES, defaults.shape),
+    eyeFrameShape: pickOption(raw.eyeFrameShape, EYE_FRAME_SHAPES, defaults.eyeFrameShape),
+    eyeBallShape: pickOption(raw.eyeBallShape, EYE_BALL_SHAPES, defaults.eyeBallShape),
+    eyeFrameColor: pickColor(raw.eyeFrameColor, ''),
+    eyeBallColor: pickColor(raw.eyeBallColor, ''),
+    gradientType: pickOption(raw.gradientType, GRADIENT_TYPES, defaults.gradientType),
+    gradientColor: pickColor(raw.gradientColor, defaults.gradientColor),
+    gradientRotation: pickNumber(raw.gradientRotation, defaults.gradientRotation, 0, 360),
+    frame: pickOption(raw.frame, FRAME_STYLES, defaults.frame),
+    frameText: pickString(raw.frameText, defaults.frameText).slice(0, MAX_FRAME_TEXT_LENGTH),
+    frameFont: pickOption(raw.frameFont, FRAME_FONTS, defaults.frameFont),
+    frameColor: pickColor(raw.frameColor, ''),
+    frameTextColor: pickColor(raw.frameTextColor, defaults.frameTextColor),
+    cornerRadius: pickNumber(raw.cornerRadius, defaults.cornerRadius, 0, 100),
+    size: pickNumber(raw.size, defaults.size, 50, 4000),
+    errorCorrectionLevel: ERROR_CORRECTION_LEVELS.includes(raw.errorCorrectionLevel as ErrorCorrectionLevel)
+      ? raw.errorCorrectionLevel as ErrorCorrectionLevel
+      : defaults.errorCorrectionLevel,
+  };
+}
+
+// Overriding the size (e.g. for thumbnails) scales the corner radius with it
+export function toRenderOptions(settings: QRDesignSettings, overrides: QRRenderOptions = {}): QRRenderOptions {
+  const size = overrides.size ?? settings.size;
+  return {
+    foregroundColor: settings.foregroundColor,
+    backgroundColor: settings.backgroundColor,
+    gradient: settings.gradientType === 'none'
+      ? null
+      : { type: settings.gradientType, color: settings.gradientColor, rotation: settings.gradientRotation },
+    moduleShape: settings.shape,
+    eyeFrameShape: settings.eyeFrameShape,
+    eyeBallShape: settings.eyeBallShape,
+    eyeFrameColor: settings.eyeFrameColor,
+    eyeBallColor: settings.eyeBallColor,
+    frame: settings.frame === 'none' ? null : {
+      style: settings.frame,
+      text: settings.frameText,
+      font: settings.frameFont,
+      color: settings.frameColor || settings.foregroundColor,
+      textColor: settings.frameTextColor,
+    },
+    cornerRadius: settings.cornerRadius * size / settings.size,
+    logoScale: settings.logoScale,
+    ...overrides,
+    size,
+  };
+}
+
+// A logo hides part of the symbol, so it always needs the highest level
+export function effectiveErrorCorrectionLevel(settings: QRDesignSettings): ErrorCorrectionLevel {
+  return settings.logoUrl ? 'H' : settings.errorCorrectionLevel;
+}
+
+export function encodeWithSettings(data: string, settings: QRDesignSettings): QRMatrix {
+  return encodeText(data, { errorCorrectionLevel: effectiveErrorCorrectionLevel(settings) });
+}
+
+// Like toRenderOptions, but also fetches the logo for one-off exports
+export async function loadRenderOptions(settings: QRDesignSettings, overrides: QRRenderOptions = {}): Promise<QRRenderOptions> {
+  const logo = settings.logoUrl ? await loadQRLogo(settings.logoUrl) : null;
+  return toRenderOptions(settings, { logo, ...overrides });
+}
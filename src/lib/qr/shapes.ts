@@ -0,0 +1,199 @@
+// Path builders for QR module and finder-eye styles. Paths only use
+// absolute M, L, C and Z commands so they can be reused verbatim by the
+// canvas (Path2D), SVG and vector print exporters.
+
+export type ModuleShape = 'square' | 'rounded' | 'dots' | 'classy' | 'diamond';
+export type EyeFrameShape = 'square' | 'rounded' | 'circle';
+export type EyeBallShape = 'square' | 'rounded' | 'circle' | 'diamond';
+
+export const MODULE_SHAPES: { value: ModuleShape; label: string }[] = [
+  { value: 'square', label: 'Square' },
+  { value: 'rounded', label: 'Rounded' },
+  { value: 'dots', label: 'Dots' },
+  { value: 'classy', label: 'Classy' },
+  { value: 'diamond', label: 'Diamond' },
+];
+
+export const EYE_FRAME_SHAPES: { value: EyeFrameShape; label: string }[] = [
+  { value: 'square', label: 'Square' },
+  { value: 'rounded', label: 'Rounded' },
+  { value: 'circle', label: 'Circle' },
+];
+
+export const EYE_BALL_SHAPES: { value: EyeBallShape; label: string }[] = [
+  { value: 'square', label: 'Square' },
+  { value: 'rounded', label: 'Rounded' },
+  { value: 'circle', label: 'Circle' },
+  { value: 'diamond', label: 'Diamond' },
+];
+
+// Finder patterns are 7x7 modules with a 3x3 center
+export const FINDER_SIZE = 7;
+
+// Control point distance for approximating a quarter circle with a cubic
+const KAPPA = 0.5522847498;
+
+export interface Neighbors {
+  top: boolean;
+  right: boolean;
+  bottom: boolean;
+  left: boolean;
+}
+
+function fmt(value: number): string {
+  return String(+value.toFixed(4));
+}
+
+function point(x: number, y: number): string {
+  return `${fmt(x)} ${fmt(y)}`;
+}
+
+export function rectPath(x: number, y: number, width: number, height: number): string {
+  return `M${point(x, y)}L${point(x + width, y)}L${point(x + width, y + height)}L${point(x, y + height)}Z`;
+}
+
+// Corner radii are given clockwise from the top-left corner
+export function roundedRectPath(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  [topLeft, topRight, bottomRight, bottomLeft]: [number, number, number, number],
+): string {
+  const right = x + width;
+  const bottom = y + height;
+  let d = `M${point(x + topLeft, y)}L${point(right - topRight, y)}`;
+  if (topRight > 0) {
+    d += `C${point(right - topRight + topRight * KAPPA, y)} ${point(right, y + topRight - topRight * KAPPA)} ${point(right, y + topRight)}`;
+  }
+  d += `L${point(right, bottom - bottomRight)}`;
+  if (bottomRight > 0) {
+    d += `C${point(right, bottom - bottomRight + bottomRight * KAPPA)} ${point(right - bottomRight + bottomRight * KAPPA, bottom)} ${point(right - bottomRight, bottom)}`;
+  }
+  d += `L${point(x + bottomLeft, bottom)}`;
+  if (bottomLeft > 0) {
+    d += `C${point(x + bottomLeft - bottomLeft * KAPPA, bottom)} ${point(x, bottom - bottomLeft + bottomLeft * KAPPA)} ${point(x, bottom - bottomLeft)}`;
+  }
+  d += `L${point(x, y + topLeft)}`;
+  if (topLeft > 0) {
+    d += `C${point(x, y + topLeft - topLeft * KAPPA)} ${point(x + topLeft - topLeft * KAPPA, y)} ${point(x + topLeft, y)}`;
+  }
+  return `${d}Z`;
+}
+
+export function circlePath(cx: number, cy: number, radius: number): string {
+  return roundedRectPath(cx - radius, cy - radius, radius * 2, radius * 2, [radius, radius, radius, radius]);
+}
+
+export function diamondPath(x: number, y: number, width: number, height: number): string {
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+  return `M${point(cx, y)}L${point(x + width, cy)}L${point(cx, y + height)}L${point(x, cy)}Z`;
+}
+
+export function polygonPath(points: [number, number][]): string {
+  return `${points.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${point(x, y)}`).join('')}Z`;
+}
+
+// A single data module at (x, y). Neighbor flags let connected styles
+// only round the corners that are exposed.
+export function modulePath(shape: ModuleShape, x: number, y: number, neighbors: Neighbors): string {
+  switch (shape) {
+    case 'dots':
+      return circlePath(x + 0.5, y + 0.5, 0.45);
+    case 'diamond':
+      return diamondPath(x, y, 1, 1);
+    case 'rounded': {
+      const { top, right, bottom, left } = neighbors;
+      const r = 0.5;
+      return roundedRectPath(x, y, 1, 1, [
+        !top && !left ? r : 0,
+        !top && !right ? r : 0,
+        !bottom && !right ? r : 0,
+        !bottom && !left ? r : 0,
+      ]);
+    }
+    case 'classy': {
+      const { top, right, bottom, left } = neighbors;
+      const r = 0.5;
+      return roundedRectPath(x, y, 1, 1, [
+        !top && !left ? r : 0,
+        0,
+        !bottom && !right ? r : 0,
+        0,
+      ]);
+    }
+    case 'square':
+    default:
+      return rectPath(x, y, 1, 1);
+  }
+}
+
+// A 5x5 alignment pattern centered on (cx, cy). The ring is wound against
+// the outer edge so it stays hollow under the nonzero fill rule.
+export function alignmentPath(cx: number, cy: number): string {
+  const x = cx - 2;
+  const y = cy - 2;
+  const hole = `M${point(x + 1, y + 1)}L${point(x + 1, y + 4)}L${point(x + 4, y + 4)}L${point(x + 4, y + 1)}Z`;
+  return rectPath(x, y, 5, 5) + hole + rectPath(cx, cy, 1, 1);
+}
+
+// The 7x7 outer ring of a finder pattern; needs the even-odd fill rule
+export function eyeFramePath(shape: EyeFrameShape, x: number, y: number): string {
+  const outer = FINDER_SIZE;
+  const inner = FINDER_SIZE - 2;
+  switch (shape) {
+    case 'circle':
+      return circlePath(x + outer / 2, y + outer / 2, outer / 2) + circlePath(x + outer / 2, y + outer / 2, inner / 2);
+    case 'rounded':
+      return roundedRectPath(x, y, outer, outer, [2, 2, 2, 2]) + roundedRectPath(x + 1, y + 1, inner, inner, [1, 1, 1, 1]);
+    case 'square':
+    default:
+      return rectPath(x, y, outer, outer) + rectPath(x + 1, y + 1, inner, inner);
+  }
+}
+
+// The 3x3 center of a finder pattern whose top-left corner is (x, y)
+export function eyeBallPath(shape: EyeBallShape, x: number, y: number): string {
+  const size = 3;
+  const left = x + 2;
+  const top = y + 2;
+  switch (shape) {
+    // Round and diamond centers are drawn slightly larger than 3x3 so their
+    // diagonals stay close to the proportions scanners look for
+    case 'circle':
+      return circlePath(left + size / 2, top + size / 2, 1.75);
+    case 'rounded':
+      return roundedRectPath(left, top, size, size, [0.6, 0.6, 0.6, 0.6]);
+    case 'diamond':
+      return diamondPath(left - 0.5, top - 0.5, size + 1, size + 1);
+    case 'square':
+    default:
+      return rectPath(left, top, size, size);
+  }
+}
+
+export type PathCommand =
+  | { type: 'M' | 'L'; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Z' };
+
+// Splits a path built by this module back into commands, for exporters that
+// have their own path syntax (PDF, PostScript)
+export function parsePath(d: string): PathCommand[] {
+  const tokens = d.match(/[MLCZ]|-?\d*\.?\d+(?:e-?\d+)?/g) ?? [];
+  const commands: PathCommand[] = [];
+  let i = 0;
+  const next = () => Number(tokens[i++]);
+  while (i < tokens.length) {
+    const type = tokens[i++];
+    if (type === 'M' || type === 'L') {
+      commands.push({ type, x: next(), y: next() });
+    } else if (type === 'C') {
+      commands.push({ type, x1: next(), y1: next(), x2: next(), y2: next(), x: next(), y: next() });
+    } else if (type === 'Z') {
+      commands.push({ type });
+    }
+  }
+  return commands;
+}
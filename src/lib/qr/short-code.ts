@@ -0,0 +1,27 @@
+// Short codes for dynamic QR codes. The code is what gets printed, so it
+// must never change once a QR code is saved.
+
+const ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+export const SHORT_CODE_LENGTH = 7;
+export const SHORT_LINK_PREFIX = '/q/';
+
+export function generateShortCode(length = SHORT_CODE_LENGTH): string {
+  // Rejection sampling keeps every character equally likely
+  const limit = 256 - (256 % ALPHABET.length);
+  let code = '';
+  while (code.length < length) {
+    const bytes = crypto.getRandomValues(new Uint8Array(length * 2));
+    for (const byte of bytes) {
+      if (byte < limit && code.length < length) code += ALPHABET[byte % ALPHABET.length];
+    }
+  }
+  return code;
+}
+
+export function getShortLink(shortCode: string, origin = window.location.origin): string {
+  return `${origin}${SHORT_LINK_PREFIX}${shortCode}`;
+}
+
+export function isShortLink(url: string, origin = window.location.origin): boolean {
+  return url.startsWith(`${origin}${SHORT_LINK_PREFIX}`);
+}
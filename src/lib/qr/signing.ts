@@ -0,0 +1,183 @@
+// Ed25519-signed product codes that a browser can check without asking the
+// server whether the code is genuine. A code packs the claims and their
+// signature into one base64url string:
+//
+//   [format:1][key version:2][brand id:16][product id:16][serial:n][signature:64]
+//
+// The signature covers everything before it, including the key version.
+
+export const SIGNED_CODE_FORMAT = 1;
+export const SIGNED_LINK_PATH = '/verify';
+export const SIGNED_LINK_PARAM = 'c';
+export const MAX_SIGNED_SERIAL_BYTES = 64;
+
+const ALGORITHM = { name: 'Ed25519' };
+const SIGNATURE_BYTES = 64;
+const HEADER_BYTES = 1 + 2 + 16 + 16;
+
+export interface SignedClaims {
+  brandId: string;
+  productId: string;
+  serial: string;
+  keyVersion: number;
+}
+
+export interface SigningKeyPair {
+  // Raw 32-byte key, base64url
+  publicKey: string;
+  // PKCS#8, base64url
+  privateKey: string;
+}
+
+export type SignatureStatus = 'genuine' | 'tampered' | 'unknown_key';
+
+export interface SignatureCheck {
+  status: SignatureStatus;
+  // Null when the code could not be decoded at all
+  claims: SignedClaims | null;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder('utf-8', { fatal: true });
+
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function uuidToBytes(uuid: string): Uint8Array {
+  const hex = uuid.replace(/-/g, '');
+  if (!/^[0-9a-f]{32}$/i.test(hex)) throw new Error(`Invalid UUID: ${uuid}`);
+  return Uint8Array.from({ length: 16 }, (_, i) => parseInt(hex.slice(i * 2, i * 2 + 2), 16));
+}
+
+function bytesToUuid(bytes: Uint8Array): string {
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+export function encodeClaims(claims: SignedClaims): Uint8Array {
+  const serial = encoder.encode(claims.serial);
+  if (serial.length === 0 || serial.length > MAX_SIGNED_SERIAL_BYTES) {
+    throw new Error(`Serial must be 1 to ${MAX_SIGNED_SERIAL_BYTES} bytes`);
+  }
+  if (!Number.isInteger(claims.keyVersion) || claims.keyVersion < 1 || claims.keyVersion > 0xffff) {
+    throw new Error(`Invalid key version: ${claims.keyVersion}`);
+  }
+  const message = new Uint8Array(HEADER_BYTES + serial.length);
+  message[0] = SIGNED_CODE_FORMAT;
+  message[1] = claims.keyVersion >> 8;
+  message[2] = claims.keyVersion & 0xff;
+  message.set(uuidToBytes(claims.brandId), 3);
+  message.set(uuidToBytes(claims.productId), 19);
+  message.set(serial, HEADER_BYTES);
+  return message;
+}
+
+// Splits a code into its signed message and signature. Returns null for
+// anything that isn't structurally a signed code.
+export function decodeSignedCode(code: string): { claims: SignedClaims; message: Uint8Array; signature: Uint8Array } | null {
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(code.trim());
+  } catch {
+    return null;
+  }
+  const serialLength = bytes.length - HEADER_BYTES - SIGNATURE_BYTES;
+  if (bytes[0] !== SIGNED_CODE_FORMAT || serialLength < 1 || serialLength > MAX_SIGNED_SERIAL_BYTES) return null;
+
+  const message = bytes.slice(0, bytes.length - SIGNATURE_BYTES);
+  let serial: string;
+  try {
+    serial = decoder.decode(message.slice(HEADER_BYTES));
+  } catch {
+    return null;
+  }
+  return {
+    claims: {
+      keyVersion: (message[1] << 8) | message[2],
+      brandId: bytesToUuid(message.slice(3, 19)),
+      productId: bytesToUuid(message.slice(19, 35)),
+      serial,
+    },
+    message,
+    signature: bytes.slice(bytes.length - SIGNATURE_BYTES),
+  };
+}
+
+export async function generateSigningKeyPair(): Promise<SigningKeyPair> {
+  const pair = await crypto.subtle.generateKey(ALGORITHM, true, ['sign', 'verify']) as CryptoKeyPair;
+  const [publicKey, privateKey] = await Promise.all([
+    crypto.subtle.exportKey('raw', pair.publicKey),
+    crypto.subtle.exportKey('pkcs8', pair.privateKey),
+  ]);
+  return {
+    publicKey: toBase64Url(new Uint8Array(publicKey)),
+    privateKey: toBase64Url(new Uint8Array(privateKey)),
+  };
+}
+
+export function importSigningKey(privateKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('pkcs8', fromBase64Url(privateKey), ALGORITHM, false, ['sign']);
+}
+
+export async function createSignedCode(claims: SignedClaims, signingKey: CryptoKey): Promise<string> {
+  const message = encodeClaims(claims);
+  const signature = new Uint8Array(await crypto.subtle.sign(ALGORITHM, signingKey, message));
+  const code = new Uint8Array(message.length + signature.length);
+  code.set(message);
+  code.set(signature, message.length);
+  return toBase64Url(code);
+}
+
+export function getSignedLink(code: string, origin = window.location.origin): string {
+  return `${origin}${SIGNED_LINK_PATH}?${SIGNED_LINK_PARAM}=${code}`;
+}
+
+// lookupKey resolves a brand's public key for a version, or null if the
+// brand never published one
+export async function verifySignedCode(
+  code: string,
+  lookupKey: (brandId: string, version: number) => Promise<string | null>,
+): Promise<SignatureCheck> {
+  const decoded = decodeSignedCode(code);
+  if (!decoded) return { status: 'tampered', claims: null };
+
+  const { claims, message, signature } = decoded;
+  const publicKey = await lookupKey(claims.brandId, claims.keyVersion);
+  if (!publicKey) return { status: 'unknown_key', claims };
+
+  const key = await crypto.subtle.importKey('raw', fromBase64Url(publicKey), ALGORITHM, false, ['verify']);
+  const valid = await crypto.subtle.verify(ALGORITHM, key, signature, message);
+  return { status: valid ? 'genuine' : 'tampered', claims };
+}
+
+// Published keys never change for a given version, so they can be kept
+// indefinitely and let repeat checks run offline
+const PUBLIC_KEY_CACHE_KEY = 'brand-public-keys';
+
+function readPublicKeyCache(): Record<string, string> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PUBLIC_KEY_CACHE_KEY) || '{}');
+    return stored && typeof stored === 'object' ? stored : {};
+  } catch {
+    return {};
+  }
+}
+
+export function getCachedPublicKey(brandId: string, version: number): string | null {
+  return readPublicKeyCache()[`${brandId}:${version}`] ?? null;
+}
+
+export function cachePublicKey(brandId: string, version: number, publicKey: string) {
+  const cache = readPublicKeyCache();
+  cache[`${brandId}:${version}`] = publicKey;
+  localStorage.setItem(PUBLIC_KEY_CACHE_KEY, JSON.stringify(cache));
+}
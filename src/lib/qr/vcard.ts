@@ -0,0 +1,277 @@
+// vCard 3.0 (RFC 2426) and 4.0 (RFC 6350) contact cards for QR codes.
+// Output uses CRLF line endings and folds lines longer than 75 octets.
+
+export type VCardVersion = '3.0' | '4.0';
+export type VCardDelivery = 'inline' | 'hosted';
+export type VCardPhoneType = 'cell' | 'work' | 'home' | 'fax';
+export type VCardEmailType = 'work' | 'home';
+
+export const VCARD_VERSIONS: { value: VCardVersion; label: string }[] = [
+  { value: '3.0', label: 'vCard 3.0 (widest support)' },
+  { value: '4.0', label: 'vCard 4.0' },
+];
+
+export const PHONE_TYPES: { value: VCardPhoneType; label: string }[] = [
+  { value: 'cell', label: 'Mobile' },
+  { value: 'work', label: 'Work' },
+  { value: 'home', label: 'Home' },
+  { value: 'fax', label: 'Fax' },
+];
+
+export const EMAIL_TYPES: { value: VCardEmailType; label: string }[] = [
+  { value: 'work', label: 'Work' },
+  { value: 'home', label: 'Personal' },
+];
+
+export interface VCardPhone {
+  type: VCardPhoneType;
+  value: string;
+}
+
+export interface VCardEmail {
+  type: VCardEmailType;
+  value: string;
+}
+
+export interface VCardAddress {
+  street: string;
+  city: string;
+  region: string;
+  postalCode: string;
+  country: string;
+}
+
+export interface VCardContact {
+  firstName: string;
+  lastName: string;
+  organization: string;
+  jobTitle: string;
+  phones: VCardPhone[];
+  emails: VCardEmail[];
+  address: VCardAddress;
+  website: string;
+  photoUrl: string;
+}
+
+// Embedded photo for hosted cards; inline cards link to `photoUrl` instead
+export interface VCardPhoto {
+  mimeType: string;
+  base64: string;
+}
+
+export const EMPTY_VCARD: VCardContact = {
+  firstName: '',
+  lastName: '',
+  organization: '',
+  jobTitle: '',
+  phones: [{ type: 'cell', value: '' }],
+  emails: [{ type: 'work', value: '' }],
+  address: { street: '', city: '', region: '', postalCode: '', country: '' },
+  website: '',
+  photoUrl: '',
+};
+
+// Larger inline cards make the code too dense to scan comfortably
+export const MAX_INLINE_VCARD_LENGTH = 600;
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+export const PHONE_PATTERN = /^\+?[0-9 ()./-]{3,}$/;
+const encoder = new TextEncoder();
+
+// Text escaping shared by vCard and iCalendar
+export function escapeValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r\n|\r|\n/g, '\\n')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;');
+}
+
+// Structured values (N, ADR) separate their components with semicolons
+function structuredValue(parts: string[]): string {
+  return parts.map(part => escapeValue(part.trim())).join(';');
+}
+
+// Splits a content line into 75-octet chunks without breaking UTF-8 sequences
+export function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+}
+
+function normalizeUrl(url: string): string {
+  const trimmed = url.trim();
+  if (!trimmed || /^[a-z][a-z0-9+.-]*:/i.test(trimmed)) return trimmed;
+  return `https://${trimmed}`;
+}
+
+export function getDisplayName(contact: VCardContact): string {
+  const name = [contact.firstName, contact.lastName].map(part => part.trim()).filter(Boolean).join(' ');
+  return name || contact.organization.trim();
+}
+
+export function buildVCard(contact: VCardContact, version: VCardVersion, photo: VCardPhoto | null = null): string {
+  const isV4 = version === '4.0';
+  const lines = ['BEGIN:VCARD', `VERSION:${version}`];
+
+  lines.push(`N:${structuredValue([contact.lastName, contact.firstName, '', '', ''])}`);
+  lines.push(`FN:${escapeValue(getDisplayName(contact))}`);
+  if (contact.organization.trim()) lines.push(`ORG:${escapeValue(contact.organization.trim())}`);
+  if (contact.jobTitle.trim()) lines.push(`TITLE:${escapeValue(contact.jobTitle.trim())}`);
+
+  contact.phones.filter(phone => phone.value.trim()).forEach(phone => {
+    const number = phone.value.trim();
+    const types = phone.type === 'fax' ? ['work', 'fax'] : phone.type === 'cell' ? ['cell', 'voice'] : [phone.type, 'voice'];
+    if (isV4) {
+      // 4.0 phone numbers are tel: URIs, which allow no spaces
+      lines.push(`TEL;VALUE=uri;TYPE="${types.join(',')}":tel:${number.replace(/\s+/g, '-')}`);
+    } else {
+      lines.push(`TEL;TYPE=${types.map(type => type.toUpperCase()).join(',')}:${escapeValue(number)}`);
+    }
+  });
+
+  contact.emails.filter(email => email.value.trim()).forEach(email => {
+    const type = isV4 ? email.type : `INTERNET,${email.type.toUpperCase()}`;
+    lines.push(`EMAIL;TYPE=${type}:${escapeValue(email.value.trim())}`);
+  });
+
+  const { street, city, region, postalCode, country } = contact.address;
+  if ([street, city, region, postalCode, country].some(part => part.trim())) {
+    lines.push(`ADR;TYPE=${isV4 ? 'work' : 'WORK'}:${structuredValue(['', '', street, city, region, postalCode, country])}`);
+  }
+
+  if (contact.website.trim()) lines.push(`URL:${escapeValue(normalizeUrl(contact.website))}`);
+
+  if (photo) {
+    lines.push(isV4
+      ? `PHOTO:data:${photo.mimeType};base64,${photo.base64}`
+      : `PHOTO;ENCODING=b;TYPE=${photo.mimeType.replace(/^image\//, '').toUpperCase()}:${photo.base64}`);
+  } else if (contact.photoUrl.trim()) {
+    lines.push(isV4 ? `PHOTO:${contact.photoUrl.trim()}` : `PHOTO;VALUE=URI:${contact.photoUrl.trim()}`);
+  }
+
+  lines.push('END:VCARD');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+// Returns a list of problems; an empty list means the card can be generated
+export function validateVCard(contact: VCardContact): string[] {
+  const errors: string[] = [];
+  if (!getDisplayName(contact)) errors.push('Enter a name or organization');
+  contact.phones.forEach(phone => {
+    if (phone.value.trim() && !PHONE_PATTERN.test(phone.value.trim())) {
+      errors.push(`"${phone.value.trim()}" is not a valid phone number`);
+    }
+  });
+  contact.emails.forEach(email => {
+    if (email.value.trim() && !EMAIL_PATTERN.test(email.value.trim())) {
+      errors.push(`"${email.value.trim()}" is not a valid email address`);
+    }
+  });
+  if (contact.website.trim()) {
+    try {
+      new URL(normalizeUrl(contact.website));
+    } catch {
+      errors.push('Enter a valid website URL');
+    }
+  }
+  if (contact.photoUrl.trim() && !/^https?:\/\//i.test(contact.photoUrl.trim())) {
+    errors.push('The photo must be an http(s) URL');
+  }
+  return errors;
+}
+
+// Downloads the photo so hosted cards work in apps that don't fetch URLs
+export async function fetchVCardPhoto(url: string): Promise<VCardPhoto> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load photo (${response.status})`);
+  const blob = await response.blob();
+  if (!/^image\/(jpeg|png|gif)$/.test(blob.type)) throw new Error('The photo must be a JPEG, PNG or GIF image');
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return { mimeType: blob.type, base64: btoa(binary) };
+}
+
+interface BrandProfile {
+  name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: unknown;
+  social_links?: unknown;
+}
+
+// Contact details from the brand profile; fields the brand hasn't filled in
+// keep their current values
+export function applyBrandProfile(contact: VCardContact, brand: BrandProfile): VCardContact {
+  const next = { ...contact, address: { ...contact.address } };
+  if (brand.name) next.organization = brand.name;
+  if (brand.phone) next.phones = [{ type: 'work', value: brand.phone }, ...contact.phones.filter(phone => phone.value.trim())];
+  if (brand.email) next.emails = [{ type: 'work', value: brand.email }, ...contact.emails.filter(email => email.value.trim())];
+
+  // Older profiles store the address as a single string
+  if (typeof brand.address === 'string' && brand.address.trim()) {
+    next.address = { ...EMPTY_VCARD.address, street: brand.address.trim() };
+  } else if (brand.address && typeof brand.address === 'object') {
+    const address = brand.address as Record<string, unknown>;
+    const text = (key: string) => (typeof address[key] === 'string' ? (address[key] as string) : '');
+    next.address = {
+      street: text('street'),
+      city: text('city'),
+      region: text('state') || text('region'),
+      postalCode: text('postalCode') || text('postal_code') || text('zip'),
+      country: text('country'),
+    };
+  }
+
+  if (brand.social_links && typeof brand.social_links === 'object') {
+    const links = brand.social_links as Record<string, unknown>;
+    const website = typeof links.website === 'string' ? links.website : Object.values(links).find(link => typeof link === 'string');
+    if (website) next.website = website as string;
+  }
+  return next;
+}
+
+// Restores a saved contact, filling gaps from older or partial records
+export function parseVCardContact(value: unknown): VCardContact {
+  if (!value || typeof value !== 'object') return EMPTY_VCARD;
+  const raw = value as Partial<VCardContact>;
+  const text = (input: unknown) => (typeof input === 'string' ? input : '');
+  return {
+    firstName: text(raw.firstName),
+    lastName: text(raw.lastName),
+    organization: text(raw.organization),
+    jobTitle: text(raw.jobTitle),
+    phones: Array.isArray(raw.phones) && raw.phones.length > 0
+      ? raw.phones.map(phone => ({ type: PHONE_TYPES.some(t => t.value === phone?.type) ? phone.type : 'cell', value: text(phone?.value) }))
+      : EMPTY_VCARD.phones,
+    emails: Array.isArray(raw.emails) && raw.emails.length > 0
+      ? raw.emails.map(email => ({ type: EMAIL_TYPES.some(t => t.value === email?.type) ? email.type : 'work', value: text(email?.value) }))
+      : EMPTY_VCARD.emails,
+    address: {
+      street: text(raw.address?.street),
+      city: text(raw.address?.city),
+      region: text(raw.address?.region),
+      postalCode: text(raw.address?.postalCode),
+      country: text(raw.address?.country),
+    },
+    website: text(raw.website),
+    photoUrl: text(raw.photoUrl),
+  };
+}
@@ -0,0 +1,114 @@
+// Helpers shared by the PDF and EPS writers
+
+import { QRLogo } from './logo';
+import { parsePath } from './shapes';
+
+export type ColorMode = 'rgb' | 'cmyk';
+
+export interface VectorPageOptions {
+  // Points (1/72 inch) per module
+  scale: number;
+  // Extra background around the artwork, in points
+  bleed: number;
+  colorMode: ColorMode;
+  title: string;
+}
+
+export function formatNumber(value: number): string {
+  return String(+value.toFixed(4));
+}
+
+export function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace('#', ''), 16);
+  if (Number.isNaN(value)) return [0, 0, 0];
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map(channel => channel / 255) as [number, number, number];
+}
+
+// Naive device conversion. Pure black becomes K only (no rich black), which
+// is what printers expect for small, sharp QR modules.
+export function rgbToCmyk([r, g, b]: [number, number, number]): [number, number, number, number] {
+  const k = 1 - Math.max(r, g, b);
+  if (k >= 1) return [0, 0, 0, 1];
+  return [(1 - r - k) / (1 - k), (1 - g - k) / (1 - k), (1 - b - k) / (1 - k), k];
+}
+
+export function colorComponents(hex: string, mode: ColorMode): number[] {
+  const rgb = hexToRgb(hex);
+  return mode === 'cmyk' ? rgbToCmyk(rgb) : rgb;
+}
+
+interface PathOperators {
+  move: string;
+  line: string;
+  curve: string;
+  close: string;
+}
+
+// Rewrites an SVG-style path from shapes.ts in postfix operator syntax
+export function toPostfixPath(d: string, operators: PathOperators): string {
+  const n = formatNumber;
+  return parsePath(d).map(command => {
+    switch (command.type) {
+      case 'M':
+        return `${n(command.x)} ${n(command.y)} ${operators.move}`;
+      case 'L':
+        return `${n(command.x)} ${n(command.y)} ${operators.line}`;
+      case 'C':
+        return `${n(command.x1)} ${n(command.y1)} ${n(command.x2)} ${n(command.y2)} ${n(command.x)} ${n(command.y)} ${operators.curve}`;
+      default:
+        return operators.close;
+    }
+  }).join('\n');
+}
+
+export interface LogoPixels {
+  width: number;
+  height: number;
+  // RGBA, 8 bits per channel
+  data: Uint8ClampedArray;
+}
+
+// Rasterizes the logo for formats that cannot embed the original file
+export function getLogoPixels(logo: QRLogo, maxSize: number): LogoPixels {
+  const ratio = Math.min(1, maxSize / Math.max(logo.width || 1, logo.height || 1));
+  const width = Math.max(1, Math.round((logo.width || maxSize) * ratio));
+  const height = Math.max(1, Math.round((logo.height || maxSize) * ratio));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.drawImage(logo.image, 0, 0, width, height);
+  return { width, height, data: ctx.getImageData(0, 0, width, height).data };
+}
+
+// Converts RGBA pixels to packed RGB or CMYK samples, optionally blending
+// transparent areas onto a background color
+export function packPixels(pixels: LogoPixels, mode: ColorMode, background?: string): Uint8Array {
+  const [bgR, bgG, bgB] = background ? hexToRgb(background).map(channel => channel * 255) : [0, 0, 0];
+  const channels = mode === 'cmyk' ? 4 : 3;
+  const out = new Uint8Array(pixels.width * pixels.height * channels);
+  for (let i = 0, o = 0; i < pixels.data.length; i += 4, o += channels) {
+    const alpha = background ? pixels.data[i + 3] / 255 : 1;
+    const r = pixels.data[i] * alpha + bgR * (1 - alpha);
+    const g = pixels.data[i + 1] * alpha + bgG * (1 - alpha);
+    const b = pixels.data[i + 2] * alpha + bgB * (1 - alpha);
+    if (mode === 'cmyk') {
+      const cmyk = rgbToCmyk([r / 255, g / 255, b / 255]);
+      cmyk.forEach((value, c) => {
+        out[o + c] = Math.round(value * 255);
+      });
+    } else {
+      out[o] = Math.round(r);
+      out[o + 1] = Math.round(g);
+      out[o + 2] = Math.round(b);
+    }
+  }
+  return out;
+}
+
+// zlib-wrapped deflate, as expected by the PDF FlateDecode filter
+export async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
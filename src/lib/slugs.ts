@@ -0,0 +1,39 @@
+// Landing page slugs live at the root of the site, next to the app's own
+// routes. Shared by the page editor and middleware.ts; the database
+// enforces the same rules in check_landing_page_slug.
+
+export const MIN_SLUG_LENGTH = 3;
+export const MAX_SLUG_LENGTH = 60;
+
+// Top-level app routes and names kept free for future ones. Keep in sync with
+// is_reserved_slug in the database.
+export const RESERVED_SLUGS = [
+  'q', 's', 'verify', 'dashboard', 'auth', 'profile', 'admin', 'api',
+  'app', 'assets', 'static', 'public', 'login', 'logout', 'signup',
+  'register', 'settings', 'account', 'help', 'support', 'about',
+  'terms', 'privacy', 'index', 'home', 'www', 'edit-page', 'create-page',
+];
+
+const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// Lowercases, drops accents and turns everything else into single dashes.
+// While typing, a trailing dash is kept so the next word can follow it.
+export function normalizeSlug(value: string, { keepTrailingDash = false } = {}): string {
+  const slug = value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+/, '')
+    .slice(0, MAX_SLUG_LENGTH);
+  return keepTrailingDash ? slug : slug.replace(/-+$/, '');
+}
+
+// Keep in sync with check_landing_page_slug in the database
+export function validateSlug(slug: string): string | null {
+  if (slug.length < MIN_SLUG_LENGTH) return `Use at least ${MIN_SLUG_LENGTH} characters`;
+  if (slug.length > MAX_SLUG_LENGTH) return `Use at most ${MAX_SLUG_LENGTH} characters`;
+  if (!SLUG_PATTERN.test(slug)) return 'Use lowercase letters, numbers and single dashes';
+  if (RESERVED_SLUGS.includes(slug)) return `"${slug}" is reserved by the app`;
+  return null;
+}
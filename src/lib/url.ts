@@ -0,0 +1,18 @@
+// Helpers for links that visitors get sent to
+
+// Only web links may be redirected to; anything else, like a javascript:
+// URL, would run on the app's origin. The database checks the same rule.
+export function isHttpUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+// Bare hosts like "example.com" become https links. Any other scheme, such
+// as javascript: or mailto:, is rejected, matching what the database allows.
+export function normalizeUrl(url: string): string {
+  if (isHttpUrl(url)) return url;
+  // A colon followed by digits is a port, not a scheme
+  if (/^[a-z][a-z0-9+.-]*:(?!\d)/i.test(url)) {
+    throw new Error(`Only http and https links are allowed: ${url}`);
+  }
+  return `https://${url}`;
+}
@@ -0,0 +1,96 @@
+// UTM campaign parameters: appended to QR destinations and read back from
+// landing page visits.
+
+export const UTM_FIELDS = [
+  { key: 'utm_source', label: 'Source', placeholder: 'flyer' },
+  { key: 'utm_medium', label: 'Medium', placeholder: 'qr' },
+  { key: 'utm_campaign', label: 'Campaign', placeholder: 'spring_sale' },
+  { key: 'utm_term', label: 'Term', placeholder: 'running+shoes' },
+  { key: 'utm_content', label: 'Content', placeholder: 'back_cover' },
+] as const;
+
+export type UtmKey = typeof UTM_FIELDS[number]['key'];
+
+export type UtmParams = Record<UtmKey, string>;
+
+export const EMPTY_UTM: UtmParams = {
+  utm_source: '',
+  utm_medium: '',
+  utm_campaign: '',
+  utm_term: '',
+  utm_content: '',
+};
+
+// Longest value kept from an incoming visit
+const MAX_UTM_LENGTH = 200;
+
+export function hasUtm(params: UtmParams): boolean {
+  return UTM_FIELDS.some(({ key }) => params[key].trim() !== '');
+}
+
+// Sets the non-empty parameters on the URL, replacing any existing UTM
+// values and keeping other query parameters
+export function applyUtm(url: string, params: UtmParams): string {
+  if (!hasUtm(params)) return url;
+  try {
+    const parsed = new URL(url);
+    UTM_FIELDS.forEach(({ key }) => {
+      const value = params[key].trim();
+      if (value) parsed.searchParams.set(key, value);
+      else parsed.searchParams.delete(key);
+    });
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+// Splits a saved destination back into its base URL and UTM parameters
+export function extractUtm(url: string): { baseUrl: string; params: UtmParams } {
+  try {
+    const parsed = new URL(url);
+    const params = { ...EMPTY_UTM };
+    UTM_FIELDS.forEach(({ key }) => {
+      params[key] = parsed.searchParams.get(key) || '';
+      parsed.searchParams.delete(key);
+    });
+    return { baseUrl: hasUtm(params) ? parsed.toString() : url, params };
+  } catch {
+    return { baseUrl: url, params: { ...EMPTY_UTM } };
+  }
+}
+
+// UTM columns for a page_views row, null where the visit had none
+export function readUtmFromSearch(search: string): Record<UtmKey, string | null> {
+  const query = new URLSearchParams(search);
+  const read = (key: UtmKey) => query.get(key)?.trim().slice(0, MAX_UTM_LENGTH) || null;
+  return {
+    utm_source: read('utm_source'),
+    utm_medium: read('utm_medium'),
+    utm_campaign: read('utm_campaign'),
+    utm_term: read('utm_term'),
+    utm_content: read('utm_content'),
+  };
+}
+
+export interface CampaignTraffic {
+  campaign: string | null;
+  source: string | null;
+  medium: string | null;
+  views: number;
+}
+
+// Groups page views by campaign, source and medium, busiest first
+export function groupByCampaign(
+  rows: { utm_campaign: string | null; utm_source: string | null; utm_medium: string | null }[],
+): CampaignTraffic[] {
+  const groups = new Map<string, CampaignTraffic>();
+  rows.forEach(row => {
+    if (!row.utm_campaign && !row.utm_source && !row.utm_medium) return;
+    const key = JSON.stringify([row.utm_campaign, row.utm_source, row.utm_medium]);
+    const group = groups.get(key) || { campaign: row.utm_campaign, source: row.utm_source, medium: row.utm_medium, views: 0 };
+    group.views++;
+    groups.set(key, group);
+  });
+  return Array.from(groups.values()).sort((a, b) => b.views - a.views);
+}
@@ -0,0 +1,352 @@
+// Invisible image watermark carrying a 32-bit asset id. The image's
+// luminance is resampled to a fixed 256x256 grid, and each 8x8 DCT block of
+// that grid encodes payload bits in the ordering of mid-frequency coefficient
+// pairs. Working on a fixed grid lets the mark survive resizing; relative
+// ordering survives brightness changes and moderate JPEG recompression.
+// Cropping and rotation are not survived.
+
+import { supabase } from '@/integrations/supabase/client';
+import { crc32 } from './crc32';
+
+export interface PixelData {
+  width: number;
+  height: number;
+  // RGBA, 4 bytes per pixel
+  data: Uint8ClampedArray;
+}
+
+export interface WatermarkDetection {
+  found: boolean;
+  watermarkId: number | null;
+  // 0 to 1: how consistently the blocks agree on the decoded bits
+  confidence: number;
+}
+
+const GRID = 256;
+const BLOCK = 8;
+const ID_BITS = 32;
+const CHECK_BITS = 16;
+const PAYLOAD_BITS = ID_BITS + CHECK_BITS;
+// [row, col] coefficient pairs; each pair is one vote for one payload bit
+const COEFFICIENT_PAIRS = [
+  [[1, 2], [2, 1]],
+  [[1, 3], [3, 1]],
+];
+const SLOTS = (GRID / BLOCK) ** 2 * COEFFICIENT_PAIRS.length;
+// Minimum coefficient gap in grid units; raised if a first pass reads back weakly
+const STRENGTHS = [10, 16, 24];
+const MIN_EMBED_CONFIDENCE = 0.6;
+// Below this an image is reported as unmarked even if the checksum matches
+const MIN_DETECT_CONFIDENCE = 0.2;
+export const MIN_WATERMARK_SIZE = 64;
+
+// Types the browser can re-encode without changing the file extension
+export const WATERMARKABLE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Fixed pseudo-random layout: which bit each slot carries and its sign
+// scrambling, so natural image structure doesn't read as a payload
+const LAYOUT = (() => {
+  let seed = 0x5eed1e55;
+  const random = () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const order = Array.from({ length: SLOTS }, (_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return {
+    bit: order.map(slot => slot % PAYLOAD_BITS),
+    sign: order.map(() => (random() < 0.5 ? -1 : 1)),
+  };
+})();
+
+// Orthonormal 8x8 DCT-II basis
+const COS = (() => {
+  const table = new Float64Array(BLOCK * BLOCK);
+  for (let k = 0; k < BLOCK; k++) {
+    const scale = k === 0 ? Math.sqrt(1 / BLOCK) : Math.sqrt(2 / BLOCK);
+    for (let n = 0; n < BLOCK; n++) {
+      table[k * BLOCK + n] = scale * Math.cos(((2 * n + 1) * k * Math.PI) / (2 * BLOCK));
+    }
+  }
+  return table;
+})();
+
+function dctBlock(input: Float64Array): Float64Array {
+  const temp = new Float64Array(BLOCK * BLOCK);
+  const output = new Float64Array(BLOCK * BLOCK);
+  for (let y = 0; y < BLOCK; y++) {
+    for (let v = 0; v < BLOCK; v++) {
+      let sum = 0;
+      for (let x = 0; x < BLOCK; x++) sum += COS[v * BLOCK + x] * input[y * BLOCK + x];
+      temp[y * BLOCK + v] = sum;
+    }
+  }
+  for (let u = 0; u < BLOCK; u++) {
+    for (let v = 0; v < BLOCK; v++) {
+      let sum = 0;
+      for (let y = 0; y < BLOCK; y++) sum += COS[u * BLOCK + y] * temp[y * BLOCK + v];
+      output[u * BLOCK + v] = sum;
+    }
+  }
+  return output;
+}
+
+function idctBlock(input: Float64Array): Float64Array {
+  const temp = new Float64Array(BLOCK * BLOCK);
+  const output = new Float64Array(BLOCK * BLOCK);
+  for (let y = 0; y < BLOCK; y++) {
+    for (let v = 0; v < BLOCK; v++) {
+      let sum = 0;
+      for (let u = 0; u < BLOCK; u++) sum += COS[u * BLOCK + y] * input[u * BLOCK + v];
+      temp[y * BLOCK + v] = sum;
+    }
+  }
+  for (let y = 0; y < BLOCK; y++) {
+    for (let x = 0; x < BLOCK; x++) {
+      let sum = 0;
+      for (let v = 0; v < BLOCK; v++) sum += COS[v * BLOCK + x] * temp[y * BLOCK + v];
+      output[y * BLOCK + x] = sum;
+    }
+  }
+  return output;
+}
+
+function luminance(pixels: PixelData): Float64Array {
+  const { width, height, data } = pixels;
+  const output = new Float64Array(width * height);
+  for (let i = 0; i < output.length; i++) {
+    output[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return output;
+}
+
+// Per-axis area weights for resampling `from` samples into `to` samples
+function areaWeights(from: number, to: number) {
+  const ratio = from / to;
+  return Array.from({ length: to }, (_, j) => {
+    const start = j * ratio;
+    const end = (j + 1) * ratio;
+    const taps: [number, number][] = [];
+    for (let i = Math.floor(start); i < Math.min(from, Math.ceil(end)); i++) {
+      const overlap = Math.min(end, i + 1) - Math.max(start, i);
+      if (overlap > 0) taps.push([i, overlap / ratio]);
+    }
+    return taps;
+  });
+}
+
+// Area-average resampling to the grid; exact box filter in both directions
+function toGrid(values: Float64Array, width: number, height: number): Float64Array {
+  const columns = areaWeights(width, GRID);
+  const rows = areaWeights(height, GRID);
+  const horizontal = new Float64Array(height * GRID);
+  for (let y = 0; y < height; y++) {
+    for (let gx = 0; gx < GRID; gx++) {
+      let sum = 0;
+      for (const [x, weight] of columns[gx]) sum += values[y * width + x] * weight;
+      horizontal[y * GRID + gx] = sum;
+    }
+  }
+  const output = new Float64Array(GRID * GRID);
+  for (let gy = 0; gy < GRID; gy++) {
+    for (let gx = 0; gx < GRID; gx++) {
+      let sum = 0;
+      for (const [y, weight] of rows[gy]) sum += horizontal[y * GRID + gx] * weight;
+      output[gy * GRID + gx] = sum;
+    }
+  }
+  return output;
+}
+
+// Bilinear sample of a grid value at image pixel (x, y)
+function sampleGrid(grid: Float64Array, x: number, y: number, width: number, height: number): number {
+  const gx = Math.min(GRID - 1, Math.max(0, ((x + 0.5) * GRID) / width - 0.5));
+  const gy = Math.min(GRID - 1, Math.max(0, ((y + 0.5) * GRID) / height - 0.5));
+  const x0 = Math.floor(gx);
+  const y0 = Math.floor(gy);
+  const x1 = Math.min(GRID - 1, x0 + 1);
+  const y1 = Math.min(GRID - 1, y0 + 1);
+  const fx = gx - x0;
+  const fy = gy - y0;
+  const top = grid[y0 * GRID + x0] * (1 - fx) + grid[y0 * GRID + x1] * fx;
+  const bottom = grid[y1 * GRID + x0] * (1 - fx) + grid[y1 * GRID + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+// Calls visit(block coefficients, first slot index) for every grid block
+function forEachBlock(grid: Float64Array, visit: (coefficients: Float64Array, slot: number) => Float64Array | void) {
+  const blocks = GRID / BLOCK;
+  const block = new Float64Array(BLOCK * BLOCK);
+  for (let by = 0; by < blocks; by++) {
+    for (let bx = 0; bx < blocks; bx++) {
+      for (let y = 0; y < BLOCK; y++) {
+        for (let x = 0; x < BLOCK; x++) block[y * BLOCK + x] = grid[(by * BLOCK + y) * GRID + bx * BLOCK + x];
+      }
+      const changed = visit(dctBlock(block), (by * blocks + bx) * COEFFICIENT_PAIRS.length);
+      if (!changed) continue;
+      const pixels = idctBlock(changed);
+      for (let y = 0; y < BLOCK; y++) {
+        for (let x = 0; x < BLOCK; x++) grid[(by * BLOCK + y) * GRID + bx * BLOCK + x] = pixels[y * BLOCK + x];
+      }
+    }
+  }
+}
+
+function payloadBits(watermarkId: number): number[] {
+  const id = new Uint8Array([watermarkId >>> 24, watermarkId >>> 16, watermarkId >>> 8, watermarkId]);
+  const check = crc32(id) & 0xffff;
+  return [
+    ...Array.from({ length: ID_BITS }, (_, i) => (watermarkId >>> (ID_BITS - 1 - i)) & 1),
+    ...Array.from({ length: CHECK_BITS }, (_, i) => (check >>> (CHECK_BITS - 1 - i)) & 1),
+  ];
+}
+
+export function generateWatermarkId(): number {
+  const value = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(value);
+  } while (value[0] === 0);
+  return value[0];
+}
+
+function embedWithStrength(pixels: PixelData, bits: number[], strength: number): PixelData {
+  const { width, height, data } = pixels;
+  const original = toGrid(luminance(pixels), width, height);
+  const marked = original.slice();
+  forEachBlock(marked, (coefficients, firstSlot) => {
+    COEFFICIENT_PAIRS.forEach(([[u1, v1], [u2, v2]], pair) => {
+      const slot = firstSlot + pair;
+      const target = (bits[LAYOUT.bit[slot]] ? 1 : -1) * LAYOUT.sign[slot];
+      const a = u1 * BLOCK + v1;
+      const b = u2 * BLOCK + v2;
+      const gap = target * (coefficients[a] - coefficients[b]);
+      if (gap >= strength) return;
+      const shift = (strength - gap) / 2;
+      coefficients[a] += target * shift;
+      coefficients[b] -= target * shift;
+    });
+    return coefficients;
+  });
+
+  const delta = marked.map((value, i) => value - original[i]);
+  const output = new Uint8ClampedArray(data);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Equal shifts to R, G and B move luminance by the same amount
+      const shift = sampleGrid(delta, x, y, width, height);
+      const i = (y * width + x) * 4;
+      output[i] = data[i] + shift;
+      output[i + 1] = data[i + 1] + shift;
+      output[i + 2] = data[i + 2] + shift;
+    }
+  }
+  return { width, height, data: output };
+}
+
+// Returns a marked copy. Strength is raised until the mark reads back
+// reliably from the 8-bit result.
+export function embedWatermark(pixels: PixelData, watermarkId: number): PixelData {
+  if (pixels.width < MIN_WATERMARK_SIZE || pixels.height < MIN_WATERMARK_SIZE) {
+    throw new Error(`Images must be at least ${MIN_WATERMARK_SIZE}x${MIN_WATERMARK_SIZE} pixels to watermark`);
+  }
+  const bits = payloadBits(watermarkId);
+  let marked = pixels;
+  for (const strength of STRENGTHS) {
+    marked = embedWithStrength(pixels, bits, strength);
+    const check = detectWatermark(marked);
+    if (check.watermarkId === watermarkId && check.confidence >= MIN_EMBED_CONFIDENCE) return marked;
+  }
+  // Flat or clipped images can't hold a strong mark; keep the strongest try
+  return marked;
+}
+
+export function detectWatermark(pixels: PixelData): WatermarkDetection {
+  if (pixels.width < MIN_WATERMARK_SIZE || pixels.height < MIN_WATERMARK_SIZE) {
+    return { found: false, watermarkId: null, confidence: 0 };
+  }
+  const grid = toGrid(luminance(pixels), pixels.width, pixels.height);
+  const votes = new Float64Array(PAYLOAD_BITS);
+  const slotVotes: number[][] = Array.from({ length: PAYLOAD_BITS }, () => []);
+  forEachBlock(grid, (coefficients, firstSlot) => {
+    COEFFICIENT_PAIRS.forEach(([[u1, v1], [u2, v2]], pair) => {
+      const slot = firstSlot + pair;
+      const vote = LAYOUT.sign[slot] * (coefficients[u1 * BLOCK + v1] - coefficients[u2 * BLOCK + v2]);
+      votes[LAYOUT.bit[slot]] += Math.max(-STRENGTHS[0] * 2, Math.min(STRENGTHS[0] * 2, vote));
+      slotVotes[LAYOUT.bit[slot]].push(vote);
+    });
+  });
+
+  const bits = Array.from(votes, vote => (vote > 0 ? 1 : 0));
+  // Share of slots agreeing with each decoded bit, rescaled so chance is 0
+  const agreement = slotVotes.map((slots, bit) => {
+    const agreeing = slots.filter(vote => (bits[bit] ? vote > 0 : vote <= 0)).length;
+    return (2 * agreeing) / slots.length - 1;
+  });
+  const confidence = Math.max(0, Math.min(1, agreement.reduce((sum, value) => sum + value, 0) / PAYLOAD_BITS));
+
+  const watermarkId = bits.slice(0, ID_BITS).reduce((value, bit) => ((value << 1) | bit) >>> 0, 0);
+  const matches = payloadBits(watermarkId).every((bit, i) => bit === bits[i]);
+  const found = matches && watermarkId !== 0 && confidence >= MIN_DETECT_CONFIDENCE;
+  return { found, watermarkId: found ? watermarkId : null, confidence: found ? confidence : 0 };
+}
+
+export async function loadPixels(image: Blob): Promise<PixelData> {
+  const bitmap = await createImageBitmap(image);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+export function pixelsToBlob(pixels: PixelData, type: string, quality = 0.92): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = pixels.width;
+  canvas.height = pixels.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+  ctx.putImageData(new ImageData(pixels.data, pixels.width, pixels.height), 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))), type, quality);
+  });
+}
+
+// Re-encodes an image file with the mark embedded, keeping its format
+export async function watermarkImageFile(file: File, watermarkId: number): Promise<Blob> {
+  if (!WATERMARKABLE_TYPES.includes(file.type)) {
+    throw new Error(`${file.type || 'This file type'} can't be watermarked`);
+  }
+  const marked = embedWatermark(await loadPixels(file), watermarkId);
+  return pixelsToBlob(marked, file.type);
+}
+
+// Uploads a marked copy of the image to the product-images bucket. The id is
+// registered first so the mark is traceable as soon as the file is public,
+// and unregistered again if the upload fails.
+export async function uploadWatermarkedImage(file: File, brandId: string, filePath: string) {
+  const watermarkId = generateWatermarkId();
+  const { data: watermark, error: watermarkError } = await supabase
+    .from('image_watermarks')
+    .insert({ watermark_id: watermarkId, brand_id: brandId, file_path: filePath, file_name: file.name })
+    .select('id')
+    .single();
+  if (watermarkError) throw watermarkError;
+  try {
+    const body = await watermarkImageFile(file, watermarkId);
+    const { error: uploadError } = await supabase.storage
+      .from('product-images')
+      .upload(filePath, body, { contentType: file.type });
+    if (uploadError) throw uploadError;
+  } catch (error) {
+    await supabase.from('image_watermarks').delete().eq('id', watermark.id);
+    throw error;
+  }
+}
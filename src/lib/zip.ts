@@ -0,0 +1,78 @@
+// Minimal ZIP archive writer. Entries are stored uncompressed, which suits
+// already-compressed content such as PNG images.
+
+import { crc32 } from './crc32';
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+
+// MS-DOS date and time fields, in local time with two-second precision
+function dosDateTime(date: Date) {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export function createZip(entries: ZipEntry[], modified = new Date()): Blob {
+  if (entries.length > 0xffff) throw new Error('Too many files for a ZIP archive');
+  const { time, date } = dosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+
+    const header = new Uint8Array(30 + name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034b50, true);
+    view.setUint16(4, 20, true);
+    // Bit 11: file names are UTF-8
+    view.setUint16(6, 0x0800, true);
+    view.setUint16(8, 0, true);
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    view.setUint32(14, crc, true);
+    view.setUint32(18, entry.data.length, true);
+    view.setUint32(22, entry.data.length, true);
+    view.setUint16(26, name.length, true);
+    header.set(name, 30);
+
+    const record = new Uint8Array(46 + name.length);
+    const recordView = new DataView(record.buffer);
+    recordView.setUint32(0, 0x02014b50, true);
+    recordView.setUint16(4, 20, true);
+    recordView.setUint16(6, 20, true);
+    recordView.setUint16(8, 0x0800, true);
+    recordView.setUint16(10, 0, true);
+    recordView.setUint16(12, time, true);
+    recordView.setUint16(14, date, true);
+    recordView.setUint32(16, crc, true);
+    recordView.setUint32(20, entry.data.length, true);
+    recordView.setUint32(24, entry.data.length, true);
+    recordView.setUint16(28, name.length, true);
+    recordView.setUint32(42, offset, true);
+    record.set(name, 46);
+
+    parts.push(header, entry.data);
+    directory.push(record);
+    offset += header.length + entry.data.length;
+  });
+
+  const directorySize = directory.reduce((total, record) => total + record.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, end], { type: 'application/zip' });
+}
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { QrCode, Mail, Eye, MousePointerClick, BarChart2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { groupByCampaign } from "@/lib/utm";
 
 const BrandAnalytics = () => {
   const [userName, setUserName] = useState("...");
@@ -18,7 +19,8 @@ const BrandAnalytics = () => {
     perPage: [],
     landingPages: [],
     recentClicks: [],
-    qrCodes: []
+    qrCodes: [],
+    campaigns: []
   });
   const [modalOpen, setModalOpen] = useState(false);
   const [modalTitle, setModalTitle] = useState('');
@@ -82,6 +84,12 @@ const BrandAnalytics = () => {
           supabase.from('page_clicks').select('landing_page_id').eq('brand_id', brand.id),
           supabase.from('contact_submissions').select('landing_page_id').eq('brand_id', brand.id),
         ]);
+        // Views that arrived with UTM parameters, grouped by campaign
+        const { data: campaignViews } = await supabase
+          .from('page_views')
+          .select('utm_source, utm_medium, utm_campaign')
+          .eq('brand_id', brand.id)
+          .or('utm_source.not.is.null,utm_medium.not.is.null,utm_campaign.not.is.null');
         // Fetch recent clicks
         const { data: recentClicks } = await supabase
           .from('page_clicks')
@@ -117,6 +125,7 @@ const BrandAnalytics = () => {
           landingPages: landingPages || [],
           recentClicks: recentClicks || [],
           qrCodes,
+          campaigns: groupByCampaign(campaignViews || []),
         });
       }
       setIsLoading(false);
@@ -245,6 +254,33 @@ const BrandAnalytics = () => {
             </table>
           </div>
         </div>
+        <div className="mt-8">
+          <h2 className="text-lg font-semibold mb-2">Traffic by Campaign</h2>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm border-t">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="text-left p-2">Campaign</th>
+                  <th className="text-left p-2">Source</th>
+                  <th className="text-left p-2">Medium</th>
+                  <th className="text-left p-2">Views</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analytics.campaigns.length === 0 ? (
+                  <tr><td colSpan={4} className="p-4 text-center text-muted-foreground">No campaign traffic yet. Add UTM parameters to your QR codes to see it here.</td></tr>
+                ) : analytics.campaigns.map(row => (
+                  <tr key={`${row.campaign}|${row.source}|${row.medium}`}>
+                    <td className="p-2 font-medium">{row.campaign || '-'}</td>
+                    <td className="p-2">{row.source || '-'}</td>
+                    <td className="p-2">{row.medium || '-'}</td>
+                    <td className="p-2">{row.views}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
         {/* Recent Clicks Table */}
         <div className="mt-8">
           <h2 className="text-lg font-semibold mb-2">Recent Customer Clicks</h2>
@@ -3,13 +3,14 @@ import { supabase } from '@/integrations/supabase/client';
 import { DashboardLayout } from '@/components/dashboard/DashboardLayout';
 import { FileSelector } from '@/components/FileSelector';
 import { Button } from '@/components/ui/button';
+import { WatermarkChecker } from '@/components/file-manager/WatermarkChecker';
 
 const BrandFiles = () => {
   const [images, setImages] = useState([]);
   const [loading, setLoading] = useState(true);
   const [brandId, setBrandId] = useState(null);
   const [userName, setUserName] = useState('Brand User');
-  const [uploading, setUploading] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
 
   useEffect(() => {
     async function fetchImages() {
@@ -47,33 +48,29 @@ const BrandFiles = () => {
       setLoading(false);
     }
     fetchImages();
-  }, [uploading]);
+  }, [refreshKey]);
 
-  const handleUpload = async (file) => {
-    if (!file || !brandId) return;
-    setUploading(true);
-    const fileExt = file.name.split('.').pop();
-    const fileName = `${Date.now()}.${fileExt}`;
-    const filePath = `${brandId}/${fileName}`;
-    const { error } = await supabase.storage
-      .from('product-images')
-      .upload(filePath, file);
-    setUploading(false);
-    if (error) {
-      alert('Error uploading image');
-    }
+  // The selector has already stored the file, watermarked if asked; only
+  // the list needs refreshing. Typing a URL selects nothing new.
+  const handleUpload = (selection) => {
+    if (!selection?.file || !brandId) return;
+    setRefreshKey(key => key + 1);
   };
 
   return (
     <DashboardLayout userType="Brand" userName={userName}>
       <div className="container mx-auto px-4 py-8">
         <div className="flex flex-col items-start mb-6 gap-4">
-          <h1 className="text-2xl font-bold">File Manager</h1>
+          <div className="flex w-full items-center justify-between">
+            <h1 className="text-2xl font-bold">File Manager</h1>
+            <WatermarkChecker />
+          </div>
           <FileSelector
             type="image"
             onSelect={handleUpload}
             brandId={brandId}
             value={null}
+            allowWatermark
           />
         </div>
         {loading ? (
@@ -7,6 +7,7 @@ import { MediaLibrary } from '@/components/page-builder/MediaLibrary';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import { ProductSerials } from '@/components/qr/ProductSerials';
 
 function isFileWithUrl(img: unknown): img is { url: string } {
   return typeof img === 'object' && img !== null && 'url' in img && typeof (img as any).url === 'string';
@@ -269,6 +270,12 @@ const BrandProductDetail = () => {
             <button type="button" className="bg-red-600 text-white px-4 py-2 rounded hover:bg-red-700" onClick={handleDelete}>Delete</button>
           </div>
         </form>
+        <ProductSerials
+          productId={product.id}
+          productName={product.name}
+          brandId={brandId}
+          landingPageId={product.landing_page_id}
+        />
       </div>
     </DashboardLayout>
   );
@@ -8,6 +8,7 @@ import { MediaLibrary } from '@/components/page-builder/MediaLibrary';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import { SigningKeys } from '@/components/qr/SigningKeys';
 
 const BrandProducts = () => {
   const [products, setProducts] = useState([]);
@@ -336,6 +337,11 @@ const BrandProducts = () => {
             ))}
           </div>
         )}
+        {brandId && (
+          <div className="mt-8">
+            <SigningKeys brandId={brandId} />
+          </div>
+        )}
       </div>
     </DashboardLayout>
   );
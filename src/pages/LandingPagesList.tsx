@@ -1,6 +1,7 @@
 
 import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { supabase } from "@/integrations/supabase/client";
@@ -8,13 +9,13 @@ import { Calendar, Edit, ExternalLink, Info, Share2, Trash2 } from "lucide-react
 import { useEffect, useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { toast } from "sonner";
+import { getPageStatus, PAGE_STATUS_LABELS, PagePublishFields, publishFieldsFromRecord } from "@/components/page-builder/publishing";
 
-interface LandingPage {
+interface LandingPage extends PagePublishFields {
   id: string;
   title: string;
   slug: string;
   created_at: string;
-  published: boolean;
 }
 
 const LandingPagesList = () => {
@@ -60,7 +61,7 @@ const LandingPagesList = () => {
       
       if (error) throw error;
       
-      setPages(data || []);
+      setPages((data || []).map(page => ({ ...page, ...publishFieldsFromRecord(page) })));
     } catch (error) {
       console.error("Error fetching landing pages:", error);
       toast.error("Failed to load landing pages");
@@ -131,7 +132,12 @@ const LandingPagesList = () => {
             {pages.map((page) => (
               <Card key={page.id}>
                 <CardHeader>
-                  <CardTitle>{page.title}</CardTitle>
+                  <div className="flex items-start justify-between gap-2">
+                    <CardTitle>{page.title}</CardTitle>
+                    <Badge variant={getPageStatus(page) === 'live' ? 'default' : 'secondary'}>
+                      {PAGE_STATUS_LABELS[getPageStatus(page)]}
+                    </Badge>
+                  </div>
                   <div className="flex items-center text-xs text-muted-foreground mt-1">
                     <Calendar className="h-3 w-3 mr-1" />
                     <span>
@@ -1,9 +1,12 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { useParams, useSearchParams } from 'react-router-dom';
+import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { supabase } from "@/integrations/supabase/client";
 import { Block, BlockType } from '@/types/block';
 import { BlockEditorMain } from '@/components/page-builder/block-renderers/BlockEditorMain';
-import { toast } from "sonner";
+import { SerialVerificationBanner } from '@/components/qr/SerialVerificationBanner';
+import { SerialScanResult } from '@/lib/qr/serials';
+import { readUtmFromSearch } from '@/lib/utm';
+import { PageStatus } from '@/components/page-builder/publishing';
 
 declare global {
   interface Window {
@@ -12,13 +15,18 @@ declare global {
   }
 }
 
+// The live snapshot returned by get_live_landing_page; drafts never reach
+// this page. Old slugs only return redirect_to, the page's current slug.
 interface LandingPageData {
+  redirect_to?: string;
   id: string;
+  status: PageStatus;
   title: string;
   slug: string;
   background_color: string;
   font_family: string;
-  published: boolean;
+  blocks: Block[];
+  publish_at?: string | null;
   brand_id?: string;
   brandId?: string;
 }
@@ -29,23 +37,28 @@ const PublishedLandingPage = () => {
   const [blocks, setBlocks] = useState<Block[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Set when the page exists but is outside its publishing window
+  const [unavailable, setUnavailable] = useState<LandingPageData | null>(null);
   const analyticsRecorded = useRef(false);
   const [searchParams] = typeof window !== 'undefined' ? [new URLSearchParams(window.location.search)] : [null];
   const qrId = searchParams?.get('qr_id');
+  // Set by the serial verification page when a product code was scanned
+  const location = useLocation();
+  const navigate = useNavigate();
+  const serialState = location.state as { serialScan?: SerialScanResult; isOwnScan?: boolean } | null;
 
   useEffect(() => {
     const fetchPageContent = async () => {
       console.log('Fetching page with slug:', slug);
       setIsLoading(true);
       setError(null);
+      setUnavailable(null);
+      // Stays loading while the router moves to the page's new slug
+      let redirecting = false;
 
       try {
-        // First, get the landing page by slug
-        const { data: pageData, error: pageError } = await supabase
-          .from('landing_pages')
-          .select('*')
-          .eq('slug', slug)
-          .single();
+        // Only the published snapshot is readable here, never the draft
+        const { data, error: pageError } = await supabase.rpc('get_live_landing_page', { p_slug: slug });
 
         if (pageError) {
           console.error('Error fetching landing page:', pageError);
@@ -54,6 +67,7 @@ const PublishedLandingPage = () => {
           return;
         }
 
+        const pageData = data as unknown as LandingPageData | null;
         if (!pageData) {
           console.error('No page found with slug:', slug);
           setError(`Page not found: ${slug}`);
@@ -61,6 +75,21 @@ const PublishedLandingPage = () => {
           return;
         }
 
+        // Renamed page: middleware.ts normally answers old slugs with a 301
+        // before the app loads. This client-side fallback replaces the old
+        // address, keeping query parameters and serial scan state.
+        if (pageData.redirect_to) {
+          redirecting = true;
+          navigate(`/${pageData.redirect_to}${window.location.search}`, { replace: true, state: location.state });
+          return;
+        }
+
+        if (pageData.status !== 'live') {
+          setUnavailable(pageData);
+          setIsLoading(false);
+          return;
+        }
+
         console.log('Found landing page:', pageData);
         setPageData(pageData);
 
@@ -73,7 +102,9 @@ const PublishedLandingPage = () => {
           analyticsRecorded.current = true;
           await supabase.from('page_views').insert({
             brand_id: pageData.brand_id || pageData.brandId,
-            landing_page_id: pageData.id
+            landing_page_id: pageData.id,
+            // Campaign parameters from QR destinations and other tagged links
+            ...readUtmFromSearch(window.location.search)
           });
           // Check for qr_id param
           if (qrId) {
@@ -85,24 +116,9 @@ const PublishedLandingPage = () => {
           }
         }
 
-        // Then get all components for this page
-        const { data: components, error: componentsError } = await supabase
-          .from('page_components')
-          .select('*')
-          .eq('page_id', pageData.id)
-          .order('position', { ascending: true });
-
-        if (componentsError) {
-          console.error('Error fetching page components:', componentsError);
-          toast.error("Failed to load page components");
-          setError("Failed to load page content");
-          setIsLoading(false);
-          return;
-        }
-
-        console.log('Found components:', components);
+        const components = pageData.blocks || [];
         
-        if (components && components.length > 0) {
+        if (components.length > 0) {
           const loadedBlocks = components.map(component => ({
             id: `block-${component.id}`,
             type: component.type as BlockType | string,
@@ -120,7 +136,7 @@ const PublishedLandingPage = () => {
         console.error('Unexpected error:', err);
         setError("An unexpected error occurred");
       } finally {
-        setIsLoading(false);
+        if (!redirecting) setIsLoading(false);
       }
     };
 
@@ -132,7 +148,7 @@ const PublishedLandingPage = () => {
       setError("Invalid page URL");
       setIsLoading(false);
     }
-  }, [slug, qrId]);
+  }, [slug, qrId, navigate, location.state]);
 
   if (isLoading) {
     return (
@@ -142,6 +158,24 @@ const PublishedLandingPage = () => {
     );
   }
 
+  if (unavailable) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 p-6">
+        <h1 className="text-3xl font-bold text-gray-800 mb-4">
+          {unavailable.status === 'scheduled' ? 'Coming Soon' : 'Page No Longer Available'}
+        </h1>
+        <p className="text-gray-600 mb-6">
+          {unavailable.status === 'scheduled' && unavailable.publish_at
+            ? `This page will be available from ${new Date(unavailable.publish_at).toLocaleString()}.`
+            : 'This page has ended and is no longer available.'}
+        </p>
+        <a href="/" className="text-primary hover:underline">
+          Go to Homepage
+        </a>
+      </div>
+    );
+  }
+
   if (error) {
     return (
       <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 p-6">
@@ -163,6 +197,11 @@ const PublishedLandingPage = () => {
       }}
     >
       <div className="container mx-auto px-4 py-8 max-w-4xl">
+        {serialState?.serialScan && (
+          <div className="mb-6">
+            <SerialVerificationBanner result={serialState.serialScan} isOwnScan={serialState.isOwnScan} />
+          </div>
+        )}
         {blocks.length === 0 ? (
           <div className="text-center py-12">
             <h2 className="text-2xl font-semibold text-gray-700">This page has no content</h2>
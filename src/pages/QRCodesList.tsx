@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
 import { useNavigate, Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
@@ -12,8 +12,60 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { QrCode, Edit, Trash, Download, ExternalLink } from "lucide-react";
+import {
+  QrCode,
+  Edit,
+  Trash,
+  Download,
+  ExternalLink,
+  FileSpreadsheet,
+  ScanLine,
+  Search,
+  FolderCog,
+  Folder,
+  Megaphone,
+  Tag,
+  Printer,
+  X,
+} from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { renderQRToSvg, svgToDataUrl } from "@/lib/qr/render";
+import { encodeWithSettings, parseQRSettings, toRenderOptions } from "@/lib/qr/settings";
+import { loadQRLogo, QRLogo } from "@/lib/qr/logo";
+import { Json } from "@/integrations/supabase/types";
+import { QRExportDialog } from "@/components/qr/QRExportDialog";
+import { QRDecoder } from "@/components/qr/QRDecoder";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { QRCollectionsDialog } from "@/components/qr/QRCollectionsDialog";
+import { QRLabelSheetDialog } from "@/components/qr/QRLabelSheetDialog";
+import { LabelItem } from "@/lib/qr/labels";
+import { getShortLink } from "@/lib/qr/short-code";
+import { describePayload, getPayloadTypeLabel, QR_PAYLOAD_TYPES } from "@/lib/qr/payloads";
+import { getQRCodeStatus, QR_STATUS_LABELS, QRCodeStatus } from "@/lib/qr/schedule";
+import {
+  ALL,
+  collectTags,
+  DEFAULT_FILTERS,
+  filterAndSortCodes,
+  hasActiveFilters,
+  NONE,
+  parseTags,
+  QR_SORT_OPTIONS,
+  QRCollection,
+  QRListFilters,
+  QRSortKey,
+} from "@/lib/qr/organize";
+import { renderQRCodesZip } from "@/lib/qr/bulk";
+import { downloadBlob } from "@/lib/qr/download";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
 
 interface QRCode {
   id: string;
@@ -22,17 +74,56 @@ interface QRCode {
   url: string;
   views: number;
   created_at: string;
+  settings: Json | null;
+  content: Json | null;
+  qr_type: string;
+  is_dynamic: boolean;
+  short_code: string | null;
+  active_from: string | null;
+  active_until: string | null;
+  max_scans: number | null;
+  fallback_url: string | null;
+  folder_id: string | null;
+  campaign_id: string | null;
+  tags: string[];
   landing_page: {
     title: string;
     slug: string;
   } | null;
 }
 
+// What the printed code contains: the short link for dynamic codes,
+// otherwise the destination itself
+const getEncodedUrl = (qr: QRCode) =>
+  qr.is_dynamic && qr.short_code ? getShortLink(qr.short_code) : qr.url;
+
+const STATUS_BADGE_CLASSES: Record<QRCodeStatus, string> = {
+  scheduled: "border-blue-200 bg-blue-50 text-blue-700",
+  live: "border-green-200 bg-green-50 text-green-700",
+  expired: "border-gray-200 bg-gray-100 text-gray-600",
+  exhausted: "border-red-200 bg-red-50 text-red-700",
+};
+
+// Label for structured payloads, which have no meaningful URL to show
+const getContentLabel = (qr: QRCode) => describePayload(qr.qr_type, qr.content);
+
 const QRCodesList = () => {
   const navigate = useNavigate();
   const [isLoading, setIsLoading] = useState(true);
   const [userName, setUserName] = useState("...");
   const [qrCodes, setQRCodes] = useState<QRCode[]>([]);
+  const [logos, setLogos] = useState<Record<string, QRLogo>>({});
+  const [exportQR, setExportQR] = useState<QRCode | null>(null);
+  const [showDecoder, setShowDecoder] = useState(false);
+  const [userId, setUserId] = useState('');
+  const [folders, setFolders] = useState<QRCollection[]>([]);
+  const [campaigns, setCampaigns] = useState<QRCollection[]>([]);
+  const [showCollections, setShowCollections] = useState(false);
+  const [filters, setFilters] = useState<QRListFilters>(DEFAULT_FILTERS);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkTags, setBulkTags] = useState('');
+  const [bulkProgress, setBulkProgress] = useState('');
+  const [labelItems, setLabelItems] = useState<LabelItem[] | null>(null);
 
   useEffect(() => {
     const checkAuth = async () => {
@@ -54,6 +145,7 @@ const QRCodesList = () => {
         const { user } = data.session;
         if (user) {
           setUserName(user.user_metadata?.name || user.email?.split('@')[0] || "Brand User");
+          setUserId(user.id);
           
           // Fetch QR codes for the user with landing page details
           const { data: codes, error: fetchError } = await supabase
@@ -72,6 +164,15 @@ const QRCodesList = () => {
           }
           
           setQRCodes(codes || []);
+
+          const [{ data: folderRows, error: folderError }, { data: campaignRows, error: campaignError }] = await Promise.all([
+            supabase.from('qr_folders').select('id, name').order('name'),
+            supabase.from('qr_campaigns').select('id, name').order('name'),
+          ]);
+          if (folderError) throw folderError;
+          if (campaignError) throw campaignError;
+          setFolders(folderRows || []);
+          setCampaigns(campaignRows || []);
         }
       } catch (error) {
         console.error("Error:", error);
@@ -101,38 +202,154 @@ const QRCodesList = () => {
     }
   };
 
-  // Generate QR image URL (same as QRCustomizer)
-  const getQRImageUrl = (qr) => {
-    // You may want to store color/backgroundColor in the QR code record in the future
-    const size = 300;
-    const color = '3F51B5'; // default blue
-    const backgroundColor = 'FFFFFF'; // default white
-    return `https://api.qrserver.com/v1/create-qr-code/?size=${size}x${size}&data=${encodeURIComponent(qr.url)}&bgcolor=${backgroundColor}&color=${color}`;
+  // Load each distinct logo once so thumbnails can show it
+  useEffect(() => {
+    const logoUrls = new Set(qrCodes.map(qr => parseQRSettings(qr.settings).logoUrl).filter(Boolean));
+    logoUrls.forEach(logoUrl => {
+      loadQRLogo(logoUrl)
+        .then(logo => setLogos(prev => ({ ...prev, [logoUrl]: logo })))
+        .catch(error => console.error("Logo load error:", error));
+    });
+  }, [qrCodes]);
+
+  // Render each saved design once for the table thumbnails
+  const thumbnails = useMemo(() => {
+    const result: Record<string, string> = {};
+    qrCodes.forEach(qr => {
+      try {
+        const settings = parseQRSettings(qr.settings);
+        const matrix = encodeWithSettings(getEncodedUrl(qr), settings);
+        const logo = logos[settings.logoUrl] || null;
+        result[qr.id] = svgToDataUrl(renderQRToSvg(matrix, toRenderOptions(settings, { size: 40, logo, frame: null })));
+      } catch (error) {
+        console.error("Thumbnail error:", error);
+      }
+    });
+    return result;
+  }, [qrCodes, logos]);
+
+  const visibleCodes = useMemo(
+    () => filterAndSortCodes(qrCodes, filters, getPayloadTypeLabel),
+    [qrCodes, filters],
+  );
+  const allTags = useMemo(() => collectTags(qrCodes), [qrCodes]);
+
+  // Bulk actions only apply to selected codes that are still visible
+  const selectedCodes = visibleCodes.filter(qr => selectedIds.has(qr.id));
+  const allVisibleSelected = visibleCodes.length > 0 && selectedCodes.length === visibleCodes.length;
+  const isBulkBusy = bulkProgress !== '';
+
+  const updateFilters = (changes: Partial<QRListFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const toggleAllVisible = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(visibleCodes.map(qr => qr.id)) : new Set());
+  };
+
+  const folderName = (id: string | null) => folders.find(folder => folder.id === id)?.name;
+  const campaignName = (id: string | null) => campaigns.find(campaign => campaign.id === id)?.name;
+
+  // Applies the same column change to every selected code
+  const handleBulkUpdate = async (changes: { folder_id?: string | null; campaign_id?: string | null }, message: string) => {
+    const ids = selectedCodes.map(qr => qr.id);
+    setBulkProgress('Updating...');
+    try {
+      const { error } = await supabase
+        .from('qr_codes')
+        .update(changes)
+        .in('id', ids);
+      if (error) throw error;
+      setQRCodes(prevCodes => prevCodes.map(code => (ids.includes(code.id) ? { ...code, ...changes } : code)));
+      toast.success(message);
+    } catch (error) {
+      console.error("Bulk update error:", error);
+      toast.error("Failed to update QR codes");
+    } finally {
+      setBulkProgress('');
+    }
+  };
+
+  const handleBulkMove = (folderId: string) => {
+    const folder_id = folderId === NONE ? null : folderId;
+    handleBulkUpdate({ folder_id }, folder_id ? `Moved to ${folderName(folder_id)}` : "Removed from folders");
+  };
+
+  const handleBulkCampaign = (campaignId: string) => {
+    const campaign_id = campaignId === NONE ? null : campaignId;
+    handleBulkUpdate({ campaign_id }, campaign_id ? `Added to ${campaignName(campaign_id)}` : "Removed from campaigns");
   };
 
-  // Download handler
-  const handleDownload = async (qr) => {
-    const qrImageUrl = getQRImageUrl(qr);
-    // Sanitize the QR code title for use as a filename
-    const safeTitle = (qr.title || 'qrcode')
-      .toLowerCase()
-      .replace(/[^a-z0-9\-_]+/g, '-')
-      .replace(/^-+|-+$/g, '')
-      .substring(0, 50) || 'qrcode';
-    const filename = `${safeTitle}.png`;
+  const handleBulkTag = async () => {
+    const tags = parseTags(bulkTags);
+    if (tags.length === 0) return;
+    const ids = selectedCodes.map(qr => qr.id);
+    setBulkProgress('Tagging...');
     try {
-      const response = await fetch(qrImageUrl);
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = filename;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
-    } catch (err) {
-      if (typeof toast === 'function') toast('Failed to download QR code image.');
+      const { error } = await supabase.rpc('add_qr_code_tags', { p_ids: ids, p_tags: tags });
+      if (error) throw error;
+      setQRCodes(prevCodes => prevCodes.map(code => (
+        ids.includes(code.id) ? { ...code, tags: Array.from(new Set([...(code.tags || []), ...tags])).sort() } : code
+      )));
+      setBulkTags('');
+      toast.success(`Tagged ${ids.length} QR codes`);
+    } catch (error) {
+      console.error("Bulk tag error:", error);
+      toast.error("Failed to tag QR codes");
+    } finally {
+      setBulkProgress('');
+    }
+  };
+
+  const handleBulkDownload = async () => {
+    try {
+      const zip = await renderQRCodesZip(
+        selectedCodes.map(qr => ({ title: qr.title, content: getEncodedUrl(qr), settings: parseQRSettings(qr.settings) })),
+        (rendered, total) => setBulkProgress(`Rendering ${rendered} of ${total}...`),
+      );
+      downloadBlob(zip, 'qr-codes.zip');
+    } catch (error) {
+      console.error("Error building ZIP:", error);
+      toast.error("Failed to build the ZIP file");
+    } finally {
+      setBulkProgress('');
+    }
+  };
+
+  const handlePrintLabels = () => {
+    setLabelItems(selectedCodes.map(qr => ({
+      title: qr.title,
+      serial: qr.is_dynamic && qr.short_code ? getShortLink(qr.short_code).replace(/^https?:\/\//, '') : null,
+      content: getEncodedUrl(qr),
+      settings: parseQRSettings(qr.settings),
+    })));
+  };
+
+  const handleBulkDelete = async () => {
+    const ids = selectedCodes.map(qr => qr.id);
+    if (!window.confirm(`Delete ${ids.length} QR codes? Printed copies of dynamic codes will stop working.`)) return;
+    setBulkProgress('Deleting...');
+    try {
+      const { error } = await supabase
+        .from('qr_codes')
+        .delete()
+        .in('id', ids);
+      if (error) throw error;
+      setQRCodes(prevCodes => prevCodes.filter(code => !ids.includes(code.id)));
+      setSelectedIds(new Set());
+      toast.success(`Deleted ${ids.length} QR codes`);
+    } catch (error) {
+      console.error("Bulk delete error:", error);
+      toast.error("Failed to delete QR codes");
+    } finally {
+      setBulkProgress('');
     }
   };
 
@@ -151,48 +368,272 @@ const QRCodesList = () => {
       <div className="space-y-6">
         <div className="flex items-center justify-between">
           <h1 className="text-2xl font-bold tracking-tight">QR Codes</h1>
-          <Link to="/dashboard/brand/create-qr">
-            <Button className="gap-2">
-              <QrCode size={16} />
-              Create New QR Code
+          <div className="flex gap-2">
+            <Button variant="outline" className="gap-2" onClick={() => setShowDecoder(true)}>
+              <ScanLine size={16} />
+              Decode Image
             </Button>
-          </Link>
+            <Link to="/dashboard/brand/create-qr?mode=bulk">
+              <Button variant="outline" className="gap-2">
+                <FileSpreadsheet size={16} />
+                Bulk Create
+              </Button>
+            </Link>
+            <Link to="/dashboard/brand/create-qr">
+              <Button className="gap-2">
+                <QrCode size={16} />
+                Create New QR Code
+              </Button>
+            </Link>
+          </div>
         </div>
 
         <Card>
-          <CardHeader>
-            <CardTitle>Your QR Codes</CardTitle>
+          <CardHeader className="space-y-4">
+            <div className="flex items-center justify-between">
+              <CardTitle>Your QR Codes</CardTitle>
+              <Button variant="outline" size="sm" className="gap-2" onClick={() => setShowCollections(true)}>
+                <FolderCog size={16} />
+                Folders & Campaigns
+              </Button>
+            </div>
+            {qrCodes.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                <div className="relative flex-grow min-w-[200px]">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search titles, links and tags"
+                    className="pl-9"
+                    value={filters.search}
+                    onChange={(e) => updateFilters({ search: e.target.value })}
+                  />
+                </div>
+                <Select value={filters.folder} onValueChange={(folder) => updateFilters({ folder })}>
+                  <SelectTrigger className="w-40" aria-label="Filter by folder">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All folders</SelectItem>
+                    <SelectItem value={NONE}>No folder</SelectItem>
+                    {folders.map(folder => (
+                      <SelectItem key={folder.id} value={folder.id}>{folder.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={filters.campaign} onValueChange={(campaign) => updateFilters({ campaign })}>
+                  <SelectTrigger className="w-40" aria-label="Filter by campaign">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All campaigns</SelectItem>
+                    <SelectItem value={NONE}>No campaign</SelectItem>
+                    {campaigns.map(campaign => (
+                      <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={filters.tag} onValueChange={(tag) => updateFilters({ tag })}>
+                  <SelectTrigger className="w-36" aria-label="Filter by tag">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All tags</SelectItem>
+                    {allTags.map(tag => (
+                      <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={filters.type} onValueChange={(type) => updateFilters({ type })}>
+                  <SelectTrigger className="w-36" aria-label="Filter by type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All types</SelectItem>
+                    {QR_PAYLOAD_TYPES.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={filters.sort} onValueChange={(sort) => updateFilters({ sort: sort as QRSortKey })}>
+                  <SelectTrigger className="w-40" aria-label="Sort">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {QR_SORT_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {hasActiveFilters(filters) && (
+                  <Button variant="ghost" className="gap-2" onClick={() => setFilters({ ...DEFAULT_FILTERS, sort: filters.sort })}>
+                    <X size={16} />
+                    Clear
+                  </Button>
+                )}
+              </div>
+            )}
+            {selectedCodes.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-gray-50 p-3">
+                <span className="text-sm font-medium mr-2">
+                  {bulkProgress || `${selectedCodes.length} selected`}
+                </span>
+                <Select value="" onValueChange={handleBulkMove} disabled={isBulkBusy}>
+                  <SelectTrigger className="w-40" aria-label="Move to folder">
+                    <SelectValue placeholder="Move to folder" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No folder</SelectItem>
+                    {folders.map(folder => (
+                      <SelectItem key={folder.id} value={folder.id}>{folder.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value="" onValueChange={handleBulkCampaign} disabled={isBulkBusy}>
+                  <SelectTrigger className="w-40" aria-label="Set campaign">
+                    <SelectValue placeholder="Set campaign" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No campaign</SelectItem>
+                    {campaigns.map(campaign => (
+                      <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex gap-2">
+                  <Input
+                    className="w-40"
+                    placeholder="tag, another tag"
+                    value={bulkTags}
+                    onChange={(e) => setBulkTags(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleBulkTag()}
+                    disabled={isBulkBusy}
+                  />
+                  <Button variant="outline" className="gap-2" onClick={handleBulkTag} disabled={isBulkBusy || !parseTags(bulkTags).length}>
+                    <Tag size={16} />
+                    Tag
+                  </Button>
+                </div>
+                <Button variant="outline" className="gap-2" onClick={handleBulkDownload} disabled={isBulkBusy}>
+                  <Download size={16} />
+                  Download ZIP
+                </Button>
+                <Button variant="outline" className="gap-2" onClick={handlePrintLabels} disabled={isBulkBusy}>
+                  <Printer size={16} />
+                  Print Labels
+                </Button>
+                <Button variant="outline" className="gap-2 text-red-600" onClick={handleBulkDelete} disabled={isBulkBusy}>
+                  <Trash size={16} />
+                  Delete
+                </Button>
+              </div>
+            )}
           </CardHeader>
           <CardContent>
             {qrCodes.length > 0 ? (
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        aria-label="Select all"
+                        checked={allVisibleSelected ? true : selectedCodes.length > 0 ? 'indeterminate' : false}
+                        onCheckedChange={(checked) => toggleAllVisible(checked === true)}
+                      />
+                    </TableHead>
                     <TableHead>Title</TableHead>
+                    <TableHead>Type</TableHead>
                     <TableHead>Target</TableHead>
+                    <TableHead>Status</TableHead>
                     <TableHead>Scans</TableHead>
                     <TableHead>Created</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {qrCodes.map((qr) => (
-                    <TableRow key={qr.id}>
+                  {visibleCodes.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                        No QR codes match these filters
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {visibleCodes.map((qr) => (
+                    <TableRow key={qr.id} data-state={selectedIds.has(qr.id) ? 'selected' : undefined}>
+                      <TableCell>
+                        <Checkbox
+                          aria-label={`Select ${qr.title}`}
+                          checked={selectedIds.has(qr.id)}
+                          onCheckedChange={(checked) => toggleSelected(qr.id, checked === true)}
+                        />
+                      </TableCell>
                       <TableCell className="font-medium">
                         <div className="flex items-center gap-3">
-                          <div className="w-10 h-10 bg-gray-100 rounded flex items-center justify-center">
-                            <QrCode size={20} />
+                          <div className="w-10 h-10 bg-gray-100 rounded flex items-center justify-center overflow-hidden">
+                            {thumbnails[qr.id] ? (
+                              <img src={thumbnails[qr.id]} alt={`${qr.title} QR code`} className="w-10 h-10" />
+                            ) : (
+                              <QrCode size={20} />
+                            )}
                           </div>
                           <div>
-                            <p>{qr.title}</p>
+                            <div className="flex items-center gap-2">
+                              <p>{qr.title}</p>
+                              {qr.is_dynamic && <Badge variant="secondary">Dynamic</Badge>}
+                            </div>
                             {qr.description && (
                               <p className="text-xs text-muted-foreground">{qr.description}</p>
                             )}
+                            {qr.is_dynamic && qr.short_code && (
+                              <code className="text-xs text-muted-foreground">{getShortLink(qr.short_code)}</code>
+                            )}
+                            {(folderName(qr.folder_id) || campaignName(qr.campaign_id) || qr.tags?.length > 0) && (
+                              <div className="flex flex-wrap items-center gap-1 mt-1">
+                                {folderName(qr.folder_id) && (
+                                  <span className="flex items-center gap-1 text-xs text-muted-foreground mr-1">
+                                    <Folder size={12} />
+                                    {folderName(qr.folder_id)}
+                                  </span>
+                                )}
+                                {campaignName(qr.campaign_id) && (
+                                  <span className="flex items-center gap-1 text-xs text-muted-foreground mr-1">
+                                    <Megaphone size={12} />
+                                    {campaignName(qr.campaign_id)}
+                                  </span>
+                                )}
+                                {qr.tags?.map(tag => (
+                                  <Badge
+                                    key={tag}
+                                    variant="outline"
+                                    className="cursor-pointer text-xs font-normal"
+                                    onClick={() => updateFilters({ tag })}
+                                  >
+                                    {tag}
+                                  </Badge>
+                                ))}
+                              </div>
+                            )}
                           </div>
                         </div>
                       </TableCell>
                       <TableCell>
-                        {qr.landing_page ? (
+                        <Badge variant="outline">{getPayloadTypeLabel(qr.qr_type)}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {getContentLabel(qr) ? (
+                          <div className="flex items-center">
+                            <span className="text-sm truncate max-w-[200px]">{getContentLabel(qr)}</span>
+                            {qr.is_dynamic && (
+                              <a
+                                href={qr.url}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="text-primary hover:text-primary/80 ml-2"
+                              >
+                                <ExternalLink size={14} />
+                              </a>
+                            )}
+                          </div>
+                        ) : qr.landing_page ? (
                           <div>
                             <p className="text-sm">{qr.landing_page.title}</p>
                             <div className="flex items-center mt-1">
@@ -223,7 +664,24 @@ const QRCodesList = () => {
                           </div>
                         )}
                       </TableCell>
-                      <TableCell>{qr.views || 0}</TableCell>
+                      <TableCell>
+                        {qr.is_dynamic ? (
+                          <Badge variant="outline" className={STATUS_BADGE_CLASSES[getQRCodeStatus(qr)]}>
+                            {QR_STATUS_LABELS[getQRCodeStatus(qr)]}
+                          </Badge>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">—</span>
+                        )}
+                        {qr.is_dynamic && qr.active_until && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Until {new Date(qr.active_until).toLocaleDateString()}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {qr.views || 0}
+                        {qr.max_scans && <span className="text-muted-foreground"> / {qr.max_scans}</span>}
+                      </TableCell>
                       <TableCell>{new Date(qr.created_at).toLocaleDateString()}</TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
@@ -231,7 +689,7 @@ const QRCodesList = () => {
                             variant="ghost"
                             size="icon"
                             title="Download"
-                            onClick={() => handleDownload(qr)}
+                            onClick={() => setExportQR(qr)}
                           >
                             <Download size={16} />
                           </Button>
@@ -270,6 +728,38 @@ const QRCodesList = () => {
           </CardContent>
         </Card>
       </div>
+      
+      <QRDecoder open={showDecoder} onOpenChange={setShowDecoder} codes={qrCodes} />
+
+      <QRCollectionsDialog
+        open={showCollections}
+        onOpenChange={setShowCollections}
+        userId={userId}
+        folders={folders}
+        campaigns={campaigns}
+        onFoldersChange={setFolders}
+        onCampaignsChange={setCampaigns}
+      />
+
+      {exportQR && (
+        <QRExportDialog
+          open={!!exportQR}
+          onOpenChange={(open) => !open && setExportQR(null)}
+          data={getEncodedUrl(exportQR)}
+          settings={parseQRSettings(exportQR.settings)}
+          title={exportQR.title}
+        />
+      )}
+
+      {labelItems && (
+        <QRLabelSheetDialog
+          open={!!labelItems}
+          onOpenChange={(open) => !open && setLabelItems(null)}
+          items={labelItems}
+          title="qr-codes"
+          serialLabel="Short link"
+        />
+      )}
     </DashboardLayout>
   );
 };
@@ -2,13 +2,16 @@
 import { useEffect, useState } from "react";
 import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
 import { QRGenerator } from "@/components/qr/QRGenerator";
-import { useNavigate, useLocation } from "react-router-dom";
+import { BulkQRGenerator } from "@/components/qr/BulkQRGenerator";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { useNavigate, useLocation, useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 
 const QRCreator = () => {
   const navigate = useNavigate();
   const location = useLocation();
+  const { qrid } = useParams();
   const [userName, setUserName] = useState("...");
   const [userId, setUserId] = useState("");
   const [isLoading, setIsLoading] = useState(true);
@@ -16,6 +19,7 @@ const QRCreator = () => {
   // Get pageId from query params if provided
   const queryParams = new URLSearchParams(location.search);
   const pageId = queryParams.get('pageId');
+  const mode = queryParams.get('mode') === 'bulk' ? 'bulk' : 'single';
 
   useEffect(() => {
     const checkAuth = async () => {
@@ -65,10 +69,25 @@ const QRCreator = () => {
     <DashboardLayout userType="Brand" userName={userName}>
       <div className="space-y-6">
         <div className="flex items-center justify-between">
-          <h1 className="text-2xl font-bold tracking-tight">Create QR Code</h1>
+          <h1 className="text-2xl font-bold tracking-tight">{qrid ? 'Edit QR Code' : 'Create QR Code'}</h1>
         </div>
         
-        <QRGenerator userId={userId} initialPageId={pageId} />
+        {qrid ? (
+          <QRGenerator userId={userId} initialPageId={pageId} qrCodeId={qrid} />
+        ) : (
+          <Tabs defaultValue={mode}>
+            <TabsList className="mx-auto flex w-fit">
+              <TabsTrigger value="single">Single</TabsTrigger>
+              <TabsTrigger value="bulk">Bulk (CSV)</TabsTrigger>
+            </TabsList>
+            <TabsContent value="single" className="mt-6">
+              <QRGenerator userId={userId} initialPageId={pageId} />
+            </TabsContent>
+            <TabsContent value="bulk" className="mt-6">
+              <BulkQRGenerator userId={userId} />
+            </TabsContent>
+          </Tabs>
+        )}
       </div>
     </DashboardLayout>
   );
@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { QRCodeStatus } from "@/lib/qr/schedule";
+import { findMatchingRule, getScanContext, parseRoutingRules } from "@/lib/qr/routing";
+import { isHttpUrl } from "@/lib/url";
+
+interface ResolvedQRCode {
+  id: string;
+  status: QRCodeStatus;
+  destination?: string;
+  fallback_url?: string | null;
+  active_from?: string | null;
+  routing_rules?: unknown;
+  country?: string | null;
+}
+
+// Entry point for dynamic QR codes: records the scan and forwards the
+// visitor to the code's current destination, or to its fallback when the
+// code is outside its schedule or over its scan limit. Routing rules can
+// send the scan elsewhere based on the device, location, language and time.
+const QRRedirect = () => {
+  const { shortCode } = useParams<{ shortCode: string }>();
+  const [error, setError] = useState<string | null>(null);
+  const [inactive, setInactive] = useState<ResolvedQRCode | null>(null);
+
+  useEffect(() => {
+    const resolve = async () => {
+      try {
+        const { data, error } = await supabase.rpc('resolve_qr_code', {
+          p_short_code: shortCode,
+          p_user_agent: navigator.userAgent,
+          p_referrer: document.referrer || undefined,
+        });
+
+        if (error) throw error;
+
+        const resolved = data as unknown as ResolvedQRCode | null;
+        if (!resolved) {
+          setError("This QR code doesn't exist or is no longer active.");
+          return;
+        }
+
+        if (resolved.status !== 'live') {
+          if (resolved.fallback_url && isHttpUrl(resolved.fallback_url)) {
+            window.location.replace(resolved.fallback_url);
+          } else {
+            setInactive(resolved);
+          }
+          return;
+        }
+
+        if (!resolved.destination) {
+          setError("This QR code doesn't exist or is no longer active.");
+          return;
+        }
+
+        const rules = parseRoutingRules(resolved.routing_rules);
+        const matchIndex = findMatchingRule(rules, getScanContext(resolved.country ?? null));
+
+        const destination = matchIndex >= 0 ? rules[matchIndex].destination : resolved.destination;
+        if (!isHttpUrl(destination)) {
+          setError("This QR code doesn't point to a web page.");
+          return;
+        }
+
+        // Replace so the back button skips the redirect
+        window.location.replace(destination);
+      } catch (error) {
+        console.error("Error resolving QR code:", error);
+        setError("We couldn't open this QR code. Please try again.");
+      }
+    };
+
+    if (shortCode) {
+      resolve();
+    }
+  }, [shortCode]);
+
+  if (inactive) {
+    const startsAt = inactive.active_from ? new Date(inactive.active_from).toLocaleString() : null;
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 p-6 text-center">
+        <h1 className="text-3xl font-bold text-gray-800 mb-4">
+          {inactive.status === 'scheduled'
+            ? "This campaign hasn't started yet"
+            : inactive.status === 'exhausted'
+              ? "This offer has reached its limit"
+              : "This campaign has ended"}
+        </h1>
+        <p className="text-gray-600 mb-6">
+          {inactive.status === 'scheduled'
+            ? startsAt ? `Check back on ${startsAt}.` : "Check back soon."
+            : "Thanks for your interest. This QR code is no longer active."}
+        </p>
+        <a href="/" className="text-primary hover:underline">
+          Go to Homepage
+        </a>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 p-6">
+        <h1 className="text-3xl font-bold text-gray-800 mb-4">QR Code Not Found</h1>
+        <p className="text-gray-600 mb-6">{error}</p>
+        <a href="/" className="text-primary hover:underline">
+          Go to Homepage
+        </a>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen">
+      <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+    </div>
+  );
+};
+
+export default QRRedirect;
@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { SerialVerificationBanner } from "@/components/qr/SerialVerificationBanner";
+import {
+  getScanLocation,
+  isOwnVerifiedSerial,
+  parseSerialScanResult,
+  rememberVerifiedSerial,
+  SerialScanResult,
+} from "@/lib/qr/serials";
+
+// Entry point for serialized product codes: records the scan, then shows
+// the result on the product's landing page, or here if it has none
+const SerialVerify = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [result, setResult] = useState<SerialScanResult | null>(null);
+  const [isOwnScan, setIsOwnScan] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const scanRecorded = useRef(false);
+
+  useEffect(() => {
+    const verify = async () => {
+      try {
+        const coords = await getScanLocation();
+        const { data, error } = await supabase.rpc('record_serial_scan', {
+          p_token: token,
+          p_latitude: coords?.latitude,
+          p_longitude: coords?.longitude,
+          p_accuracy: coords?.accuracy,
+        });
+
+        if (error) throw error;
+
+        const scan = parseSerialScanResult(data);
+        const ownScan = scan.status === 'already_verified' && isOwnVerifiedSerial(token);
+        if (scan.status === 'verified') rememberVerifiedSerial(token);
+
+        if (scan.status !== 'unknown' && scan.landingPageSlug) {
+          navigate(`/${scan.landingPageSlug}`, { replace: true, state: { serialScan: scan, isOwnScan: ownScan } });
+          return;
+        }
+        setResult(scan);
+        setIsOwnScan(ownScan);
+      } catch (error) {
+        console.error("Error verifying serial:", error);
+        setError("We couldn't verify this product right now. Please try again.");
+      }
+    };
+
+    // Only count one scan per visit
+    if (token && !scanRecorded.current) {
+      scanRecorded.current = true;
+      verify();
+    }
+  }, [token, navigate]);
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 p-6">
+        <h1 className="text-3xl font-bold text-gray-800 mb-4">Verification Failed</h1>
+        <p className="text-gray-600 mb-6">{error}</p>
+        <a href="/" className="text-primary hover:underline">
+          Go to Homepage
+        </a>
+      </div>
+    );
+  }
+
+  if (!result) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen gap-4">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+        <p className="text-muted-foreground">Verifying product...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8 max-w-xl space-y-6">
+        <SerialVerificationBanner result={result} isOwnScan={isOwnScan} />
+        {result.status !== 'unknown' && (
+          <div className="bg-white rounded-lg shadow p-6 text-center">
+            {result.productImage && (
+              <img src={result.productImage} alt={result.productName} className="mx-auto mb-4 h-48 object-contain" />
+            )}
+            <h1 className="text-2xl font-bold">{result.productName}</h1>
+            <p className="text-muted-foreground">Serial {result.serialNumber}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SerialVerify;
@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { ShieldAlert, ShieldCheck } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  cachePublicKey,
+  getCachedPublicKey,
+  SignatureCheck,
+  SIGNED_LINK_PARAM,
+  verifySignedCode,
+} from "@/lib/qr/signing";
+
+interface CodeDetails {
+  brandName: string | null;
+  productName: string | null;
+  productImage: string | null;
+}
+
+// Reads the JSON returned by get_signed_code_details
+function parseCodeDetails(value: unknown): CodeDetails {
+  const raw = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  const text = (input: unknown) => (typeof input === 'string' ? input : null);
+  return {
+    brandName: text(raw.brand_name),
+    productName: text(raw.product_name),
+    productImage: text(raw.product_image),
+  };
+}
+
+// Cached keys let repeat checks work offline; otherwise fetch the published key
+async function lookupPublicKey(brandId: string, version: number): Promise<string | null> {
+  const cached = getCachedPublicKey(brandId, version);
+  if (cached) return cached;
+
+  const { data, error } = await supabase
+    .from('brand_signing_keys')
+    .select('public_key')
+    .eq('brand_id', brandId)
+    .eq('version', version)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  cachePublicKey(brandId, version, data.public_key);
+  return data.public_key;
+}
+
+// Checks a signed product code in the browser. The signature decides the
+// result; product names are fetched afterwards for display only.
+const SignatureVerify = () => {
+  const [searchParams] = useSearchParams();
+  const code = searchParams.get(SIGNED_LINK_PARAM) || '';
+  const [check, setCheck] = useState<SignatureCheck | null>(null);
+  const [details, setDetails] = useState<CodeDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const verify = async () => {
+      try {
+        const result = await verifySignedCode(code, lookupPublicKey);
+        setCheck(result);
+        if (result.status !== 'genuine') return;
+
+        try {
+          const { data, error: detailsError } = await supabase.rpc('get_signed_code_details', {
+            p_brand_id: result.claims.brandId,
+            p_product_id: result.claims.productId,
+          });
+          if (detailsError) throw detailsError;
+          setDetails(parseCodeDetails(data));
+        } catch (detailsError) {
+          console.error("Error fetching product details:", detailsError);
+        }
+      } catch (error) {
+        console.error("Error verifying signature:", error);
+        setError("We couldn't check this code. Connect to the internet once so the brand's public key can be downloaded, or try a browser that supports Ed25519.");
+      }
+    };
+
+    verify();
+  }, [code]);
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 p-6 text-center">
+        <h1 className="text-3xl font-bold text-gray-800 mb-4">Verification Unavailable</h1>
+        <p className="text-gray-600 mb-6 max-w-md">{error}</p>
+      </div>
+    );
+  }
+
+  if (!check) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen gap-4">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+        <p className="text-muted-foreground">Checking signature...</p>
+      </div>
+    );
+  }
+
+  const genuine = check.status === 'genuine';
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8 max-w-xl space-y-6">
+        {genuine ? (
+          <div className="flex gap-3 rounded-lg border border-green-200 bg-green-50 p-4 text-green-800">
+            <ShieldCheck className="h-6 w-6 shrink-0" />
+            <div>
+              <p className="font-semibold">Genuine</p>
+              <p className="text-sm">
+                This code carries a valid signature
+                {details?.brandName ? ` from ${details.brandName}` : ''}.
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="flex gap-3 rounded-lg border border-red-200 bg-red-50 p-4 text-red-800">
+            <ShieldAlert className="h-6 w-6 shrink-0" />
+            <div>
+              <p className="font-semibold">Tampered</p>
+              <p className="text-sm">
+                {check.status === 'unknown_key'
+                  ? "This code was signed with a key the brand never published. The product may not be genuine."
+                  : "This code's signature doesn't match its contents. The product may not be genuine."}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {genuine && (
+          <div className="bg-white rounded-lg shadow p-6 text-center">
+            {details?.productImage && (
+              <img src={details.productImage} alt={details.productName || ''} className="mx-auto mb-4 h-48 object-contain" />
+            )}
+            {details?.productName && <h1 className="text-2xl font-bold">{details.productName}</h1>}
+            <p className="text-muted-foreground">Serial {check.claims.serial}</p>
+            <p className="text-xs text-muted-foreground mt-2">Signing key v{check.claims.keyVersion}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SignatureVerify;
@@ -0,0 +1,2 @@
+-- Store the QR design (colors, logo, shape, frame, size, error correction)
+ALTER TABLE qr_codes ADD COLUMN IF NOT EXISTS settings JSONB;
@@ -0,0 +1,49 @@
+-- Dynamic QR codes encode /q/<short_code> and redirect to qr_codes.url,
+-- so the destination can change after printing
+ALTER TABLE qr_codes ADD COLUMN IF NOT EXISTS short_code TEXT UNIQUE;
+ALTER TABLE qr_codes ADD COLUMN IF NOT EXISTS is_dynamic BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS qr_scans (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    brand_id UUID,
+    landing_page_id UUID,
+    qr_code_id UUID
+);
+
+ALTER TABLE qr_scans ADD COLUMN IF NOT EXISTS user_agent TEXT;
+ALTER TABLE qr_scans ADD COLUMN IF NOT EXISTS referrer TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_qr_scans_qr_code_id ON qr_scans(qr_code_id);
+
+-- Looks up a dynamic code, records the scan and returns where to send the
+-- visitor. Runs as the owner so anonymous scanners never read qr_codes
+-- directly.
+CREATE OR REPLACE FUNCTION resolve_qr_code(
+    p_short_code TEXT,
+    p_user_agent TEXT DEFAULT NULL,
+    p_referrer TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_code qr_codes%ROWTYPE;
+BEGIN
+    SELECT * INTO v_code FROM qr_codes WHERE short_code = p_short_code AND is_dynamic;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO qr_scans (brand_id, landing_page_id, qr_code_id, user_agent, referrer)
+    VALUES (v_code.brand_id, v_code.landing_page_id, v_code.id, left(p_user_agent, 512), left(p_referrer, 2048));
+
+    UPDATE qr_codes SET views = COALESCE(views, 0) + 1 WHERE id = v_code.id;
+
+    RETURN jsonb_build_object('id', v_code.id, 'destination', v_code.url);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION resolve_qr_code(TEXT, TEXT, TEXT) TO anon, authenticated;
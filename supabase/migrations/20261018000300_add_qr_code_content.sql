@@ -0,0 +1,4 @@
+-- Structured form data for non-URL payloads (e.g. vCard fields), so a code
+-- can be edited and regenerated later. `url` still holds what gets encoded
+-- or, for dynamic codes, where the short link redirects.
+ALTER TABLE qr_codes ADD COLUMN IF NOT EXISTS content JSONB;
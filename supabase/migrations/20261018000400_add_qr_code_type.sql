@@ -0,0 +1,8 @@
+-- Payload type of each code (url, text, vcard, wifi, sms, email, phone, geo,
+-- event) so lists can label and filter them
+ALTER TABLE qr_codes ADD COLUMN IF NOT EXISTS qr_type TEXT NOT NULL DEFAULT 'url';
+
+UPDATE qr_codes SET qr_type = content->>'type'
+WHERE qr_type = 'url' AND content ? 'type';
+
+CREATE INDEX IF NOT EXISTS idx_qr_codes_qr_type ON qr_codes(qr_type);
@@ -0,0 +1,148 @@
+-- Serialized per-unit codes for product authentication. Every printed unit
+-- gets its own random token; the first scan marks it verified and later
+-- scans of the same token are reported as "already verified".
+
+-- Landing page shown after a serial is scanned
+ALTER TABLE products ADD COLUMN IF NOT EXISTS landing_page_id UUID;
+
+-- One row per minting run, so brands can re-export what they sent to print
+CREATE TABLE IF NOT EXISTS product_serial_batches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    brand_id UUID REFERENCES brands(id) ON DELETE CASCADE,
+    prefix TEXT NOT NULL DEFAULT '',
+    -- Serial numbers run from start_index to start_index + quantity - 1
+    start_index INTEGER NOT NULL,
+    quantity INTEGER NOT NULL CHECK (quantity > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_serial_batches_product_id ON product_serial_batches(product_id);
+
+CREATE TABLE IF NOT EXISTS product_serials (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    brand_id UUID REFERENCES brands(id) ON DELETE CASCADE,
+    batch_id UUID NOT NULL REFERENCES product_serial_batches(id) ON DELETE CASCADE,
+    serial_number TEXT NOT NULL,
+    token TEXT NOT NULL UNIQUE,
+    first_scanned_at TIMESTAMP WITH TIME ZONE,
+    first_scan_latitude DOUBLE PRECISION,
+    first_scan_longitude DOUBLE PRECISION,
+    -- Radius in meters reported by the scanning device
+    first_scan_accuracy DOUBLE PRECISION,
+    last_scanned_at TIMESTAMP WITH TIME ZONE,
+    scan_count INTEGER NOT NULL DEFAULT 0,
+    UNIQUE (product_id, serial_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_serials_product_id ON product_serials(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_serials_batch_id ON product_serials(batch_id);
+
+ALTER TABLE product_serial_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_serials ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Brands can view their own serial batches"
+    ON product_serial_batches FOR SELECT
+    USING (brand_id IN (SELECT id FROM brands WHERE user_id = auth.uid()));
+
+-- The product must belong to the same brand, or a brand could mint
+-- "genuine" serials for another brand's product
+CREATE POLICY "Brands can create their own serial batches"
+    ON product_serial_batches FOR INSERT
+    WITH CHECK (
+        brand_id IN (SELECT id FROM brands WHERE user_id = auth.uid())
+        AND product_id IN (SELECT id FROM products WHERE products.brand_id = product_serial_batches.brand_id)
+    );
+
+CREATE POLICY "Brands can delete their own serial batches"
+    ON product_serial_batches FOR DELETE
+    USING (brand_id IN (SELECT id FROM brands WHERE user_id = auth.uid()));
+
+-- Tokens are secrets, so only the owning brand can read them. Scanners go
+-- through record_serial_scan instead.
+CREATE POLICY "Brands can view their own serials"
+    ON product_serials FOR SELECT
+    USING (brand_id IN (SELECT id FROM brands WHERE user_id = auth.uid()));
+
+CREATE POLICY "Brands can create their own serials"
+    ON product_serials FOR INSERT
+    WITH CHECK (
+        brand_id IN (SELECT id FROM brands WHERE user_id = auth.uid())
+        AND product_id IN (SELECT id FROM products WHERE products.brand_id = product_serials.brand_id)
+        AND batch_id IN (
+            SELECT id FROM product_serial_batches
+            WHERE product_serial_batches.brand_id = product_serials.brand_id
+              AND product_serial_batches.product_id = product_serials.product_id
+        )
+    );
+
+CREATE POLICY "Brands can delete their own serials"
+    ON product_serials FOR DELETE
+    USING (brand_id IN (SELECT id FROM brands WHERE user_id = auth.uid()));
+
+-- Records a scan of a serial token and reports whether this was its first.
+-- Locking the row makes two simultaneous first scans resolve to one winner.
+CREATE OR REPLACE FUNCTION record_serial_scan(
+    p_token TEXT,
+    p_latitude DOUBLE PRECISION DEFAULT NULL,
+    p_longitude DOUBLE PRECISION DEFAULT NULL,
+    p_accuracy DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_serial product_serials%ROWTYPE;
+    v_product products%ROWTYPE;
+    v_slug TEXT;
+    v_status TEXT;
+BEGIN
+    SELECT * INTO v_serial FROM product_serials WHERE token = p_token FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'unknown');
+    END IF;
+
+    IF v_serial.first_scanned_at IS NULL THEN
+        v_status := 'verified';
+        UPDATE product_serials
+        SET first_scanned_at = now(),
+            first_scan_latitude = p_latitude,
+            first_scan_longitude = p_longitude,
+            first_scan_accuracy = p_accuracy,
+            last_scanned_at = now(),
+            scan_count = scan_count + 1
+        WHERE id = v_serial.id
+        RETURNING * INTO v_serial;
+    ELSE
+        v_status := 'already_verified';
+        UPDATE product_serials
+        SET last_scanned_at = now(),
+            scan_count = scan_count + 1
+        WHERE id = v_serial.id
+        RETURNING * INTO v_serial;
+    END IF;
+
+    SELECT * INTO v_product FROM products WHERE id = v_serial.product_id;
+    SELECT slug INTO v_slug FROM landing_pages WHERE id = v_product.landing_page_id;
+
+    RETURN jsonb_build_object(
+        'status', v_status,
+        'serial_number', v_serial.serial_number,
+        'product_name', v_product.name,
+        'product_image', v_product.image,
+        'landing_page_slug', v_slug,
+        'first_scanned_at', v_serial.first_scanned_at,
+        -- Anyone holding the token sees this, so only roughly: one decimal
+        -- is about 10 km, enough to spot a scan in another region
+        'first_scan_latitude', round(v_serial.first_scan_latitude::numeric, 1),
+        'first_scan_longitude', round(v_serial.first_scan_longitude::numeric, 1),
+        'scan_count', v_serial.scan_count
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_serial_scan(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO anon, authenticated;
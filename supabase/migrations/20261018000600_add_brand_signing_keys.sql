@@ -0,0 +1,120 @@
+-- Ed25519 signing keys for offline-verifiable product codes. Public keys are
+-- published to everyone; private keys live in a separate owner-only table.
+-- Rotating retires the current key without deleting it, so codes printed
+-- under an older version keep verifying. Clients only write keys through
+-- rotate_brand_signing_key, so a rotation can't be left half done.
+
+CREATE TABLE IF NOT EXISTS brand_signing_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    brand_id UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    -- Embedded in every signed code to select the verifying key
+    version INTEGER NOT NULL CHECK (version > 0 AND version < 65536),
+    -- Raw 32-byte public key, base64url encoded
+    public_key TEXT NOT NULL,
+    -- Set when a newer key takes over signing
+    retired_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (brand_id, version)
+);
+
+CREATE TABLE IF NOT EXISTS brand_signing_key_secrets (
+    key_id UUID PRIMARY KEY REFERENCES brand_signing_keys(id) ON DELETE CASCADE,
+    brand_id UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    -- PKCS#8 private key, base64url encoded
+    private_key TEXT NOT NULL
+);
+
+ALTER TABLE brand_signing_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE brand_signing_key_secrets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view signing public keys"
+    ON brand_signing_keys FOR SELECT
+    USING (true);
+
+-- Retiring is the only change allowed: a published key's public half and
+-- version must stay as they were for older signatures to verify
+CREATE OR REPLACE FUNCTION protect_brand_signing_key()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.id IS DISTINCT FROM OLD.id
+        OR NEW.brand_id IS DISTINCT FROM OLD.brand_id
+        OR NEW.version IS DISTINCT FROM OLD.version
+        OR NEW.public_key IS DISTINCT FROM OLD.public_key
+        OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+        RAISE EXCEPTION 'Signing keys can only be retired' USING ERRCODE = '42501';
+    END IF;
+    IF OLD.retired_at IS NOT NULL AND NEW.retired_at IS DISTINCT FROM OLD.retired_at THEN
+        RAISE EXCEPTION 'Retired signing keys cannot be changed' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_brand_signing_key ON brand_signing_keys;
+CREATE TRIGGER protect_brand_signing_key
+    BEFORE UPDATE ON brand_signing_keys
+    FOR EACH ROW EXECUTE FUNCTION protect_brand_signing_key();
+
+CREATE POLICY "Brands can view their own signing secrets"
+    ON brand_signing_key_secrets FOR SELECT
+    USING (brand_id IN (SELECT id FROM brands WHERE user_id = auth.uid()));
+
+-- Publishes a new key with its secret and retires the current one, all in
+-- one transaction. The version is picked here while the brand row is
+-- locked, so two rotations at once can't collide.
+CREATE OR REPLACE FUNCTION rotate_brand_signing_key(p_brand_id UUID, p_public_key TEXT, p_private_key TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_key brand_signing_keys%ROWTYPE;
+    v_version INTEGER;
+BEGIN
+    PERFORM 1 FROM brands WHERE id = p_brand_id AND user_id = auth.uid() FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Brand % not found', p_brand_id USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT COALESCE(max(version), 0) + 1 INTO v_version
+    FROM brand_signing_keys
+    WHERE brand_id = p_brand_id;
+
+    -- Retired keys stay published so older signatures still verify
+    UPDATE brand_signing_keys
+    SET retired_at = now()
+    WHERE brand_id = p_brand_id AND retired_at IS NULL;
+
+    INSERT INTO brand_signing_keys (brand_id, version, public_key)
+    VALUES (p_brand_id, v_version, p_public_key)
+    RETURNING * INTO v_key;
+
+    INSERT INTO brand_signing_key_secrets (key_id, brand_id, private_key)
+    VALUES (v_key.id, p_brand_id, p_private_key);
+
+    RETURN to_jsonb(v_key);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION rotate_brand_signing_key(UUID, TEXT, TEXT) TO authenticated;
+
+-- Names shown next to a verified signature. Only called after the signature
+-- checks out, so it never decides whether a code is genuine.
+CREATE OR REPLACE FUNCTION get_signed_code_details(p_brand_id UUID, p_product_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT jsonb_build_object(
+        'brand_name', (SELECT name FROM brands WHERE id = p_brand_id),
+        'product_name', (SELECT name FROM products WHERE id = p_product_id AND brand_id = p_brand_id),
+        'product_image', (SELECT image FROM products WHERE id = p_product_id AND brand_id = p_brand_id)
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION get_signed_code_details(UUID, UUID) TO anon, authenticated;
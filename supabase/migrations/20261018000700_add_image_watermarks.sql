@@ -0,0 +1,54 @@
+-- Registry of invisible watermarks embedded in uploaded images. The mark
+-- itself only carries watermark_id; this table maps it back to the brand
+-- and the stored file.
+
+CREATE TABLE IF NOT EXISTS image_watermarks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    -- Unsigned 32-bit id embedded in the pixels
+    watermark_id BIGINT NOT NULL UNIQUE CHECK (watermark_id > 0 AND watermark_id < 4294967296),
+    brand_id UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    -- Path within the product-images bucket
+    file_path TEXT NOT NULL,
+    file_name TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_image_watermarks_brand_id ON image_watermarks(brand_id);
+
+ALTER TABLE image_watermarks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Brands can view their own watermarks"
+    ON image_watermarks FOR SELECT
+    USING (brand_id IN (SELECT id FROM brands WHERE user_id = auth.uid()));
+
+CREATE POLICY "Brands can create their own watermarks"
+    ON image_watermarks FOR INSERT
+    WITH CHECK (brand_id IN (SELECT id FROM brands WHERE user_id = auth.uid()));
+
+CREATE POLICY "Brands can delete their own watermarks"
+    ON image_watermarks FOR DELETE
+    USING (brand_id IN (SELECT id FROM brands WHERE user_id = auth.uid()));
+
+-- Resolves a decoded watermark to its owner. Works across brands, so a
+-- brand can tell when a suspect image is another brand's artwork.
+CREATE OR REPLACE FUNCTION identify_image_watermark(p_watermark_id BIGINT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT jsonb_build_object(
+        'brand_id', b.id,
+        'brand_name', b.name,
+        'file_path', w.file_path,
+        'file_name', w.file_name,
+        'created_at', w.created_at,
+        'is_own', b.user_id = auth.uid()
+    )
+    FROM image_watermarks w
+    JOIN brands b ON b.id = w.brand_id
+    WHERE w.watermark_id = p_watermark_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION identify_image_watermark(BIGINT) TO authenticated;
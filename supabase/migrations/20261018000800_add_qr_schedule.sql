@@ -0,0 +1,71 @@
+-- Scheduling and scan limits for dynamic QR codes. Outside its window or
+-- past its limit a code sends visitors to fallback_url, or to the built-in
+-- "campaign ended" page when no fallback is set.
+ALTER TABLE qr_codes ADD COLUMN IF NOT EXISTS active_from TIMESTAMP WITH TIME ZONE;
+ALTER TABLE qr_codes ADD COLUMN IF NOT EXISTS active_until TIMESTAMP WITH TIME ZONE;
+ALTER TABLE qr_codes ADD COLUMN IF NOT EXISTS max_scans INTEGER CHECK (max_scans > 0);
+ALTER TABLE qr_codes ADD COLUMN IF NOT EXISTS fallback_url TEXT;
+
+ALTER TABLE qr_codes ADD CONSTRAINT qr_codes_active_window_check
+    CHECK (active_from IS NULL OR active_until IS NULL OR active_until > active_from);
+
+-- Scans are sent straight to this URL, so only web links are allowed;
+-- keep in sync with isHttpUrl in src/lib/url.ts
+ALTER TABLE qr_codes ADD CONSTRAINT qr_codes_fallback_url_check
+    CHECK (fallback_url IS NULL OR fallback_url ~* '^https?://');
+
+-- Keep in sync with getQRCodeStatus in src/lib/qr/schedule.ts
+CREATE OR REPLACE FUNCTION qr_code_status(p_code qr_codes)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT CASE
+        WHEN p_code.active_from IS NOT NULL AND p_code.active_from > now() THEN 'scheduled'
+        WHEN p_code.active_until IS NOT NULL AND p_code.active_until <= now() THEN 'expired'
+        WHEN p_code.max_scans IS NOT NULL AND COALESCE(p_code.views, 0) >= p_code.max_scans THEN 'exhausted'
+        ELSE 'live'
+    END;
+$$;
+
+-- Only live scans are recorded and counted, so views never passes
+-- max_scans. The row lock stops simultaneous scans from overshooting it.
+CREATE OR REPLACE FUNCTION resolve_qr_code(
+    p_short_code TEXT,
+    p_user_agent TEXT DEFAULT NULL,
+    p_referrer TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_code qr_codes%ROWTYPE;
+    v_status TEXT;
+BEGIN
+    SELECT * INTO v_code FROM qr_codes WHERE short_code = p_short_code AND is_dynamic FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    v_status := qr_code_status(v_code);
+    IF v_status <> 'live' THEN
+        RETURN jsonb_build_object(
+            'id', v_code.id,
+            'status', v_status,
+            'fallback_url', v_code.fallback_url,
+            'active_from', v_code.active_from
+        );
+    END IF;
+
+    INSERT INTO qr_scans (brand_id, landing_page_id, qr_code_id, user_agent, referrer)
+    VALUES (v_code.brand_id, v_code.landing_page_id, v_code.id, left(p_user_agent, 512), left(p_referrer, 2048));
+
+    UPDATE qr_codes SET views = COALESCE(views, 0) + 1 WHERE id = v_code.id;
+
+    RETURN jsonb_build_object('id', v_code.id, 'status', v_status, 'destination', v_code.url);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION resolve_qr_code(TEXT, TEXT, TEXT) TO anon, authenticated;
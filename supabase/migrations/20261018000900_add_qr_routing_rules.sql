@@ -0,0 +1,77 @@
+-- Ordered routing rules for dynamic QR codes. The first rule whose
+-- conditions match the scan picks the destination; the rule format is
+-- described in src/lib/qr/routing.ts.
+ALTER TABLE qr_codes ADD COLUMN IF NOT EXISTS routing_rules JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Rules must be objects whose destination is a web link; scans are sent
+-- straight to it. Keep in sync with isHttpUrl in src/lib/url.ts
+CREATE OR REPLACE FUNCTION qr_routing_rules_valid(p_rules JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT jsonb_typeof(p_rules) = 'array' AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_rules) AS rule
+        WHERE jsonb_typeof(rule) <> 'object'
+           OR COALESCE(rule->>'destination', '') !~* '^https?://'
+    );
+$$;
+
+ALTER TABLE qr_codes ADD CONSTRAINT qr_codes_routing_rules_check
+    CHECK (qr_routing_rules_valid(routing_rules));
+
+-- Live codes now also return their rules and the scanner's country, taken
+-- from the CDN's geolocation header when present. Rules are evaluated by
+-- the redirect page, which knows the device, language and local time.
+CREATE OR REPLACE FUNCTION resolve_qr_code(
+    p_short_code TEXT,
+    p_user_agent TEXT DEFAULT NULL,
+    p_referrer TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_code qr_codes%ROWTYPE;
+    v_status TEXT;
+    v_country TEXT;
+BEGIN
+    SELECT * INTO v_code FROM qr_codes WHERE short_code = p_short_code AND is_dynamic FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    v_status := qr_code_status(v_code);
+    IF v_status <> 'live' THEN
+        RETURN jsonb_build_object(
+            'id', v_code.id,
+            'status', v_status,
+            'fallback_url', v_code.fallback_url,
+            'active_from', v_code.active_from
+        );
+    END IF;
+
+    INSERT INTO qr_scans (brand_id, landing_page_id, qr_code_id, user_agent, referrer)
+    VALUES (v_code.brand_id, v_code.landing_page_id, v_code.id, left(p_user_agent, 512), left(p_referrer, 2048));
+
+    UPDATE qr_codes SET views = COALESCE(views, 0) + 1 WHERE id = v_code.id;
+
+    -- Cloudflare sends XX when the country is unknown and T1 for Tor
+    v_country := upper(NULLIF(current_setting('request.headers', true), '')::json->>'cf-ipcountry');
+    IF v_country !~ '^[A-Z]{2}$' OR v_country = 'XX' THEN
+        v_country := NULL;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'id', v_code.id,
+        'status', v_status,
+        'destination', v_code.url,
+        'routing_rules', v_code.routing_rules,
+        'country', v_country
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION resolve_qr_code(TEXT, TEXT, TEXT) TO anon, authenticated;
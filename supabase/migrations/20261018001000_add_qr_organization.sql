@@ -0,0 +1,76 @@
+-- Folders, free-form tags and campaigns for organizing QR codes. A code
+-- sits in at most one folder and one campaign but can carry any tags.
+CREATE TABLE IF NOT EXISTS qr_folders (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    UNIQUE (user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS qr_campaigns (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    description TEXT,
+    UNIQUE (user_id, name)
+);
+
+ALTER TABLE qr_codes ADD COLUMN IF NOT EXISTS folder_id UUID REFERENCES qr_folders(id) ON DELETE SET NULL;
+ALTER TABLE qr_codes ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES qr_campaigns(id) ON DELETE SET NULL;
+ALTER TABLE qr_codes ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_qr_folders_user_id ON qr_folders(user_id);
+CREATE INDEX IF NOT EXISTS idx_qr_campaigns_user_id ON qr_campaigns(user_id);
+CREATE INDEX IF NOT EXISTS idx_qr_codes_folder_id ON qr_codes(folder_id);
+CREATE INDEX IF NOT EXISTS idx_qr_codes_campaign_id ON qr_codes(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_qr_codes_tags ON qr_codes USING GIN (tags);
+
+ALTER TABLE qr_folders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE qr_campaigns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own QR folders"
+    ON qr_folders FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own QR folders"
+    ON qr_folders FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own QR folders"
+    ON qr_folders FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own QR folders"
+    ON qr_folders FOR DELETE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own QR campaigns"
+    ON qr_campaigns FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own QR campaigns"
+    ON qr_campaigns FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own QR campaigns"
+    ON qr_campaigns FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own QR campaigns"
+    ON qr_campaigns FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Adds tags to many codes in one request. Runs with the caller's rights, so
+-- row level security limits it to their own codes.
+CREATE OR REPLACE FUNCTION add_qr_code_tags(p_ids UUID[], p_tags TEXT[])
+RETURNS VOID
+LANGUAGE sql
+AS $$
+    UPDATE qr_codes
+    SET tags = ARRAY(SELECT DISTINCT tag FROM unnest(tags || p_tags) AS tag ORDER BY tag)
+    WHERE id = ANY(p_ids);
+$$;
+
+GRANT EXECUTE ON FUNCTION add_qr_code_tags(UUID[], TEXT[]) TO authenticated;
@@ -0,0 +1,42 @@
+-- UTM presets for QR destinations, and campaign parameters captured on
+-- landing page views so analytics can group traffic by campaign.
+CREATE TABLE IF NOT EXISTS utm_presets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    brand_id UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    utm_source TEXT,
+    utm_medium TEXT,
+    utm_campaign TEXT,
+    utm_term TEXT,
+    utm_content TEXT,
+    UNIQUE (brand_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_utm_presets_brand_id ON utm_presets(brand_id);
+
+ALTER TABLE utm_presets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Brands can view their own UTM presets"
+    ON utm_presets FOR SELECT
+    USING (brand_id IN (SELECT id FROM brands WHERE user_id = auth.uid()));
+
+CREATE POLICY "Brands can create their own UTM presets"
+    ON utm_presets FOR INSERT
+    WITH CHECK (brand_id IN (SELECT id FROM brands WHERE user_id = auth.uid()));
+
+CREATE POLICY "Brands can update their own UTM presets"
+    ON utm_presets FOR UPDATE
+    USING (brand_id IN (SELECT id FROM brands WHERE user_id = auth.uid()));
+
+CREATE POLICY "Brands can delete their own UTM presets"
+    ON utm_presets FOR DELETE
+    USING (brand_id IN (SELECT id FROM brands WHERE user_id = auth.uid()));
+
+ALTER TABLE page_views ADD COLUMN IF NOT EXISTS utm_source TEXT;
+ALTER TABLE page_views ADD COLUMN IF NOT EXISTS utm_medium TEXT;
+ALTER TABLE page_views ADD COLUMN IF NOT EXISTS utm_campaign TEXT;
+ALTER TABLE page_views ADD COLUMN IF NOT EXISTS utm_term TEXT;
+ALTER TABLE page_views ADD COLUMN IF NOT EXISTS utm_content TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_page_views_brand_campaign ON page_views(brand_id, utm_campaign);
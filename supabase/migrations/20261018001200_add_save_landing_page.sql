@@ -0,0 +1,80 @@
+-- Saves a landing page and its components in one transaction. The editor
+-- sends only what changed since its last save: components to insert or
+-- update, ids to delete, and the full order of ids. Component ids stay
+-- stable across saves so per-block analytics keep working.
+--
+-- Runs with the caller's rights, so row level security limits it to pages
+-- the caller owns. Any failure rolls back the whole save.
+CREATE OR REPLACE FUNCTION save_landing_page(
+    p_page_id UUID,
+    p_title TEXT,
+    p_background_color TEXT,
+    p_font_family TEXT,
+    p_upserts JSONB,
+    p_deleted_ids UUID[],
+    p_order UUID[]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_updated_at TIMESTAMP WITH TIME ZONE;
+    v_count INTEGER;
+BEGIN
+    IF jsonb_typeof(p_upserts) <> 'array' THEN
+        RAISE EXCEPTION 'p_upserts must be a JSON array';
+    END IF;
+
+    UPDATE landing_pages
+    SET title = p_title,
+        background_color = p_background_color,
+        font_family = p_font_family,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = p_page_id
+    RETURNING updated_at INTO v_updated_at;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Landing page % not found', p_page_id USING ERRCODE = 'P0002';
+    END IF;
+
+    DELETE FROM page_components
+    WHERE page_id = p_page_id AND id = ANY(p_deleted_ids);
+
+    INSERT INTO page_components (id, page_id, type, content, styles, position)
+    SELECT
+        (component->>'id')::UUID,
+        p_page_id,
+        component->>'type',
+        COALESCE(component->'content', '{}'::JSONB),
+        COALESCE(component->'styles', '{}'::JSONB),
+        COALESCE(array_position(p_order, (component->>'id')::UUID), 0) - 1
+    FROM jsonb_array_elements(p_upserts) AS component
+    ON CONFLICT (id) DO UPDATE
+    SET type = EXCLUDED.type,
+        content = EXCLUDED.content,
+        styles = EXCLUDED.styles,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE page_components.page_id = p_page_id;
+
+    UPDATE page_components
+    SET position = ordered.position - 1
+    FROM unnest(p_order) WITH ORDINALITY AS ordered(id, position)
+    WHERE page_components.id = ordered.id
+      AND page_components.page_id = p_page_id
+      AND page_components.position IS DISTINCT FROM ordered.position - 1;
+
+    -- The editor's order must cover exactly the saved components; anything
+    -- else means the page was changed elsewhere since it was loaded
+    SELECT count(*) INTO v_count FROM page_components WHERE page_id = p_page_id;
+    IF v_count <> COALESCE(array_length(p_order, 1), 0) OR EXISTS (
+        SELECT 1 FROM page_components
+        WHERE page_id = p_page_id AND NOT (id = ANY(p_order))
+    ) THEN
+        RAISE EXCEPTION 'Landing page % was changed elsewhere', p_page_id USING ERRCODE = '40001';
+    END IF;
+
+    RETURN jsonb_build_object('updated_at', v_updated_at);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_landing_page(UUID, TEXT, TEXT, TEXT, JSONB, UUID[], UUID[]) TO authenticated;
@@ -0,0 +1,154 @@
+-- Snapshots of a landing page taken on every save, so editors can compare
+-- and restore earlier versions. Blocks are stored in page order as
+-- {id, type, content, styles} objects.
+CREATE TABLE IF NOT EXISTS page_revisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    page_id UUID NOT NULL REFERENCES landing_pages(id) ON DELETE CASCADE,
+    author_id UUID,
+    author_email TEXT,
+    title TEXT NOT NULL,
+    background_color TEXT,
+    font_family TEXT,
+    blocks JSONB NOT NULL DEFAULT '[]',
+    is_autosave BOOLEAN NOT NULL DEFAULT false
+);
+
+CREATE INDEX IF NOT EXISTS idx_page_revisions_page_id ON page_revisions(page_id, created_at DESC);
+
+ALTER TABLE page_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view revisions of their own pages"
+    ON page_revisions FOR SELECT
+    USING (EXISTS (
+        SELECT 1 FROM landing_pages
+        WHERE landing_pages.id = page_revisions.page_id AND landing_pages.user_id = auth.uid()
+    ));
+
+CREATE POLICY "Users can create revisions of their own pages"
+    ON page_revisions FOR INSERT
+    WITH CHECK (auth.uid() = author_id AND EXISTS (
+        SELECT 1 FROM landing_pages
+        WHERE landing_pages.id = page_revisions.page_id AND landing_pages.user_id = auth.uid()
+    ));
+
+-- Revisions are append-only for clients; there is no UPDATE or DELETE policy.
+
+-- Adds p_autosave and a revision snapshot to every save. Autosaves extend the
+-- newest revision while it is an autosave by the same author from the last
+-- few minutes, so a burst of edits becomes one revision instead of dozens.
+-- Runs as the owner so it can extend that revision, and checks page
+-- ownership itself instead of relying on RLS.
+DROP FUNCTION IF EXISTS save_landing_page(UUID, TEXT, TEXT, TEXT, JSONB, UUID[], UUID[]);
+
+CREATE OR REPLACE FUNCTION save_landing_page(
+    p_page_id UUID,
+    p_title TEXT,
+    p_background_color TEXT,
+    p_font_family TEXT,
+    p_upserts JSONB,
+    p_deleted_ids UUID[],
+    p_order UUID[],
+    p_autosave BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_updated_at TIMESTAMP WITH TIME ZONE;
+    v_count INTEGER;
+    v_blocks JSONB;
+    v_latest page_revisions%ROWTYPE;
+    v_revision_id UUID;
+BEGIN
+    IF jsonb_typeof(p_upserts) <> 'array' THEN
+        RAISE EXCEPTION 'p_upserts must be a JSON array';
+    END IF;
+
+    UPDATE landing_pages
+    SET title = p_title,
+        background_color = p_background_color,
+        font_family = p_font_family,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = p_page_id AND user_id = auth.uid()
+    RETURNING updated_at INTO v_updated_at;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Landing page % not found', p_page_id USING ERRCODE = 'P0002';
+    END IF;
+
+    DELETE FROM page_components
+    WHERE page_id = p_page_id AND id = ANY(p_deleted_ids);
+
+    INSERT INTO page_components (id, page_id, type, content, styles, position)
+    SELECT
+        (component->>'id')::UUID,
+        p_page_id,
+        component->>'type',
+        COALESCE(component->'content', '{}'::JSONB),
+        COALESCE(component->'styles', '{}'::JSONB),
+        COALESCE(array_position(p_order, (component->>'id')::UUID), 0) - 1
+    FROM jsonb_array_elements(p_upserts) AS component
+    ON CONFLICT (id) DO UPDATE
+    SET type = EXCLUDED.type,
+        content = EXCLUDED.content,
+        styles = EXCLUDED.styles,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE page_components.page_id = p_page_id;
+
+    UPDATE page_components
+    SET position = ordered.position - 1
+    FROM unnest(p_order) WITH ORDINALITY AS ordered(id, position)
+    WHERE page_components.id = ordered.id
+      AND page_components.page_id = p_page_id
+      AND page_components.position IS DISTINCT FROM ordered.position - 1;
+
+    -- The editor's order must cover exactly the saved components; anything
+    -- else means the page was changed elsewhere since it was loaded
+    SELECT count(*) INTO v_count FROM page_components WHERE page_id = p_page_id;
+    IF v_count <> COALESCE(array_length(p_order, 1), 0) OR EXISTS (
+        SELECT 1 FROM page_components
+        WHERE page_id = p_page_id AND NOT (id = ANY(p_order))
+    ) THEN
+        RAISE EXCEPTION 'Landing page % was changed elsewhere', p_page_id USING ERRCODE = '40001';
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(
+        jsonb_build_object('id', id, 'type', type, 'content', content, 'styles', styles)
+        ORDER BY position
+    ), '[]'::JSONB)
+    INTO v_blocks
+    FROM page_components
+    WHERE page_id = p_page_id;
+
+    SELECT * INTO v_latest
+    FROM page_revisions
+    WHERE page_id = p_page_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF p_autosave AND v_latest.id IS NOT NULL AND v_latest.is_autosave
+        AND v_latest.author_id = auth.uid()
+        AND v_latest.updated_at > CURRENT_TIMESTAMP - INTERVAL '5 minutes' THEN
+        UPDATE page_revisions
+        SET title = p_title,
+            background_color = p_background_color,
+            font_family = p_font_family,
+            blocks = v_blocks,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = v_latest.id
+        RETURNING id INTO v_revision_id;
+    ELSE
+        INSERT INTO page_revisions (page_id, author_id, author_email, title, background_color, font_family, blocks, is_autosave)
+        VALUES (p_page_id, auth.uid(), auth.jwt() ->> 'email', p_title, p_background_color, p_font_family, v_blocks, p_autosave)
+        RETURNING id INTO v_revision_id;
+    END IF;
+
+    RETURN jsonb_build_object('updated_at', v_updated_at, 'revision_id', v_revision_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_landing_page(UUID, TEXT, TEXT, TEXT, JSONB, UUID[], UUID[], BOOLEAN) TO authenticated;
@@ -0,0 +1,196 @@
+-- Draft/live split for landing pages. page_components and the page fields
+-- are the draft the editor saves to; publishing copies them into
+-- live_snapshot, which is all the public route ever reads. Publishing for
+-- a later time queues the copy in pending_snapshot instead, and it takes
+-- over from live_snapshot at publish_at. unpublish_at takes the page down.
+ALTER TABLE landing_pages ADD COLUMN IF NOT EXISTS live_snapshot JSONB;
+ALTER TABLE landing_pages ADD COLUMN IF NOT EXISTS pending_snapshot JSONB;
+ALTER TABLE landing_pages ADD COLUMN IF NOT EXISTS published_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE landing_pages ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE landing_pages ADD COLUMN IF NOT EXISTS unpublish_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE landing_pages ADD CONSTRAINT landing_pages_publish_window_check
+    CHECK (publish_at IS NULL OR unpublish_at IS NULL OR unpublish_at > publish_at);
+
+-- The page as it is saved now, in the live_snapshot format. Blocks use the
+-- same {id, type, content, styles} shape as page_revisions.
+CREATE OR REPLACE FUNCTION landing_page_snapshot(p_page_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT jsonb_build_object(
+        'title', page.title,
+        'background_color', page.background_color,
+        'font_family', page.font_family,
+        'blocks', COALESCE((
+            SELECT jsonb_agg(
+                jsonb_build_object('id', id, 'type', type, 'content', content, 'styles', styles)
+                ORDER BY position
+            )
+            FROM page_components
+            WHERE page_id = page.id
+        ), '[]'::JSONB)
+    )
+    FROM landing_pages AS page
+    WHERE page.id = p_page_id;
+$$;
+
+-- Every page was public before drafts existed, so they all start out live
+-- with their current content
+UPDATE landing_pages
+SET live_snapshot = landing_page_snapshot(id),
+    published = true,
+    published_at = COALESCE(updated_at, CURRENT_TIMESTAMP)
+WHERE live_snapshot IS NULL;
+
+-- What visitors see: the pending snapshot once its publish time has
+-- passed or was cleared, otherwise the live one. Keep in sync with getLiveSnapshot in
+-- src/components/page-builder/publishing.ts
+CREATE OR REPLACE FUNCTION landing_page_live_snapshot(p_page landing_pages)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT CASE
+        WHEN p_page.pending_snapshot IS NOT NULL AND COALESCE(p_page.publish_at <= now(), true) THEN p_page.pending_snapshot
+        ELSE p_page.live_snapshot
+    END;
+$$;
+
+-- Keep in sync with getPageStatus in src/components/page-builder/publishing.ts
+CREATE OR REPLACE FUNCTION landing_page_status(p_page landing_pages)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT CASE
+        WHEN NOT COALESCE(p_page.published, false) THEN 'draft'
+        WHEN landing_page_live_snapshot(p_page) IS NULL THEN
+            CASE WHEN p_page.pending_snapshot IS NOT NULL THEN 'scheduled' ELSE 'draft' END
+        WHEN p_page.unpublish_at IS NOT NULL AND p_page.unpublish_at <= now() THEN 'ended'
+        ELSE 'live'
+    END;
+$$;
+
+-- A pending snapshot is served from its publish time on without any write.
+-- The next change to the page moves it into live_snapshot first, so editing
+-- the schedule never drops a version visitors already see. Publishing and
+-- unpublishing set pending_snapshot themselves and handle this on their own.
+CREATE OR REPLACE FUNCTION apply_due_landing_page_snapshot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF OLD.pending_snapshot IS NOT NULL AND COALESCE(OLD.publish_at <= now(), true)
+        AND NEW.pending_snapshot IS NOT DISTINCT FROM OLD.pending_snapshot THEN
+        NEW.live_snapshot := OLD.pending_snapshot;
+        NEW.pending_snapshot := NULL;
+        NEW.published_at := COALESCE(OLD.publish_at, CURRENT_TIMESTAMP);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_due_landing_page_snapshot ON landing_pages;
+CREATE TRIGGER apply_due_landing_page_snapshot
+    BEFORE UPDATE ON landing_pages
+    FOR EACH ROW EXECUTE FUNCTION apply_due_landing_page_snapshot();
+
+-- Copies the saved draft live, or queues it when p_publish_at is in the
+-- future; a page that is live now stays up with its current copy until
+-- then. Runs with the caller's rights, so row level security limits it to
+-- their own pages.
+CREATE OR REPLACE FUNCTION publish_landing_page(
+    p_page_id UUID,
+    p_publish_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_unpublish_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_page landing_pages%ROWTYPE;
+    v_is_live BOOLEAN;
+BEGIN
+    SELECT * INTO v_page FROM landing_pages WHERE id = p_page_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Landing page % not found', p_page_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_publish_at IS NOT NULL AND p_publish_at > now() THEN
+        v_is_live := landing_page_status(v_page) = 'live';
+        UPDATE landing_pages
+        SET live_snapshot = CASE WHEN v_is_live THEN landing_page_live_snapshot(v_page) END,
+            published_at = CASE
+                WHEN NOT v_is_live THEN NULL
+                WHEN v_page.pending_snapshot IS NOT NULL AND COALESCE(v_page.publish_at <= now(), true)
+                    THEN COALESCE(v_page.publish_at, CURRENT_TIMESTAMP)
+                ELSE v_page.published_at
+            END,
+            pending_snapshot = landing_page_snapshot(p_page_id),
+            published = true,
+            publish_at = p_publish_at,
+            unpublish_at = p_unpublish_at
+        WHERE id = p_page_id
+        RETURNING * INTO v_page;
+    ELSE
+        UPDATE landing_pages
+        SET live_snapshot = landing_page_snapshot(p_page_id),
+            pending_snapshot = NULL,
+            published = true,
+            published_at = CURRENT_TIMESTAMP,
+            publish_at = p_publish_at,
+            unpublish_at = p_unpublish_at
+        WHERE id = p_page_id
+        RETURNING * INTO v_page;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'status', landing_page_status(v_page),
+        'published_at', v_page.published_at,
+        'live_snapshot', v_page.live_snapshot,
+        'pending_snapshot', v_page.pending_snapshot
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION publish_landing_page(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+-- Public read of a page by slug. Only the live snapshot leaves the
+-- database, never a pending one before its time; drafts look the same as
+-- missing pages, and pages outside their window return just their status.
+CREATE OR REPLACE FUNCTION get_live_landing_page(p_slug TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_page landing_pages%ROWTYPE;
+    v_status TEXT;
+BEGIN
+    SELECT * INTO v_page FROM landing_pages WHERE slug = p_slug;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    v_status := landing_page_status(v_page);
+    IF v_status = 'draft' THEN
+        RETURN NULL;
+    END IF;
+    IF v_status <> 'live' THEN
+        RETURN jsonb_build_object('id', v_page.id, 'status', v_status, 'publish_at', v_page.publish_at);
+    END IF;
+
+    RETURN landing_page_live_snapshot(v_page) || jsonb_build_object(
+        'id', v_page.id,
+        'status', v_status,
+        'slug', v_page.slug,
+        'brand_id', v_page.brand_id
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_live_landing_page(TEXT) TO anon, authenticated;
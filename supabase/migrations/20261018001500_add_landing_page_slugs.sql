@@ -0,0 +1,160 @@
+-- Editable landing page slugs. A page's previous slugs keep pointing at it,
+-- so printed QR codes and shared links survive a rename, and no other page
+-- can take them over.
+CREATE TABLE IF NOT EXISTS landing_page_slug_redirects (
+    slug TEXT PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    page_id UUID NOT NULL REFERENCES landing_pages(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_landing_page_slug_redirects_page_id ON landing_page_slug_redirects(page_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_landing_pages_slug ON landing_pages(slug);
+
+ALTER TABLE landing_page_slug_redirects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view old slugs of their own pages"
+    ON landing_page_slug_redirects FOR SELECT
+    USING (EXISTS (
+        SELECT 1 FROM landing_pages
+        WHERE landing_pages.id = landing_page_slug_redirects.page_id AND landing_pages.user_id = auth.uid()
+    ));
+
+-- Keep in sync with RESERVED_SLUGS in src/lib/slugs.ts
+CREATE OR REPLACE FUNCTION is_reserved_slug(p_slug TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT p_slug = ANY(ARRAY[
+        'q', 's', 'verify', 'dashboard', 'auth', 'profile', 'admin', 'api',
+        'app', 'assets', 'static', 'public', 'login', 'logout', 'signup',
+        'register', 'settings', 'account', 'help', 'support', 'about',
+        'terms', 'privacy', 'index', 'home', 'www', 'edit-page', 'create-page'
+    ]);
+$$;
+
+-- Checks new slugs and records the old one as a redirect when a page is
+-- renamed. Slugs left untouched are not rechecked, so pages created before
+-- these rules keep working. Runs as the owner so it can write redirects.
+CREATE OR REPLACE FUNCTION check_landing_page_slug()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.slug IS NOT DISTINCT FROM OLD.slug THEN
+        RETURN NEW;
+    END IF;
+
+    -- Keep in sync with validateSlug in src/lib/slugs.ts
+    IF NEW.slug IS NULL OR NEW.slug !~ '^[a-z0-9]+(-[a-z0-9]+)*$'
+        OR length(NEW.slug) < 3 OR length(NEW.slug) > 60 THEN
+        RAISE EXCEPTION 'Invalid slug "%"', NEW.slug USING ERRCODE = '22023';
+    END IF;
+    IF is_reserved_slug(NEW.slug) THEN
+        RAISE EXCEPTION 'The slug "%" is reserved', NEW.slug USING ERRCODE = '22023';
+    END IF;
+    IF EXISTS (
+        SELECT 1 FROM landing_page_slug_redirects
+        WHERE slug = NEW.slug AND page_id <> NEW.id
+    ) THEN
+        RAISE EXCEPTION 'The slug "%" is already taken', NEW.slug USING ERRCODE = '23505';
+    END IF;
+
+    IF TG_OP = 'UPDATE' THEN
+        -- A page can go back to one of its own old slugs
+        DELETE FROM landing_page_slug_redirects WHERE slug = NEW.slug;
+        INSERT INTO landing_page_slug_redirects (slug, page_id)
+        VALUES (OLD.slug, NEW.id)
+        ON CONFLICT (slug) DO UPDATE SET page_id = EXCLUDED.page_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_landing_page_slug ON landing_pages;
+CREATE TRIGGER check_landing_page_slug
+    BEFORE INSERT OR UPDATE OF slug ON landing_pages
+    FOR EACH ROW EXECUTE FUNCTION check_landing_page_slug();
+
+-- Whether a slug is free for the given page, counting other pages' current
+-- and old slugs. Other users' pages aren't visible to the caller, so this
+-- runs as the owner and only returns a yes or no.
+CREATE OR REPLACE FUNCTION is_landing_page_slug_available(p_slug TEXT, p_page_id UUID DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT NOT EXISTS (
+        SELECT 1 FROM landing_pages
+        WHERE slug = p_slug AND id IS DISTINCT FROM p_page_id
+    ) AND NOT EXISTS (
+        SELECT 1 FROM landing_page_slug_redirects
+        WHERE slug = p_slug AND page_id IS DISTINCT FROM p_page_id
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_landing_page_slug_available(TEXT, UUID) TO authenticated;
+
+-- Adds redirects from old slugs: the result then only holds the page's
+-- current slug in redirect_to
+CREATE OR REPLACE FUNCTION get_live_landing_page(p_slug TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_page landing_pages%ROWTYPE;
+    v_status TEXT;
+BEGIN
+    SELECT * INTO v_page FROM landing_pages WHERE slug = p_slug;
+    IF NOT FOUND THEN
+        SELECT page.* INTO v_page
+        FROM landing_page_slug_redirects AS redirect
+        JOIN landing_pages AS page ON page.id = redirect.page_id
+        WHERE redirect.slug = p_slug;
+        IF NOT FOUND OR landing_page_status(v_page) = 'draft' THEN
+            RETURN NULL;
+        END IF;
+        RETURN jsonb_build_object('redirect_to', v_page.slug);
+    END IF;
+
+    v_status := landing_page_status(v_page);
+    IF v_status = 'draft' THEN
+        RETURN NULL;
+    END IF;
+    IF v_status <> 'live' THEN
+        RETURN jsonb_build_object('id', v_page.id, 'status', v_status, 'publish_at', v_page.publish_at);
+    END IF;
+
+    RETURN landing_page_live_snapshot(v_page) || jsonb_build_object(
+        'id', v_page.id,
+        'status', v_status,
+        'slug', v_page.slug,
+        'brand_id', v_page.brand_id
+    );
+END;
+$$;
+
+-- The current slug behind an old one, for the permanent redirect in
+-- middleware.ts. Like get_live_landing_page, drafts don't reveal theirs.
+CREATE OR REPLACE FUNCTION resolve_landing_page_slug_redirect(p_slug TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT page.slug
+    FROM landing_page_slug_redirects AS redirect
+    JOIN landing_pages AS page ON page.id = redirect.page_id
+    WHERE redirect.slug = p_slug AND landing_page_status(page) <> 'draft';
+$$;
+
+GRANT EXECUTE ON FUNCTION resolve_landing_page_slug_redirect(TEXT) TO anon, authenticated;
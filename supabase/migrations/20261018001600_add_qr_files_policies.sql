@@ -0,0 +1,21 @@
+-- Storage policies for the qr-files bucket (hosted vCards and other files
+-- behind dynamic QR codes). Files are public to read; each user can only
+-- write under their own folder, named after their user id. Keep in sync
+-- with setupStorageBuckets in src/integrations/supabase/client.ts.
+
+CREATE POLICY "Anyone can read QR files"
+    ON storage.objects FOR SELECT
+    USING (bucket_id = 'qr-files');
+
+CREATE POLICY "Users can upload their own QR files"
+    ON storage.objects FOR INSERT
+    WITH CHECK (bucket_id = 'qr-files' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can update their own QR files"
+    ON storage.objects FOR UPDATE
+    USING (bucket_id = 'qr-files' AND (storage.foldername(name))[1] = auth.uid()::text)
+    WITH CHECK (bucket_id = 'qr-files' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own QR files"
+    ON storage.objects FOR DELETE
+    USING (bucket_id = 'qr-files' AND (storage.foldername(name))[1] = auth.uid()::text);